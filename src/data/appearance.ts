@@ -0,0 +1,78 @@
+import type { AccessoryStyle, Appearance, FaceStyle, HairStyle, OutfitStyle, Palette } from '../state/save'
+import { cosmeticFor, isUnlocked } from './cosmetics'
+
+// Options the character builder cycles through, in display order. Some hair styles and outfits
+// have to be unlocked first (data/cosmetics.ts); the builder shows those as locked entries.
+export const HAIRS: HairStyle[] = ['none', 'spike', 'bob', 'mohawk', 'long']
+export const FACES: FaceStyle[] = ['blank', 'dots', 'wide', 'sleepy']
+export const OUTFITS: OutfitStyle[] = ['suit', 'robe', 'armor', 'coat', 'hoodie']
+export const ACCESSORIES: AccessoryStyle[] = ['none', 'hat', 'cape', 'visor']
+
+// Built-in color schemes offered next to the player's saved ones
+export const PALETTE_PRESETS: Palette[] = [
+  { bodyColor: 0x00d9ff, hairColor: 0x2b2b2b, outfitColor: 0x9097a5 },
+  { bodyColor: 0xf2c59b, hairColor: 0x7a4a1f, outfitColor: 0x3b5b92 },
+  { bodyColor: 0x8ee08a, hairColor: 0xf4f1de, outfitColor: 0x5c3d7a },
+  { bodyColor: 0xff8fab, hairColor: 0x1d1a2f, outfitColor: 0xc9a227 }
+]
+
+export type Rgb = { r: number; g: number; b: number }
+
+// h in degrees, s and v 0..1
+export function hsvToRgb(h: number, s: number, v: number): Rgb {
+  const c = v * s; const hp = (((h % 360) + 360) % 360) / 60; const x = c * (1 - Math.abs((hp % 2) - 1))
+  let r1 = 0, g1 = 0, b1 = 0
+  if (hp < 1) { r1 = c; g1 = x; b1 = 0 }
+  else if (hp < 2) { r1 = x; g1 = c; b1 = 0 }
+  else if (hp < 3) { r1 = 0; g1 = c; b1 = x }
+  else if (hp < 4) { r1 = 0; g1 = x; b1 = c }
+  else if (hp < 5) { r1 = x; g1 = 0; b1 = c }
+  else { r1 = c; g1 = 0; b1 = x }
+  const m = v - c
+  return { r: Math.round((r1 + m) * 255), g: Math.round((g1 + m) * 255), b: Math.round((b1 + m) * 255) }
+}
+
+export function hsvToColor(h: number, s: number, v: number): number {
+  const { r, g, b } = hsvToRgb(h, s, v)
+  return (r << 16) | (g << 8) | b
+}
+
+export function colorToHsv(color: number): { h: number; s: number; v: number } {
+  const r = ((color >> 16) & 0xff) / 255, g = ((color >> 8) & 0xff) / 255, b = (color & 0xff) / 255
+  const max = Math.max(r, g, b), d = max - Math.min(r, g, b)
+  let h = 0
+  if (d > 0) {
+    if (max === r) h = 60 * (((g - b) / d) % 6)
+    else if (max === g) h = 60 * ((b - r) / d + 2)
+    else h = 60 * ((r - g) / d + 4)
+  }
+  return { h: (h + 360) % 360, s: max === 0 ? 0 : d / max, v: max }
+}
+
+export function formatHexColor(color: number): string {
+  return '#' + (color & 0xffffff).toString(16).padStart(6, '0')
+}
+
+// Accepts "#rrggbb", "rrggbb" and the short "#rgb" form; null for anything else
+export function parseHexColor(text: string): number | null {
+  const m = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(text.trim())
+  if (!m) return null
+  const hex = m[1].length === 3 ? m[1].split('').map(c => c + c).join('') : m[1]
+  return parseInt(hex, 16)
+}
+
+// A random look for the builder's Randomize button, from the options the slot owns.
+// Colors avoid the muddy low-saturation corner.
+export function randomAppearance(random: () => number = Math.random, owned: readonly string[] = []): Appearance {
+  const pick = <T>(list: T[]): T => list[Math.floor(random() * list.length)]
+  const color = (minV: number) => hsvToColor(random() * 360, 0.35 + random() * 0.65, minV + random() * (1 - minV))
+  return {
+    hair: pick(HAIRS.filter(h => isUnlocked(cosmeticFor('hair', h), owned))),
+    face: pick(FACES),
+    outfit: pick(OUTFITS.filter(o => isUnlocked(cosmeticFor('outfit', o), owned))),
+    accessory: pick(ACCESSORIES),
+    bodyColor: color(0.55),
+    hairColor: color(0.15),
+    outfitColor: color(0.3)
+  }
+}
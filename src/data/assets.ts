@@ -0,0 +1,62 @@
+import { ENEMY_ARCHETYPES, type EnemyTypeId } from './enemies'
+import { HOSTILE_KINDS, type HostileKind } from './projectiles'
+import { BULLET_RADIUS } from '../sim/player'
+
+// Files loaded by BootScene before the first menu. Paths are relative to public/.
+export interface AtlasAsset { key: string; textureURL: string; atlasURL: string }
+export interface AudioAsset { key: string; urls: string[] }
+export interface FontAsset { family: string; url: string }
+
+export interface AssetManifest {
+  atlases: AtlasAsset[]
+  audio: AudioAsset[]
+  fonts: FontAsset[]
+}
+
+// Sprite atlases, sounds and fonts for BootScene to load. None ship with the game: every sprite is
+// baked from procedural shapes (see generatedTextures) and all sound is synthesized (data/audio.ts).
+export const ASSET_MANIFEST: AssetManifest = {
+  atlases: [],
+  audio: [],
+  fonts: []
+}
+
+// A filled circle with an optional outline, drawn once at boot and cached as a texture
+export interface CircleTexture {
+  key: string
+  radius: number
+  fill: number
+  stroke?: { width: number; color: number; alpha: number }
+}
+
+export type EnemyLook = 'idle' | 'flash' | 'charge'
+
+export const BULLET_TEXTURE = 'bullet'
+export const DUMMY_TEXTURE = 'dummy'
+
+export function enemyTexture(id: EnemyTypeId, look: EnemyLook = 'idle'): string {
+  return look === 'idle' ? `enemy:${id}` : `enemy:${id}:${look}`
+}
+
+export function hostileTexture(kind: HostileKind): string {
+  return `hostile:${kind}`
+}
+
+// Every shape the scenes draw many times: one texture per enemy look, projectile kind and prop
+export function generatedTextures(): CircleTexture[] {
+  const out: CircleTexture[] = [
+    { key: BULLET_TEXTURE, radius: BULLET_RADIUS, fill: 0xffc857 },
+    { key: DUMMY_TEXTURE, radius: 18, fill: 0xcccccc, stroke: { width: 2, color: 0x94a3b8, alpha: 1 } }
+  ]
+  for (const def of Object.values(ENEMY_ARCHETYPES)) {
+    out.push({ key: enemyTexture(def.id), radius: def.radius, fill: def.fill, stroke: { width: 2, color: def.stroke, alpha: 0.9 } })
+    // Hit flash for multi-HP enemies
+    out.push({ key: enemyTexture(def.id, 'flash'), radius: def.radius, fill: 0xffffff, stroke: { width: 2, color: def.stroke, alpha: 0.9 } })
+    // Charger telegraph outline
+    if (def.charge) out.push({ key: enemyTexture(def.id, 'charge'), radius: def.radius, fill: def.fill, stroke: { width: 3, color: 0xffffff, alpha: 1 } })
+  }
+  for (const [kind, def] of Object.entries(HOSTILE_KINDS) as Array<[HostileKind, typeof HOSTILE_KINDS[HostileKind]]>) {
+    out.push({ key: hostileTexture(kind), radius: def.radius, fill: def.fill, stroke: { width: 1, color: def.stroke, alpha: 0.8 } })
+  }
+  return out
+}
@@ -0,0 +1,85 @@
+// Procedural sound: every effect and music track is synthesized from these recipes at runtime,
+// so there are no audio files to load.
+export type SfxId = 'shoot' | 'dash' | 'enemyDeath' | 'playerHit' | 'dummyHit' | 'portal' | 'purchase'
+export type MusicId = 'safeRoom' | 'combat'
+export type Channel = 'music' | 'sfx'
+
+export type Wave = OscillatorType | 'noise'
+
+// One layer of an effect: a pitch sweep from freq to freqEnd with a quick attack and decay
+export interface Tone {
+  wave: Wave
+  freq: number
+  freqEnd?: number
+  durationMs: number
+  gain: number
+  delayMs?: number
+}
+
+export const SFX: Record<SfxId, Tone[]> = {
+  shoot: [{ wave: 'square', freq: 880, freqEnd: 440, durationMs: 70, gain: 0.12 }],
+  dash: [
+    { wave: 'noise', freq: 1800, freqEnd: 500, durationMs: 140, gain: 0.2 },
+    { wave: 'sine', freq: 220, freqEnd: 440, durationMs: 120, gain: 0.12 }
+  ],
+  enemyDeath: [
+    { wave: 'noise', freq: 900, freqEnd: 200, durationMs: 180, gain: 0.25 },
+    { wave: 'triangle', freq: 330, freqEnd: 110, durationMs: 160, gain: 0.18 }
+  ],
+  playerHit: [
+    { wave: 'sawtooth', freq: 180, freqEnd: 60, durationMs: 260, gain: 0.25 },
+    { wave: 'noise', freq: 600, freqEnd: 150, durationMs: 200, gain: 0.2 }
+  ],
+  dummyHit: [{ wave: 'triangle', freq: 520, freqEnd: 360, durationMs: 60, gain: 0.15 }],
+  portal: [
+    { wave: 'sine', freq: 220, freqEnd: 880, durationMs: 600, gain: 0.2 },
+    { wave: 'triangle', freq: 330, freqEnd: 1320, durationMs: 600, gain: 0.1, delayMs: 80 }
+  ],
+  purchase: [
+    { wave: 'square', freq: 660, durationMs: 80, gain: 0.1 },
+    { wave: 'square', freq: 990, durationMs: 140, gain: 0.1, delayMs: 80 }
+  ]
+}
+
+// A looping line of notes. Steps are semitones above root (null rests), each stepBeats long.
+export interface Voice {
+  wave: OscillatorType
+  root: number
+  gain: number
+  stepBeats: number
+  steps: Array<number | null>
+}
+
+export interface MusicTrack {
+  bpm: number
+  voices: Voice[]
+}
+
+export const MUSIC: Record<MusicId, MusicTrack> = {
+  // Slow A-minor arpeggios: Am, F, C, G
+  safeRoom: {
+    bpm: 84,
+    voices: [
+      { wave: 'triangle', root: 220, gain: 0.08, stepBeats: 0.5, steps: [0, 3, 7, 12, 7, 3, -4, 0, 5, 8, 5, 0, 3, 7, 10, 7, -2, 2, 5, 10, 5, 2, -2, 2] },
+      { wave: 'sine', root: 110, gain: 0.1, stepBeats: 2, steps: [0, -4, 3, -2] }
+    ]
+  },
+  // Driving E-minor pulse over an eighth-note bass
+  combat: {
+    bpm: 132,
+    voices: [
+      { wave: 'square', root: 82.41, gain: 0.07, stepBeats: 0.5, steps: [0, 0, 12, 0, 0, 10, 0, 7, 0, 0, 12, 0, 3, 5, 7, 10] },
+      { wave: 'triangle', root: 329.63, gain: 0.05, stepBeats: 1, steps: [7, null, 5, 3, 7, null, 10, 12] }
+    ]
+  }
+}
+
+export function noteFreq(root: number, semitones: number): number {
+  return root * Math.pow(2, semitones / 12)
+}
+
+// Effective gain for a channel; volumes are 0..1 and master scales both channels
+export function channelVolume(v: { masterVolume: number; musicVolume: number; sfxVolume: number }, channel: Channel): number {
+  const clamp = (x: number) => Math.min(1, Math.max(0, Number.isFinite(x) ? x : 0))
+  return clamp(v.masterVolume) * clamp(channel === 'music' ? v.musicVolume : v.sfxVolume)
+}
@@ -0,0 +1,42 @@
+// Bullet patterns; everyMs is the cooldown between volleys
+export type BossAttack =
+  | { kind: 'radial'; count: number; speed: number; everyMs: number }
+  | { kind: 'spiral'; arms: number; stepDeg: number; speed: number; everyMs: number }
+  | { kind: 'aimed'; shots: number; spreadDeg: number; speed: number; everyMs: number }
+
+export interface BossPhase {
+  // Phase is active once boss HP fraction drops to this value (first phase uses 1)
+  fromHpFrac: number
+  speedMult: number
+  attacks: BossAttack[]
+}
+
+export interface BossSpec {
+  name: string
+  // Distance the boss tries to keep from the player while attacking
+  holdRange: number
+  shotDamage: number
+  phases: BossPhase[]
+}
+
+export const WARDEN: BossSpec = {
+  name: 'The Warden',
+  holdRange: 220,
+  shotDamage: 1,
+  phases: [
+    { fromHpFrac: 1, speedMult: 1, attacks: [{ kind: 'aimed', shots: 3, spreadDeg: 24, speed: 300, everyMs: 1400 }] },
+    { fromHpFrac: 0.66, speedMult: 1.2, attacks: [{ kind: 'aimed', shots: 5, spreadDeg: 40, speed: 320, everyMs: 1500 }, { kind: 'radial', count: 12, speed: 220, everyMs: 2600 }] },
+    { fromHpFrac: 0.33, speedMult: 1.4, attacks: [{ kind: 'spiral', arms: 3, stepDeg: 14, speed: 240, everyMs: 140 }, { kind: 'aimed', shots: 3, spreadDeg: 20, speed: 380, everyMs: 1800 }] }
+  ]
+}
+
+export const HIVE_MOTHER: BossSpec = {
+  name: 'Hive Mother',
+  holdRange: 280,
+  shotDamage: 1,
+  phases: [
+    { fromHpFrac: 1, speedMult: 1, attacks: [{ kind: 'radial', count: 16, speed: 200, everyMs: 2000 }] },
+    { fromHpFrac: 0.5, speedMult: 1.3, attacks: [{ kind: 'spiral', arms: 4, stepDeg: 11, speed: 220, everyMs: 160 }, { kind: 'radial', count: 24, speed: 160, everyMs: 3200 }] },
+    { fromHpFrac: 0.2, speedMult: 1.6, attacks: [{ kind: 'spiral', arms: 6, stepDeg: -9, speed: 260, everyMs: 150 }, { kind: 'aimed', shots: 7, spreadDeg: 60, speed: 340, everyMs: 1300 }] }
+  ]
+}
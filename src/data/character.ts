@@ -0,0 +1,66 @@
+import type { Appearance } from '../state/save'
+
+// Player figure animations. Frames are baked once per appearance into one sprite sheet
+// (ui/CharacterSprite.ts), so the builder preview and the in-game player share every pixel.
+export type CharacterAnim = 'idle' | 'dash' | 'shoot' | 'hit'
+
+// How one frame deviates from the standing figure. The figure faces right; facing left is a flip.
+export interface Pose {
+  // Whole-figure vertical offset (idle breathing)
+  bob: number
+  // Head and hair shift towards the facing side (dash lean)
+  lean: number
+  // Length of the front arm held out horizontally; 0 keeps it at the side
+  reach: number
+  // Speed lines trailing behind the figure
+  streaks: boolean
+  // Everything drawn in the hit color instead of the appearance colors
+  flash: boolean
+}
+
+export interface CharacterAnimDef {
+  frames: Pose[]
+  frameRate: number
+  // Looping animations are base states; the others play once and fall back to the base state
+  loop: boolean
+}
+
+const STAND: Pose = { bob: 0, lean: 0, reach: 0, streaks: false, flash: false }
+
+export const CHARACTER_ANIMS: Record<CharacterAnim, CharacterAnimDef> = {
+  idle: { frames: [STAND, { ...STAND, bob: 1 }], frameRate: 3, loop: true },
+  dash: { frames: [{ ...STAND, lean: 3, streaks: true }, { ...STAND, lean: 4, bob: -1, streaks: true }], frameRate: 14, loop: true },
+  shoot: { frames: [{ ...STAND, reach: 14 }, { ...STAND, reach: 11, lean: -1 }, { ...STAND, reach: 12 }], frameRate: 24, loop: false },
+  hit: { frames: [{ ...STAND, flash: true }, STAND, { ...STAND, flash: true }], frameRate: 20, loop: false }
+}
+
+export const CHARACTER_HIT_COLOR = 0xff3b3b
+
+// Every frame is this big, with the figure's origin (its torso centre) at ORIGIN within it.
+// The headroom above the head is for hats.
+export const CHARACTER_FRAME = { width: 56, height: 50, originX: 28, originY: 29 }
+
+export interface CharacterFrame {
+  name: string
+  anim: CharacterAnim
+  pose: Pose
+}
+
+// Frames in sheet order, left to right
+export function characterFrames(): CharacterFrame[] {
+  const out: CharacterFrame[] = []
+  for (const [anim, def] of Object.entries(CHARACTER_ANIMS) as Array<[CharacterAnim, CharacterAnimDef]>) {
+    def.frames.forEach((pose, i) => out.push({ name: `${anim}${i}`, anim, pose }))
+  }
+  return out
+}
+
+// Texture key for an appearance; equal appearances share one sheet
+export function characterTextureKey(a: Appearance): string {
+  const colors = [a.bodyColor, a.hairColor, a.outfitColor].map(c => c.toString(16)).join(':')
+  return `character:${a.hair}:${a.face}:${a.outfit}:${a.accessory}:${colors}`
+}
+
+export function characterAnimKey(textureKey: string, anim: CharacterAnim): string {
+  return `${textureKey}:${anim}`
+}
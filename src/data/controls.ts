@@ -0,0 +1,132 @@
+// Rebindable actions. Inputs are KeyboardEvent.code values ('KeyF', 'F3', 'ShiftLeft', ...) or
+// mouse buttons as 'Mouse0' (left), 'Mouse1' (middle), 'Mouse2' (right).
+export type ActionId =
+  | 'moveUp'
+  | 'moveDown'
+  | 'moveLeft'
+  | 'moveRight'
+  | 'dash'
+  | 'shoot'
+  | 'directDash'
+  | 'nextLevel'
+  | 'restart'
+  | 'closePanel'
+  | 'toggleFullscreen'
+  | 'saveSelect'
+  | 'openSettings'
+  | 'controlsHelp'
+  | 'toggleDebug'
+  | 'devPanel'
+  | 'debugDraw'
+
+export type ActionGroup = 'Movement' | 'Combat' | 'Run' | 'Interface' | 'Debug'
+
+export interface ActionDef {
+  id: ActionId
+  label: string
+  group: ActionGroup
+  defaults: string[]
+}
+
+export type Bindings = Record<ActionId, string[]>
+
+// Each action holds at most this many inputs (primary + alternate)
+export const MAX_BINDINGS = 2
+
+// Menu keys handled by the focus system; they can't be rebound
+export const RESERVED_INPUTS = ['Escape', 'Enter', 'NumpadEnter']
+
+export const ACTIONS: ActionDef[] = [
+  // Only used in the WASD movement mode
+  { id: 'moveUp', label: 'Move up', group: 'Movement', defaults: ['KeyW', 'ArrowUp'] },
+  { id: 'moveDown', label: 'Move down', group: 'Movement', defaults: ['KeyS', 'ArrowDown'] },
+  { id: 'moveLeft', label: 'Move left', group: 'Movement', defaults: ['KeyA', 'ArrowLeft'] },
+  { id: 'moveRight', label: 'Move right', group: 'Movement', defaults: ['KeyD', 'ArrowRight'] },
+  { id: 'dash', label: 'Dash (burst in WASD mode)', group: 'Combat', defaults: ['Mouse0', 'Space'] },
+  { id: 'shoot', label: 'Shoot toward cursor', group: 'Combat', defaults: ['Mouse2'] },
+  { id: 'directDash', label: 'Straight dash (hold)', group: 'Combat', defaults: ['ShiftLeft', 'ShiftRight'] },
+  { id: 'nextLevel', label: 'Next level', group: 'Run', defaults: ['KeyN'] },
+  { id: 'restart', label: 'Restart after game over', group: 'Run', defaults: ['KeyR'] },
+  { id: 'closePanel', label: 'Close upgrade terminal', group: 'Interface', defaults: ['KeyE'] },
+  { id: 'toggleFullscreen', label: 'Toggle fullscreen', group: 'Interface', defaults: ['KeyF'] },
+  { id: 'saveSelect', label: 'Back to Save Select', group: 'Interface', defaults: ['F6'] },
+  { id: 'openSettings', label: 'Settings (Safe Room)', group: 'Interface', defaults: ['KeyO'] },
+  { id: 'controlsHelp', label: 'Show controls (Safe Room)', group: 'Interface', defaults: ['KeyH'] },
+  { id: 'toggleDebug', label: 'Debug overlays', group: 'Debug', defaults: ['F3'] },
+  { id: 'devPanel', label: 'Dev panel', group: 'Debug', defaults: ['Backquote'] },
+  { id: 'debugDraw', label: 'Debug draw (dev panel)', group: 'Debug', defaults: ['KeyP'] }
+]
+
+export function defaultBindings(): Bindings {
+  const out = {} as Bindings
+  for (const a of ACTIONS) out[a.id] = [...a.defaults]
+  return out
+}
+
+// Defaults with the profile's saved overrides applied; unknown actions and inputs are dropped
+export function resolveBindings(overrides?: Record<string, string[]>): Bindings {
+  const out = defaultBindings()
+  if (!overrides) return out
+  for (const a of ACTIONS) {
+    const list = overrides[a.id]
+    if (Array.isArray(list)) out[a.id] = list.filter(i => typeof i === 'string' && !RESERVED_INPUTS.includes(i)).slice(0, MAX_BINDINGS)
+  }
+  return out
+}
+
+// Only actions that differ from their defaults are stored in the save
+export function bindingOverrides(b: Bindings): Record<string, string[]> {
+  const out: Record<string, string[]> = {}
+  for (const a of ACTIONS) {
+    if (b[a.id].join('|') !== a.defaults.join('|')) out[a.id] = [...b[a.id]]
+  }
+  return out
+}
+
+export function actionsFor(b: Bindings, input: string): ActionId[] {
+  return ACTIONS.filter(a => b[a.id].includes(input)).map(a => a.id)
+}
+
+// Another action already using this input, if any
+export function findConflict(b: Bindings, action: ActionId, input: string): ActionId | undefined {
+  return actionsFor(b, input).find(id => id !== action)
+}
+
+// Puts input into the given slot of an action, taking it away from any other action that had it
+export function rebind(b: Bindings, action: ActionId, slot: number, input: string): Bindings {
+  if (RESERVED_INPUTS.includes(input)) return b
+  const out = { ...b }
+  for (const a of ACTIONS) {
+    if (a.id !== action && out[a.id].includes(input)) out[a.id] = out[a.id].filter(i => i !== input)
+  }
+  const list = out[action].filter(i => i !== input)
+  list.splice(Math.min(slot, list.length), slot < list.length ? 1 : 0, input)
+  out[action] = list.slice(0, MAX_BINDINGS)
+  return out
+}
+
+export function unbind(b: Bindings, action: ActionId, slot: number): Bindings {
+  return { ...b, [action]: b[action].filter((_, i) => i !== slot) }
+}
+
+const MOUSE_LABELS = ['Left Click', 'Middle Click', 'Right Click', 'Mouse 4', 'Mouse 5']
+const KEY_LABELS: Record<string, string> = {
+  Backquote: '`', Minus: '-', Equal: '=', BracketLeft: '[', BracketRight: ']', Backslash: '\\',
+  Semicolon: ';', Quote: "'", Comma: ',', Period: '.', Slash: '/', Space: 'Space', Tab: 'Tab',
+  ShiftLeft: 'Left Shift', ShiftRight: 'Right Shift', ControlLeft: 'Left Ctrl', ControlRight: 'Right Ctrl',
+  AltLeft: 'Left Alt', AltRight: 'Right Alt', ArrowUp: 'Up', ArrowDown: 'Down', ArrowLeft: 'Left', ArrowRight: 'Right'
+}
+
+export function inputLabel(input: string): string {
+  if (input.startsWith('Mouse')) return MOUSE_LABELS[Number(input.slice(5))] ?? `Mouse ${input.slice(5)}`
+  if (KEY_LABELS[input]) return KEY_LABELS[input]
+  if (/^Key[A-Z]$/.test(input)) return input.slice(3)
+  if (/^Digit\d$/.test(input)) return input.slice(5)
+  if (input.startsWith('Numpad')) return 'Num ' + input.slice(6)
+  return input
+}
+
+// Rows for the in-game controls list, in catalog order
+export function describeControls(b: Bindings): { group: ActionGroup; label: string; inputs: string }[] {
+  return ACTIONS.map(a => ({ group: a.group, label: a.label, inputs: b[a.id].map(inputLabel).join(' / ') || 'unbound' }))
+}
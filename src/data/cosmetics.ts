@@ -0,0 +1,61 @@
+import type { Appearance, HairStyle, OutfitStyle, Palette } from '../state/save'
+
+// Cosmetics beyond the starter set are earned per slot, either by reaching a milestone in a run
+// or by spending cores in the builder. Owned ids live in SaveData.unlocks.cosmetics.
+// Hair and outfits are shapes the builder can't otherwise draw, so a look using a locked one can't be
+// saved. Palettes are only convenience presets: the color picker can still mix the same colors by hand.
+export type MilestoneId = 'reachLevel10' | 'bossKill' | 'flawlessClear'
+
+export const MILESTONES: Record<MilestoneId, string> = {
+  reachLevel10: 'Reach level 10',
+  bossKill: 'Defeat a boss',
+  flawlessClear: 'Clear a level without taking damage'
+}
+
+export type CosmeticUnlock = { milestone: MilestoneId } | { cores: number }
+
+interface CosmeticBase { id: string; label: string; unlock: CosmeticUnlock }
+
+export type Cosmetic =
+  | CosmeticBase & { kind: 'hair'; value: HairStyle }
+  | CosmeticBase & { kind: 'outfit'; value: OutfitStyle }
+  | CosmeticBase & { kind: 'palette'; value: Palette }
+
+export const COSMETICS: Cosmetic[] = [
+  { id: 'hair:mohawk', kind: 'hair', value: 'mohawk', label: 'Mohawk', unlock: { milestone: 'bossKill' } },
+  { id: 'hair:long', kind: 'hair', value: 'long', label: 'Long hair', unlock: { cores: 30 } },
+  { id: 'outfit:coat', kind: 'outfit', value: 'coat', label: 'Long coat', unlock: { milestone: 'reachLevel10' } },
+  { id: 'outfit:hoodie', kind: 'outfit', value: 'hoodie', label: 'Hoodie', unlock: { cores: 40 } },
+  { id: 'palette:ember', kind: 'palette', value: { bodyColor: 0xffb38a, hairColor: 0xd7263d, outfitColor: 0x3d1f1f }, label: 'Ember palette', unlock: { milestone: 'flawlessClear' } },
+  { id: 'palette:midnight', kind: 'palette', value: { bodyColor: 0x9fb4ff, hairColor: 0xe5e7eb, outfitColor: 0x111827 }, label: 'Midnight palette', unlock: { cores: 25 } }
+]
+
+// The catalog entry gating a hair style or outfit; starter options have none
+export function cosmeticFor(kind: 'hair', value: HairStyle): Cosmetic | undefined
+export function cosmeticFor(kind: 'outfit', value: OutfitStyle): Cosmetic | undefined
+export function cosmeticFor(kind: 'hair' | 'outfit', value: string): Cosmetic | undefined {
+  return COSMETICS.find(c => c.kind === kind && c.value === value)
+}
+
+export function isUnlocked(c: Cosmetic | undefined, owned: readonly string[]): boolean {
+  return !c || owned.includes(c.id)
+}
+
+// How to get it, for locked entries: "Defeat a boss" or "30 cores"
+export function unlockHint(c: Cosmetic): string {
+  return 'milestone' in c.unlock ? MILESTONES[c.unlock.milestone] : `${c.unlock.cores} cores`
+}
+
+export function coreCost(c: Cosmetic): number | undefined {
+  return 'cores' in c.unlock ? c.unlock.cores : undefined
+}
+
+// Cosmetics the milestone grants that the slot doesn't own yet
+export function milestoneUnlocks(m: MilestoneId, owned: readonly string[]): Cosmetic[] {
+  return COSMETICS.filter(c => 'milestone' in c.unlock && c.unlock.milestone === m && !owned.includes(c.id))
+}
+
+// Parts of the look the slot hasn't unlocked; a character can only be saved when this is empty
+export function lockedParts(a: Appearance, owned: readonly string[]): Cosmetic[] {
+  return [cosmeticFor('hair', a.hair), cosmeticFor('outfit', a.outfit)].filter((c): c is Cosmetic => !!c && !isUnlocked(c, owned))
+}
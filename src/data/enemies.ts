@@ -0,0 +1,65 @@
+import { HIVE_MOTHER, WARDEN, type BossSpec } from './bosses'
+import type { HostileKind } from './projectiles'
+
+export type EnemyTypeId = 'chaser' | 'swarmer' | 'shooter' | 'tank' | 'splitter' | 'splitling' | 'charger' | 'warden' | 'hiveMother'
+export type EnemyBehaviour = 'chase' | 'ranged' | 'charge' | 'boss'
+
+export interface EnemyArchetype {
+  id: EnemyTypeId
+  behaviour: EnemyBehaviour
+  radius: number
+  speed: number
+  hp: number
+  contactDamage: number
+  // 0 = full knockback from bullets, 1 = immovable
+  knockbackResist: number
+  cores: number
+  fill: number
+  stroke: number
+  // Random spawn mix: eligible from minLevel, picked by weight (0 = never spawned directly)
+  minLevel: number
+  weight: number
+  // Behaviour tuning (only read by the matching behaviour)
+  ranged?: { preferredRange: number; fireIntervalMs: number; projectile: HostileKind; projectileSpeed: number; projectileDamage: number }
+  charge?: { triggerRange: number; windupMs: number; dashSpeed: number; dashMs: number; recoverMs: number }
+  split?: { into: EnemyTypeId; count: number }
+  boss?: BossSpec
+}
+
+export const ENEMY_ARCHETYPES: Record<EnemyTypeId, EnemyArchetype> = {
+  chaser: { id: 'chaser', behaviour: 'chase', radius: 14, speed: 110, hp: 1, contactDamage: 1, knockbackResist: 0, cores: 1, fill: 0xff5a5a, stroke: 0x8b2a2a, minLevel: 1, weight: 6 },
+  swarmer: { id: 'swarmer', behaviour: 'chase', radius: 9, speed: 190, hp: 1, contactDamage: 1, knockbackResist: 0, cores: 1, fill: 0xfb923c, stroke: 0x9a3412, minLevel: 2, weight: 4 },
+  shooter: {
+    id: 'shooter', behaviour: 'ranged', radius: 13, speed: 90, hp: 2, contactDamage: 1, knockbackResist: 0.2, cores: 2, fill: 0xc084fc, stroke: 0x6b21a8, minLevel: 3, weight: 2,
+    ranged: { preferredRange: 260, fireIntervalMs: 1600, projectile: 'orb', projectileSpeed: 320, projectileDamage: 1 }
+  },
+  tank: { id: 'tank', behaviour: 'chase', radius: 22, speed: 60, hp: 6, contactDamage: 2, knockbackResist: 0.85, cores: 4, fill: 0x94a3b8, stroke: 0x334155, minLevel: 3, weight: 1 },
+  splitter: {
+    id: 'splitter', behaviour: 'chase', radius: 18, speed: 80, hp: 3, contactDamage: 1, knockbackResist: 0.4, cores: 2, fill: 0x4ade80, stroke: 0x166534, minLevel: 4, weight: 2,
+    split: { into: 'splitling', count: 3 }
+  },
+  splitling: { id: 'splitling', behaviour: 'chase', radius: 8, speed: 160, hp: 1, contactDamage: 1, knockbackResist: 0, cores: 0, fill: 0x86efac, stroke: 0x166534, minLevel: 1, weight: 0 },
+  charger: {
+    id: 'charger', behaviour: 'charge', radius: 15, speed: 70, hp: 3, contactDamage: 2, knockbackResist: 0.5, cores: 3, fill: 0xfacc15, stroke: 0x854d0e, minLevel: 5, weight: 2,
+    charge: { triggerRange: 320, windupMs: 650, dashSpeed: 620, dashMs: 420, recoverMs: 700 }
+  },
+  // Bosses: only placed by boss levels, never in the random mix
+  warden: { id: 'warden', behaviour: 'boss', radius: 42, speed: 70, hp: 60, contactDamage: 2, knockbackResist: 1, cores: 25, fill: 0xef4444, stroke: 0x7f1d1d, minLevel: 5, weight: 0, boss: WARDEN },
+  hiveMother: { id: 'hiveMother', behaviour: 'boss', radius: 46, speed: 55, hp: 80, contactDamage: 2, knockbackResist: 1, cores: 35, fill: 0x84cc16, stroke: 0x365314, minLevel: 10, weight: 0, boss: HIVE_MOTHER }
+}
+
+export function getArchetype(id: EnemyTypeId): EnemyArchetype {
+  return ENEMY_ARCHETYPES[id]
+}
+
+// Weighted pick among archetypes unlocked at this level
+export function pickArchetype(level: number, rand: () => number = Math.random): EnemyArchetype {
+  const pool = Object.values(ENEMY_ARCHETYPES).filter(a => a.weight > 0 && a.minLevel <= level)
+  const total = pool.reduce((s, a) => s + a.weight, 0)
+  let roll = rand() * total
+  for (const a of pool) {
+    roll -= a.weight
+    if (roll < 0) return a
+  }
+  return pool[pool.length - 1] ?? ENEMY_ARCHETYPES.chaser
+}
@@ -0,0 +1,179 @@
+import { ENEMY_ARCHETYPES, pickArchetype, type EnemyTypeId } from './enemies'
+
+export type SpawnEdge = 'top' | 'bottom' | 'left' | 'right' | 'any'
+
+export interface SpawnGroup {
+  type: EnemyTypeId
+  count: number
+  // Delay between spawns in this group
+  everyMs: number
+  // Offset from wave start before the first spawn
+  afterMs?: number
+  // Where to spawn: a screen edge (default 'any') or a fixed point in normalized 0..1 screen coords
+  edge?: SpawnEdge
+  at?: { x: number; y: number }
+}
+
+export type ClearCondition =
+  | { kind: 'killAll' }
+  | { kind: 'survive'; seconds: number }
+  | { kind: 'defeatBoss'; boss: EnemyTypeId }
+
+export interface WaveDef {
+  // Breather before this wave starts
+  delayMs?: number
+  spawns: SpawnGroup[]
+  clear: ClearCondition
+}
+
+export interface LevelDef {
+  name?: string
+  waves: WaveDef[]
+}
+
+const EDGES: SpawnEdge[] = ['top', 'bottom', 'left', 'right', 'any']
+const LEVEL1_SPAWN_BUDGET = 12
+
+// Hand-authored levels; anything past the end is generated by generateLevel()
+const AUTHORED_LEVELS: unknown[] = [
+  {
+    name: 'First Contact',
+    waves: [
+      { spawns: [{ type: 'chaser', count: 6, everyMs: 1400 }], clear: { kind: 'killAll' } },
+      { delayMs: 1500, spawns: [{ type: 'chaser', count: 6, everyMs: 1000, edge: 'right' }], clear: { kind: 'killAll' } }
+    ]
+  },
+  {
+    name: 'Swarm',
+    waves: [
+      { spawns: [{ type: 'chaser', count: 6, everyMs: 1200 }], clear: { kind: 'killAll' } },
+      { delayMs: 1500, spawns: [{ type: 'swarmer', count: 10, everyMs: 350, edge: 'top' }], clear: { kind: 'killAll' } }
+    ]
+  },
+  {
+    name: 'Crossfire',
+    waves: [
+      { spawns: [{ type: 'shooter', count: 2, everyMs: 600, at: { x: 0.15, y: 0.2 } }, { type: 'shooter', count: 2, everyMs: 600, at: { x: 0.85, y: 0.8 } }, { type: 'chaser', count: 6, everyMs: 1200, afterMs: 1000 }], clear: { kind: 'killAll' } },
+      { delayMs: 1500, spawns: [{ type: 'tank', count: 1, everyMs: 0 }, { type: 'swarmer', count: 8, everyMs: 500, afterMs: 800 }], clear: { kind: 'killAll' } }
+    ]
+  },
+  {
+    name: 'Hold the Line',
+    waves: [
+      { spawns: [{ type: 'splitter', count: 3, everyMs: 1500 }, { type: 'chaser', count: 6, everyMs: 1000, afterMs: 500 }], clear: { kind: 'killAll' } },
+      { delayMs: 1500, spawns: [{ type: 'swarmer', count: 30, everyMs: 600 }, { type: 'shooter', count: 2, everyMs: 4000, afterMs: 2000 }], clear: { kind: 'survive', seconds: 20 } }
+    ]
+  }
+]
+
+// Returns a list of problems; empty when the definition is well-formed
+export function validateLevelDef(raw: unknown, where = 'level'): string[] {
+  const errors: string[] = []
+  const err = (msg: string) => errors.push(`${where}: ${msg}`)
+  const isObj = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v)
+  const isNum = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v)
+  if (!isObj(raw)) { err('must be an object'); return errors }
+  if (raw.name !== undefined && typeof raw.name !== 'string') err('name must be a string')
+  if (!Array.isArray(raw.waves) || raw.waves.length === 0) { err('waves must be a non-empty array'); return errors }
+  raw.waves.forEach((w: unknown, wi: number) => {
+    const wp = `wave ${wi + 1}`
+    if (!isObj(w)) { err(`${wp} must be an object`); return }
+    if (w.delayMs !== undefined && (!isNum(w.delayMs) || w.delayMs < 0)) err(`${wp} delayMs must be >= 0`)
+    if (!Array.isArray(w.spawns)) { err(`${wp} spawns must be an array`); return }
+    w.spawns.forEach((g: unknown, gi: number) => {
+      const gp = `${wp} spawn ${gi + 1}`
+      if (!isObj(g)) { err(`${gp} must be an object`); return }
+      if (typeof g.type !== 'string' || !(g.type in ENEMY_ARCHETYPES)) err(`${gp} unknown enemy type "${String(g.type)}"`)
+      if (!isNum(g.count) || !Number.isInteger(g.count) || g.count < 1) err(`${gp} count must be a positive integer`)
+      if (!isNum(g.everyMs) || g.everyMs < 0) err(`${gp} everyMs must be >= 0`)
+      if (g.afterMs !== undefined && (!isNum(g.afterMs) || g.afterMs < 0)) err(`${gp} afterMs must be >= 0`)
+      if (g.edge !== undefined && !EDGES.some(e => e === g.edge)) err(`${gp} edge must be one of ${EDGES.join(', ')}`)
+      if (g.at !== undefined) {
+        if (!isObj(g.at) || !isNum(g.at.x) || !isNum(g.at.y) || g.at.x < 0 || g.at.x > 1 || g.at.y < 0 || g.at.y > 1) err(`${gp} at must be {x, y} within 0..1`)
+        if (g.edge !== undefined) err(`${gp} cannot set both edge and at`)
+      }
+    })
+    const c = w.clear
+    if (!isObj(c)) { err(`${wp} clear condition missing`); return }
+    if (c.kind === 'killAll') {
+      if (w.spawns.length === 0) err(`${wp} killAll wave needs at least one spawn`)
+    } else if (c.kind === 'survive') {
+      if (!isNum(c.seconds) || c.seconds <= 0) err(`${wp} survive seconds must be > 0`)
+    } else if (c.kind === 'defeatBoss') {
+      if (typeof c.boss !== 'string' || !(c.boss in ENEMY_ARCHETYPES) || ENEMY_ARCHETYPES[c.boss as EnemyTypeId].behaviour !== 'boss') err(`${wp} defeatBoss target "${String(c.boss)}" is not a boss`)
+      else if (!w.spawns.some((g: unknown) => isObj(g) && g.type === c.boss)) err(`${wp} defeatBoss target "${String(c.boss)}" is never spawned`)
+    } else {
+      err(`${wp} unknown clear kind "${String(c.kind)}"`)
+    }
+  })
+  return errors
+}
+
+function assertLevels(raw: unknown[], first = 1): void {
+  const errors = raw.flatMap((def, i) => validateLevelDef(def, `level ${first + i}`))
+  if (errors.length > 0) throw new Error('Invalid level definitions:\n' + errors.join('\n'))
+}
+
+function loadLevels(raw: unknown[]): LevelDef[] {
+  assertLevels(raw)
+  return raw as LevelDef[]
+}
+
+// Generated scripts go through the same checks as authored ones
+function checked(def: LevelDef, level: number): LevelDef {
+  assertLevels([def], level)
+  return def
+}
+
+export const LEVELS: LevelDef[] = loadLevels(AUTHORED_LEVELS)
+
+// Endless ramp past the authored levels: same enemy budget as the old linear ramp, split into waves
+export function generateLevel(level: number, rand: () => number = Math.random): LevelDef {
+  const budget = LEVEL1_SPAWN_BUDGET + (level - 1) * 4
+  const waveCount = Math.min(4, 1 + Math.floor(level / 3))
+  const interval = Math.max(500, 1400 - level * 40)
+  const waves: WaveDef[] = []
+  let left = budget
+  for (let w = 0; w < waveCount; w++) {
+    const count = w === waveCount - 1 ? left : Math.round(budget / waveCount)
+    left -= count
+    const spawns: SpawnGroup[] = []
+    for (let i = 0; i < count; i++) {
+      const type = pickArchetype(level, rand).id
+      // Merge consecutive picks of the same type; spawns stay one interval apart
+      const last = spawns[spawns.length - 1]
+      if (last && last.type === type) last.count++
+      else spawns.push({ type, count: 1, everyMs: interval, afterMs: i * interval })
+    }
+    waves.push({ delayMs: w === 0 ? 0 : 1500, spawns, clear: { kind: 'killAll' } })
+  }
+  return checked({ name: `Level ${level}`, waves }, level)
+}
+
+export const BOSS_LEVEL_EVERY = 5
+
+export function isBossLevel(level: number): boolean {
+  return level > 0 && level % BOSS_LEVEL_EVERY === 0
+}
+
+// Boss arena: the boss plus a trickle of adds; the level ends only when the boss dies
+export function bossLevel(level: number): LevelDef {
+  const boss: EnemyTypeId = (level / BOSS_LEVEL_EVERY) % 2 === 1 ? 'warden' : 'hiveMother'
+  const adds: EnemyTypeId = boss === 'warden' ? 'chaser' : 'swarmer'
+  const tier = level / BOSS_LEVEL_EVERY
+  return checked({
+    name: `Boss: ${ENEMY_ARCHETYPES[boss].boss?.name ?? boss}`,
+    waves: [{
+      spawns: [
+        { type: boss, count: 1, everyMs: 0, at: { x: 0.5, y: 0.2 } },
+        { type: adds, count: 4 + tier * 2, everyMs: 3000, afterMs: 4000 }
+      ],
+      clear: { kind: 'defeatBoss', boss }
+    }]
+  }, level)
+}
+
+export function getLevelDef(level: number, rand: () => number = Math.random): LevelDef {
+  if (isBossLevel(level)) return bossLevel(level)
+  return LEVELS[level - 1] ?? generateLevel(level, rand)
+}
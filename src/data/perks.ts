@@ -0,0 +1,40 @@
+// Run-only perks drafted between levels. They stack for the current run on top of the permanent
+// upgrades (sim/player.ts combatStats) and are gone once the player is back in the Safe Room.
+export type PerkId = 'multishot' | 'homing' | 'bigShots' | 'blast' | 'dashStrike' | 'lifesteal'
+
+export interface PerkDef {
+  id: PerkId
+  label: string
+  desc: string
+  maxStacks: number
+}
+
+export const PERKS: PerkDef[] = [
+  { id: 'multishot', label: 'Multishot', desc: '+1 bullet per shot, fanned around your aim', maxStacks: 3 },
+  { id: 'homing', label: 'Homing', desc: 'Bullets curve toward the nearest enemy', maxStacks: 3 },
+  { id: 'bigShots', label: 'Big Shots', desc: 'Bullets are 50% bigger', maxStacks: 3 },
+  { id: 'blast', label: 'Volatile', desc: 'Enemies you shoot down explode, hurting those nearby', maxStacks: 3 },
+  { id: 'dashStrike', label: 'Dash Strike', desc: 'Dashing through enemies damages them', maxStacks: 3 },
+  { id: 'lifesteal', label: 'Lifesteal', desc: 'Heal 1 HP every few kills', maxStacks: 3 }
+]
+
+// Stacks picked so far this run, by perk
+export type PerkStacks = Partial<Record<PerkId, number>>
+
+export const PERK_DRAFT_SIZE = 3
+
+export function getPerk(id: PerkId): PerkDef {
+  return PERKS.find(p => p.id === id)!
+}
+
+export function perkStacks(stacks: PerkStacks, id: PerkId): number {
+  return stacks[id] ?? 0
+}
+
+// Distinct perks to offer after a clear, skipping maxed ones. Fewer come back once most are maxed.
+export function draftPerks(stacks: PerkStacks, random: () => number, count: number = PERK_DRAFT_SIZE): PerkId[] {
+  const pool = PERKS.filter(p => perkStacks(stacks, p.id) < p.maxStacks).map(p => p.id)
+  const out: PerkId[] = []
+  while (out.length < count && pool.length > 0) out.push(pool.splice(Math.floor(random() * pool.length), 1)[0])
+  return out
+}
@@ -0,0 +1,10 @@
+export type HostileKind = 'orb' | 'bolt' | 'boss'
+
+export interface HostileKindDef { radius: number; fill: number; stroke: number; speed: number; lifeMs: number }
+
+// Visuals and defaults per projectile kind; speed is used when fireHostile() isn't given one
+export const HOSTILE_KINDS: Record<HostileKind, HostileKindDef> = {
+  orb: { radius: 5, fill: 0xe879f9, stroke: 0xffffff, speed: 320, lifeMs: 2500 },
+  bolt: { radius: 3, fill: 0xfde047, stroke: 0xffffff, speed: 480, lifeMs: 1600 },
+  boss: { radius: 6, fill: 0xf87171, stroke: 0xfee2e2, speed: 260, lifeMs: 4000 }
+}
@@ -0,0 +1,94 @@
+import type { UpgradeLevels } from '../state/save'
+
+// Derived player stat bonuses; everything the scene reads from upgrades
+export interface PlayerStats {
+  maxHp: number
+  bulletSpeedPct: number
+  dashSpeedPct: number
+  fireRatePct: number
+  pierce: number
+  healOnClear: number
+}
+
+export type StatKey = keyof PlayerStats
+export type UpgradeBranch = 'defense' | 'offense' | 'mobility'
+
+export interface UpgradeNode {
+  // Key under MetaProgress.upgrades; stores the accumulated stat amount
+  id: string
+  label: string
+  desc: string
+  branch: UpgradeBranch
+  maxLevel: number
+  // Cost of tier n (0-based) = round(base * growth^n)
+  cost: { base: number; growth: number }
+  requires?: Array<{ id: string; level: number }>
+  effect: { stat: StatKey; perLevel: number }
+}
+
+export const UPGRADE_BRANCHES: Array<{ id: UpgradeBranch; label: string }> = [
+  { id: 'defense', label: 'Defense' },
+  { id: 'offense', label: 'Offense' },
+  { id: 'mobility', label: 'Mobility' }
+]
+
+// Designers: add nodes here; the terminal and stat math pick them up automatically
+export const UPGRADE_CATALOG: UpgradeNode[] = [
+  // Branch A: Defense path
+  { id: 'maxHp', label: '+1 Max HP', desc: 'Increase base max HP permanently', branch: 'defense', maxLevel: 5, cost: { base: 2, growth: 1.5 }, effect: { stat: 'maxHp', perLevel: 1 } },
+  { id: 'healOnClear', label: '+1 Heal on Clear', desc: 'Heal when a level ends', branch: 'defense', maxLevel: 3, cost: { base: 3, growth: 1.6 }, requires: [{ id: 'maxHp', level: 2 }], effect: { stat: 'healOnClear', perLevel: 1 } },
+  // Branch B: Offense path
+  { id: 'bulletSpeedPct', label: '+5% Bullet Speed', desc: 'Bullets travel faster', branch: 'offense', maxLevel: 6, cost: { base: 2, growth: 1.4 }, effect: { stat: 'bulletSpeedPct', perLevel: 5 } },
+  { id: 'fireRatePct', label: '+10% Fire Rate', desc: 'Shoot faster', branch: 'offense', maxLevel: 5, cost: { base: 3, growth: 1.5 }, requires: [{ id: 'bulletSpeedPct', level: 2 }], effect: { stat: 'fireRatePct', perLevel: 10 } },
+  { id: 'pierce', label: '+1 Bullet Pierce', desc: 'Bullets pass through one extra enemy', branch: 'offense', maxLevel: 3, cost: { base: 4, growth: 2 }, requires: [{ id: 'fireRatePct', level: 1 }], effect: { stat: 'pierce', perLevel: 1 } },
+  // Branch C: Mobility path
+  { id: 'dashSpeedPct', label: '+5% Dash Speed', desc: 'Dash reaches target quicker', branch: 'mobility', maxLevel: 6, cost: { base: 2, growth: 1.4 }, effect: { stat: 'dashSpeedPct', perLevel: 5 } }
+]
+
+export function emptyStats(): PlayerStats {
+  return { maxHp: 0, bulletSpeedPct: 0, dashSpeedPct: 0, fireRatePct: 0, pierce: 0, healOnClear: 0 }
+}
+
+export function getUpgradeNode(id: string): UpgradeNode | undefined {
+  return UPGRADE_CATALOG.find(n => n.id === id)
+}
+
+export function upgradeLevel(node: UpgradeNode, upgrades: UpgradeLevels): number {
+  const stored = upgrades[node.id] ?? 0
+  return Math.min(node.maxLevel, Math.floor(stored / node.effect.perLevel + 1e-6))
+}
+
+export function upgradeCost(node: UpgradeNode, level: number): number {
+  return Math.round(node.cost.base * Math.pow(node.cost.growth, level))
+}
+
+export function isUnlocked(node: UpgradeNode, upgrades: UpgradeLevels): boolean {
+  return (node.requires ?? []).every(req => {
+    const dep = getUpgradeNode(req.id)
+    return !!dep && upgradeLevel(dep, upgrades) >= req.level
+  })
+}
+
+export function isMaxed(node: UpgradeNode, upgrades: UpgradeLevels): boolean {
+  return upgradeLevel(node, upgrades) >= node.maxLevel
+}
+
+// Depth within the tree (0 = root) for layout
+export function upgradeDepth(node: UpgradeNode, seen: Set<string> = new Set()): number {
+  if (seen.has(node.id)) throw new Error(`Upgrade prerequisite cycle at "${node.id}"`)
+  seen.add(node.id)
+  let depth = 0
+  for (const req of node.requires ?? []) {
+    const dep = getUpgradeNode(req.id)
+    if (dep) depth = Math.max(depth, upgradeDepth(dep, new Set(seen)) + 1)
+  }
+  return depth
+}
+
+export function computeStats(upgrades: UpgradeLevels): PlayerStats {
+  const stats = emptyStats()
+  for (const node of UPGRADE_CATALOG) {
+    stats[node.effect.stat] += upgradeLevel(node, upgrades) * node.effect.perLevel
+  }
+  return stats
+}
@@ -1,7 +1,9 @@
 import Phaser from 'phaser'
+import { BootScene } from './scenes/BootScene'
 import { SaveSelectScene } from './scenes/SaveSelectScene'
 import { CharacterBuilderScene } from './scenes/CharacterBuilderScene'
 import { MainScene } from './scenes/MainScene'
+import { SettingsScene } from './scenes/SettingsScene'
 
 const config: Phaser.Types.Core.GameConfig = {
   type: Phaser.AUTO,
@@ -20,7 +22,8 @@ const config: Phaser.Types.Core.GameConfig = {
     autoCenter: Phaser.Scale.CENTER_BOTH
   },
   fps: { target: 60, forceSetTimeOut: false },
-  scene: [SaveSelectScene, CharacterBuilderScene, MainScene]
+  input: { gamepad: true },
+  scene: [BootScene, SaveSelectScene, CharacterBuilderScene, MainScene, SettingsScene]
 }
 
 export const game = new Phaser.Game(config)
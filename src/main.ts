@@ -1,2 +1,10 @@
 import './style.css'
-import './game'
+import { installStorage, MemorySaveStorage, openStorage, type StorageKind } from './state/storage'
+
+// Saves are read through a cache, so the storage backend is loaded before any scene starts.
+// ?storage=indexeddb or ?storage=memory picks another backend (default: localStorage).
+const requested = new URLSearchParams(location.search).get('storage') as StorageKind | null
+openStorage(requested ?? 'local')
+  .then(installStorage)
+  .catch(() => installStorage(new MemorySaveStorage()))
+  .then(() => import('./game'))
@@ -1,22 +1,57 @@
 import Phaser from 'phaser'
-import { hasSave } from '../state/save'
+import { audio } from '../systems/Audio'
+import { ASSET_MANIFEST } from '../data/assets'
+import { generateTextures, queueManifest } from '../systems/Textures'
 
+// How long the boot screen stays up to list files that failed to load
+const LOAD_ERROR_HOLD_MS = 1500
+
+// Entry scene: loads the asset manifest behind a progress bar, bakes the procedural textures,
+// then hands over to Save Select.
 export class BootScene extends Phaser.Scene {
+  private failed: string[] = []
+  private status!: Phaser.GameObjects.Text
+
   constructor() {
     super('BootScene')
   }
 
+  preload(): void {
+    const { width, height } = this.scale
+    const barW = Math.min(360, width - 80)
+    const x = (width - barW) / 2
+    const y = height / 2
+    this.failed = []
+    this.add.text(width / 2, y - 28, 'Loading…', { fontSize: '16px', fontFamily: 'monospace', color: '#94a3b8' }).setOrigin(0.5, 0.5)
+    this.add.rectangle(x, y, barW, 10, 0x1f2937).setOrigin(0, 0.5)
+    const fill = this.add.rectangle(x, y, 0, 10, 0xa7f3d0).setOrigin(0, 0.5)
+    this.status = this.add.text(width / 2, y + 24, '', { fontSize: '12px', fontFamily: 'monospace', color: '#64748b', align: 'center', wordWrap: { width: barW } }).setOrigin(0.5, 0)
+    this.load.on(Phaser.Loader.Events.PROGRESS, (v: number) => { fill.width = barW * v })
+    this.load.on(Phaser.Loader.Events.FILE_PROGRESS, (f: Phaser.Loader.File) => { if (this.failed.length === 0) this.status.setText(f.key) })
+    // A missing file shouldn't block the game; whatever uses it falls back or stays blank
+    this.load.on(Phaser.Loader.Events.FILE_LOAD_ERROR, (f: Phaser.Loader.File) => {
+      this.failed.push(f.key)
+      fill.setFillStyle(0xfca5a5)
+      this.status.setColor('#fca5a5').setText(`Failed to load: ${this.failed.join(', ')}`)
+    })
+    queueManifest(this.load, ASSET_MANIFEST)
+  }
+
   create(): void {
+    generateTextures(this)
+
     const tryFS = () => { if (!this.scale.isFullscreen) { try { this.scale.startFullscreen() } catch {} } }
     // Go fullscreen on first user gesture anywhere (canvas or window)
-    this.input.once('pointerdown', tryFS)
     window.addEventListener('pointerdown', tryFS, { once: true })
     window.addEventListener('keydown', tryFS, { once: true })
+    audio.unlockOnFirstGesture()
 
-    // Small delay to ensure Phaser input is ready before switching scenes
-    this.time.delayedCall(10, () => {
-      this.scene.launch('SaveSelectScene')
-      this.scene.stop()
-    })
+    // Leave the failures on screen long enough to read before moving on
+    if (this.failed.length > 0) {
+      this.status.setText(`Failed to load: ${this.failed.join(', ')}\nContinuing without them…`)
+      this.time.delayedCall(LOAD_ERROR_HOLD_MS, () => this.scene.start('SaveSelectScene'))
+      return
+    }
+    this.scene.start('SaveSelectScene')
   }
 }
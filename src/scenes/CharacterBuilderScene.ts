@@ -1,53 +1,101 @@
 import Phaser from 'phaser'
-import { type Appearance, saveNew, HairStyle, OutfitStyle } from '../state/save'
+import { type Appearance, type Palette, deleteSavedPalette, getDefaultAppearance, listSavedPalettes, loadSlot, renameSlot, saveNew, savePalette, updateSlot } from '../state/save'
+import { TextField } from '../ui/TextField'
+import { CharacterSprite } from '../ui/CharacterSprite'
+import { FocusNav, type FocusItem } from '../ui/FocusNav'
+import { ActionMap } from '../systems/ActionInput'
+import { defaultBindings } from '../data/controls'
+import { ACCESSORIES, FACES, HAIRS, OUTFITS, PALETTE_PRESETS, colorToHsv, formatHexColor, hsvToColor, hsvToRgb, parseHexColor, randomAppearance } from '../data/appearance'
+import { COSMETICS, coreCost, cosmeticFor, isUnlocked, lockedParts, unlockHint, type Cosmetic } from '../data/cosmetics'
 
-const HAIRS: HairStyle[] = ['none', 'spike', 'bob']
-const OUTFITS: OutfitStyle[] = ['suit', 'robe', 'armor']
+type ReturnScene = 'MainScene' | 'SaveSelectScene'
+type ColorTarget = 'bodyColor' | 'hairColor' | 'outfitColor'
+type StyleSlot = 'hair' | 'face' | 'outfit' | 'accessory'
 
+const COLOR_TARGETS: { id: ColorTarget; label: string }[] = [
+  { id: 'bodyColor', label: 'Body' },
+  { id: 'hairColor', label: 'Hair' },
+  { id: 'outfitColor', label: 'Outfit' }
+]
+
+const WHEEL_SIZE = 240
+const SLIDER_W = 200
+
+// Creates a new character, or with a slotId edits that slot's look and name in place (progress is untouched)
 export class CharacterBuilderScene extends Phaser.Scene {
+  private editSlotId?: string
+  private editName = ''
+  private returnTo: ReturnScene = 'SaveSelectScene'
   private preview!: Phaser.GameObjects.Container
-  private head!: Phaser.GameObjects.Arc
-  private torsoG?: Phaser.GameObjects.Graphics
-  private hairG?: Phaser.GameObjects.Graphics
-  private outfitG?: Phaser.GameObjects.Graphics
-
-  private iHair = 0
-  private iOutfit = 0
-
-  private activeTarget: 'body' | 'hair' = 'body'
-  private bodyColorValue = 0x00d9ff
-  private hairColorValue = 0x2b2b2b
-
-  private labelHair!: Phaser.GameObjects.Text
-  private labelOutfit!: Phaser.GameObjects.Text
-  private targetText!: Phaser.GameObjects.Text
-  private bodySwatch!: Phaser.GameObjects.Rectangle
-  private hairSwatch!: Phaser.GameObjects.Rectangle
-  private wheelCanvas!: HTMLCanvasElement
+  private figure!: CharacterSprite
+
+  private look: Appearance = getDefaultAppearance()
+  private activeTarget: ColorTarget = 'bodyColor'
+
+  private styleLabels: Partial<Record<StyleSlot, Phaser.GameObjects.Text>> = {}
+  private swatches: Partial<Record<ColorTarget, Phaser.GameObjects.Rectangle>> = {}
   private wheelImage!: Phaser.GameObjects.Image
   private wheelKey = 'color-wheel'
+  // Darkens the full-brightness wheel to the current value
+  private wheelShade!: Phaser.GameObjects.Arc
+  private wheelCursor!: Phaser.GameObjects.Arc
+  // Hue (degrees), saturation and brightness of the active color, for the wheel, slider and steering
+  private wheelHue = 0
+  private wheelSat = 1
+  private wheelVal = 1
+  private valueTrack!: Phaser.GameObjects.Rectangle
+  private valueBar!: Phaser.GameObjects.Graphics
+  private valueKnob!: Phaser.GameObjects.Rectangle
+  private hexField!: TextField
+  private paletteRow!: Phaser.GameObjects.Container
+  private savePaletteButton!: Phaser.GameObjects.Text
+  private paletteIndex = -1
+  // Cosmetics this slot owns and the cores it can spend on more; a new character starts with neither
+  private owned: string[] = []
+  private cores = 0
+  // A locked palette chip that was picked; locked hair and outfits come from the look itself
+  private paletteLock?: Cosmetic
+  private lockText!: Phaser.GameObjects.Text
+  private buyButton!: Phaser.GameObjects.Text
 
-  // In-canvas name input
-  private nameValue = 'Mike'
-  private nameText!: Phaser.GameObjects.Text
-  private nameBox!: Phaser.GameObjects.Rectangle
-  private caret!: Phaser.GameObjects.Rectangle
-  private caretBlink?: Phaser.Time.TimerEvent
-  private nameFocused = true
+  private nameField!: TextField
+  private messageText!: Phaser.GameObjects.Text
 
   constructor() { super('CharacterBuilderScene') }
 
+  init(data: { slotId?: string; returnTo?: ReturnScene } = {}): void {
+    this.editSlotId = data.slotId
+    this.returnTo = data.returnTo ?? 'SaveSelectScene'
+    this.look = getDefaultAppearance()
+    this.activeTarget = 'bodyColor'
+    this.paletteIndex = -1
+    this.styleLabels = {}
+    this.swatches = {}
+    this.owned = []
+    this.cores = 0
+    this.paletteLock = undefined
+  }
+
   create(): void {
     const cx = this.scale.width / 2
     const cy = this.scale.height / 2
-    this.add.text(cx, 36, 'Character Builder', { fontSize: '28px', fontFamily: 'monospace', color: '#cbd5e1' }).setOrigin(0.5, 0)
-    this.add.text(cx, 64, 'Pick hair, outfit, and colors', { fontSize: '14px', fontFamily: 'monospace', color: '#94a3b8' }).setOrigin(0.5, 0)
+    if (this.editSlotId) {
+      const save = loadSlot(this.editSlotId)
+      if (!save) { this.leave(); return }
+      this.look = { ...save.appearance }
+      this.editName = save.name
+      this.owned = [...save.unlocks.cosmetics]
+      this.cores = save.meta.cores
+    }
+    const editing = this.editSlotId !== undefined
+    this.add.text(cx, 36, editing ? 'Edit Character' : 'Character Builder', { fontSize: '28px', fontFamily: 'monospace', color: '#cbd5e1' }).setOrigin(0.5, 0)
+    this.add.text(cx, 64, 'Pick a look and its colors', { fontSize: '14px', fontFamily: 'monospace', color: '#94a3b8' }).setOrigin(0.5, 0)
 
     // Preview
     this.preview = this.add.container(cx - 300, cy - 28)
-    this.head = this.add.circle(0, -8, 10, this.bodyColorValue)
-    this.preview.add(this.head)
-    this.rebuildPreview()
+    // The same sprite sheet the player uses in game, scaled up
+    this.figure = new CharacterSprite(this, 0, 0, this.look)
+    this.preview.add(this.figure)
     // Ensure correct initial size and keep it responsive
     this.rescalePreview()
     this.scale.on('resize', () => this.rescalePreview())
@@ -56,78 +104,122 @@ export class CharacterBuilderScene extends Phaser.Scene {
     const sub: Phaser.Types.GameObjects.Text.TextStyle = { fontSize: '14px', fontFamily: 'monospace', color: '#94a3b8' }
 
     // Name input (canvas)
-    const nameY = cy - 8
-    this.add.text(cx - 160, nameY, 'Name', style).setOrigin(1, 0.5)
-    this.nameBox = this.add.rectangle(cx - 140, nameY, 260, 26, 0x0b0f15, 1).setStrokeStyle(1, 0x64748b).setOrigin(0, 0.5).setInteractive({ useHandCursor: true })
-    this.nameText = this.add.text(cx - 134, nameY, this.nameValue, { ...style, color: '#e2e8f0' }).setOrigin(0, 0.5)
-    this.caret = this.add.rectangle(this.nameText.x + this.nameText.width + 2, nameY, 2, 18, 0xa7f3d0).setOrigin(0, 0.5)
-    this.caretBlink = this.time.addEvent({ delay: 480, loop: true, callback: () => this.caret.setVisible(!this.caret.visible) })
-    this.nameBox.on('pointerdown', () => { this.nameFocused = true })
-
-    // Hair row
-    let y = cy + 28
-    this.add.text(cx - 160, y, 'Hair', style).setOrigin(1, 0.5)
-    const hLeft = this.add.text(cx - 140, y, '<', style).setOrigin(0, 0.5).setInteractive({ useHandCursor: true })
-    this.labelHair = this.add.text(cx - 120, y, HAIRS[this.iHair], style).setOrigin(0, 0.5)
-    const hRight = this.add.text(cx + 60, y, '>', style).setOrigin(0, 0.5).setInteractive({ useHandCursor: true })
-    hLeft.on('pointerdown', () => { this.iHair = (this.iHair + HAIRS.length - 1) % HAIRS.length; this.syncUI() })
-    hRight.on('pointerdown', () => { this.iHair = (this.iHair + 1) % HAIRS.length; this.syncUI() })
-
-    // Outfit row
-    y += 36
-    this.add.text(cx - 160, y, 'Outfit', style).setOrigin(1, 0.5)
-    const oLeft = this.add.text(cx - 140, y, '<', style).setOrigin(0, 0.5).setInteractive({ useHandCursor: true })
-    this.labelOutfit = this.add.text(cx - 120, y, OUTFITS[this.iOutfit], style).setOrigin(0, 0.5)
-    const oRight = this.add.text(cx + 60, y, '>', style).setOrigin(0, 0.5).setInteractive({ useHandCursor: true })
-    oLeft.on('pointerdown', () => { this.iOutfit = (this.iOutfit + OUTFITS.length - 1) % OUTFITS.length; this.syncUI() })
-    oRight.on('pointerdown', () => { this.iOutfit = (this.iOutfit + 1) % OUTFITS.length; this.syncUI() })
-
-    // Editing target row
-    y += 36
-    this.add.text(cx - 160, y, 'Editing:', style).setOrigin(1, 0.5)
-    this.targetText = this.add.text(cx - 120, y, 'Body', style).setOrigin(0, 0.5)
-    const bodyBtn = this.add.text(cx - 60, y, '[ Body ]', { ...style, color: '#a7f3d0' }).setOrigin(0, 0.5).setInteractive({ useHandCursor: true })
-    const hairBtn = this.add.text(cx + 40, y, '[ Hair ]', { ...style, color: '#cbd5e1' }).setOrigin(0, 0.5).setInteractive({ useHandCursor: true })
-    bodyBtn.on('pointerdown', () => { this.activeTarget = 'body'; this.targetText.setText('Body'); bodyBtn.setColor('#a7f3d0'); hairBtn.setColor('#cbd5e1') })
-    hairBtn.on('pointerdown', () => { this.activeTarget = 'hair'; this.targetText.setText('Hair'); hairBtn.setColor('#a7f3d0'); bodyBtn.setColor('#cbd5e1') })
-
-    // Swatches row
-    y += 36
-    this.add.text(cx - 160, y, 'Body Color', sub).setOrigin(1, 0.5)
-    this.bodySwatch = this.add.rectangle(cx - 120, y, 30, 18, this.bodyColorValue).setOrigin(0, 0.5).setStrokeStyle(1, 0x94a3b8)
-    this.add.text(cx - 70, y, 'Hair Color', sub).setOrigin(0, 0.5)
-    this.hairSwatch = this.add.rectangle(cx + 20, y, 30, 18, this.hairColorValue).setOrigin(0, 0.5).setStrokeStyle(1, 0x94a3b8)
-
-    // Color wheel
-    this.createWheelTexture(280)
-    this.wheelImage = this.add.image(cx + 260, cy - 6, this.wheelKey).setInteractive({ useHandCursor: true })
+    let y = cy - 110
+    this.add.text(cx - 160, y, 'Name', style).setOrigin(1, 0.5)
+    this.nameField = new TextField(this, cx - 140, y, editing ? this.editName : 'Mike', { width: 260, onSubmit: () => this.confirm() })
+
+    // Style rows: < value > selectors
+    const items: FocusItem[] = []
+    const addSelector = <K extends StyleSlot>(slot: K, label: string, options: Appearance[K][]) => {
+      y += 34
+      this.add.text(cx - 160, y, label, style).setOrigin(1, 0.5)
+      const left = this.add.text(cx - 140, y, '<', style).setOrigin(0, 0.5).setInteractive({ useHandCursor: true })
+      const value = this.add.text(cx - 120, y, String(this.look[slot]), style).setOrigin(0, 0.5)
+      const right = this.add.text(cx + 60, y, '>', style).setOrigin(0, 0.5).setInteractive({ useHandCursor: true })
+      const cycle = (dir: number) => {
+        const i = options.indexOf(this.look[slot])
+        this.look[slot] = options[(i + options.length + dir) % options.length]
+        this.paletteLock = undefined
+        this.syncUI()
+      }
+      left.on('pointerdown', () => cycle(-1))
+      right.on('pointerdown', () => cycle(1))
+      this.styleLabels[slot] = value
+      items.push({ target: value, adjust: cycle, activate: () => cycle(1) })
+    }
+    addSelector('hair', 'Hair', HAIRS)
+    addSelector('face', 'Face', FACES)
+    addSelector('outfit', 'Outfit', OUTFITS)
+    addSelector('accessory', 'Accessory', ACCESSORIES)
+
+    // Color targets: clicking a swatch points the picker at that color
+    y += 34
+    this.add.text(cx - 160, y, 'Colors', style).setOrigin(1, 0.5)
+    let x = cx - 140
+    for (const t of COLOR_TARGETS) {
+      const label = this.add.text(x, y, t.label, sub).setOrigin(0, 0.5)
+      const swatch = this.add.rectangle(label.x + label.width + 6, y, 30, 18, this.look[t.id]).setOrigin(0, 0.5).setInteractive({ useHandCursor: true })
+      swatch.on('pointerdown', () => this.setTarget(t.id))
+      this.swatches[t.id] = swatch
+      items.push({ target: swatch, activate: () => this.setTarget(t.id) })
+      x = swatch.x + 30 + 14
+    }
+
+    // Palettes: built-in schemes, unlocked ones, then the player's saved ones (right-click removes a saved one).
+    // Locked palettes trail the row dimmed; they are presets only, the picker can still mix any color.
+    y += 34
+    this.add.text(cx - 160, y, 'Palettes', style).setOrigin(1, 0.5)
+    this.paletteRow = this.add.container(cx - 140, y)
+    const paletteItem: FocusItem = { target: this.paletteRow, adjust: dir => this.stepPalette(dir), activate: () => this.stepPalette(1) }
+    this.savePaletteButton = this.add.text(cx - 140, y, '[ + ]', { ...sub, color: '#a7f3d0' }).setOrigin(0, 0.5).setInteractive({ useHandCursor: true })
+    const storePalette = () => {
+      savePalette({ bodyColor: this.look.bodyColor, hairColor: this.look.hairColor, outfitColor: this.look.outfitColor })
+      this.buildPalettes()
+    }
+    this.savePaletteButton.on('pointerdown', storePalette)
+    this.buildPalettes()
+    items.push(paletteItem, { target: this.savePaletteButton, activate: storePalette })
+
+    // What the selected locked entry needs, with a purchase button for core-priced ones when editing a slot
+    y += 30
+    this.lockText = this.add.text(cx - 140, y, '', { ...sub, color: '#fde047' }).setOrigin(0, 0.5)
+    this.buyButton = this.add.text(cx - 140, y, '', { ...sub, color: '#a7f3d0' }).setOrigin(0, 0.5).setInteractive({ useHandCursor: true }).setVisible(false)
+    this.buyButton.on('pointerdown', () => this.buyShownLock())
+    items.push({ target: this.buyButton, activate: () => this.buyShownLock() })
+
+    // Color wheel with brightness slider and hex entry below it
+    const wx = cx + 280, wy = cy - 16
+    this.createWheelTexture(WHEEL_SIZE)
+    this.wheelImage = this.add.image(wx, wy, this.wheelKey).setInteractive({ useHandCursor: true })
     this.wheelImage.on('pointerdown', (p: Phaser.Input.Pointer) => this.pickFromWheel(p))
     this.wheelImage.on('pointermove', (p: Phaser.Input.Pointer) => { if (p.isDown) this.pickFromWheel(p) })
+    this.wheelShade = this.add.circle(wx, wy, WHEEL_SIZE / 2, 0x000000, 0)
+    this.wheelCursor = this.add.circle(0, 0, 6).setStrokeStyle(2, 0xffffff)
 
-    // Confirm button
-    const confirm = this.add.text(cx, this.scale.height - 48, '[ Confirm ]', { ...style, color: '#a7f3d0' }).setOrigin(0.5, 0.5).setInteractive({ useHandCursor: true })
-    confirm.on('pointerdown', () => this.saveAndStart())
+    const sy = wy + WHEEL_SIZE / 2 + 22
+    this.valueTrack = this.add.rectangle(wx, sy, SLIDER_W, 14, 0x000000, 0).setStrokeStyle(1, 0x64748b).setInteractive({ useHandCursor: true })
+    this.valueBar = this.add.graphics()
+    this.valueKnob = this.add.rectangle(wx, sy, 4, 20, 0xffffff).setStrokeStyle(1, 0x0b0f15)
+    this.valueTrack.on('pointerdown', (p: Phaser.Input.Pointer) => this.pickValue(p))
+    this.valueTrack.on('pointermove', (p: Phaser.Input.Pointer) => { if (p.isDown) this.pickValue(p) })
 
-    // Keyboard
-    this.input.keyboard?.on('keydown', (evt: KeyboardEvent) => this.handleTyping(evt))
-    this.input.keyboard?.on('keydown-F', () => { if (this.scale.isFullscreen) this.scale.stopFullscreen(); else this.scale.startFullscreen() })
-    this.input.keyboard?.on('keydown-ESC', () => { this.scene.start('SaveSelectScene') })
-  }
+    const hy = sy + 32
+    this.add.text(wx - 70, hy, 'Hex', sub).setOrigin(1, 0.5)
+    this.hexField = new TextField(this, wx - 60, hy, formatHexColor(this.look[this.activeTarget]), {
+      width: 120, maxLength: 7, allowed: /[#0-9a-fA-F]/, onSubmit: value => this.applyHex(value)
+    }).setFocused(false)
 
-  private handleTyping(e: KeyboardEvent): void {
-    if (!this.nameFocused) return
-    if (e.ctrlKey || e.metaKey || e.altKey) return
-    const k = e.key
-    if (k === 'Enter') { this.saveAndStart(); return }
-    if (k === 'Backspace') { this.nameValue = this.nameValue.slice(0, -1); this.updateName(); return }
-    if (k.length === 1 && /[a-zA-Z0-9 _-]/.test(k)) {
-      if (this.nameValue.length < 16) { this.nameValue += k; this.updateName() }
-    }
-  }
+    // Randomize and confirm
+    this.messageText = this.add.text(cx, this.scale.height - 80, '', { fontSize: '14px', fontFamily: 'monospace', color: '#fca5a5' }).setOrigin(0.5, 0.5)
+    const random = this.add.text(cx - 110, this.scale.height - 48, '[ Randomize ]', style).setOrigin(0.5, 0.5).setInteractive({ useHandCursor: true })
+    random.on('pointerdown', () => this.randomize())
+    const confirm = this.add.text(cx + 110, this.scale.height - 48, editing ? '[ Save ]' : '[ Confirm ]', { ...style, color: '#a7f3d0' }).setOrigin(0.5, 0.5).setInteractive({ useHandCursor: true })
+    confirm.on('pointerdown', () => this.confirm())
 
-  private updateName(): void {
-    this.nameText.setText(this.nameValue)
-    this.caret.setPosition(this.nameText.x + this.nameText.width + 2, this.nameText.y)
+    this.syncWheelCursor()
+    this.syncUI()
+
+    // Keyboard / gamepad: selectors change with left/right, the wheel is steered after Enter/A grabs it
+    const nav = new FocusNav(this)
+    const nameItem = { target: this.nameField, text: true, onFocus: () => this.nameField.setFocused(true), onBlur: () => this.nameField.setFocused(false) }
+    // Leaving the hex field applies what was typed, like pressing Enter
+    const hexItem = { target: this.hexField, text: true, onFocus: () => this.hexField.setFocused(true), onBlur: () => { this.hexField.setFocused(false); this.applyHex(this.hexField.value) } }
+    nav.push([
+      nameItem,
+      ...items,
+      { target: this.wheelImage, steer: (dx, dy) => this.steerWheel(dx, dy) },
+      { target: this.valueTrack, adjust: dir => this.setValue(this.wheelVal + dir * 0.05) },
+      hexItem,
+      { target: random, activate: () => this.randomize() },
+      { target: confirm, activate: () => this.confirm() }
+    ], () => this.leave())
+    this.nameField.on('focus', () => nav.focus(nameItem))
+    this.hexField.on('focus', () => nav.focus(hexItem))
+    // A new profile starts on the default bindings; typing in a text field doesn't trigger them
+    new ActionMap(this, defaultBindings()).on('toggleFullscreen', () => {
+      if (this.nameField.focused || this.hexField.focused) return
+      if (this.scale.isFullscreen) this.scale.stopFullscreen(); else this.scale.startFullscreen()
+    })
   }
 
   private rescalePreview(): void {
@@ -136,56 +228,92 @@ export class CharacterBuilderScene extends Phaser.Scene {
     this.preview.setScale(scale)
   }
 
-  private rebuildPreview(): void {
-    const bodyColor = this.bodyColorValue
-    this.head.setFillStyle(bodyColor)
-    this.hairG?.destroy(); this.outfitG?.destroy(); this.torsoG?.destroy()
-    const torso = this.add.graphics()
-    torso.fillStyle(bodyColor, 1)
-    torso.fillRoundedRect(-14, -2, 28, 22, 6)
-    torso.fillRoundedRect(-16, -4, 6, 16, 3)
-    torso.fillRoundedRect(10, -4, 6, 16, 3)
-    this.preview.add(torso)
-    this.torsoG = torso
-
-    const hair = HAIRS[this.iHair]
-    if (hair !== 'none') {
-      const g = this.add.graphics(); g.fillStyle(this.hairColorValue, 1)
-      if (hair === 'spike') { g.fillTriangle(-12, -12, -4, -18, 4, -12); g.fillTriangle(0, -12, 8, -18, 14, -12) }
-      else if (hair === 'bob') { g.fillRoundedRect(-16, -18, 32, 8, { tl: 6, tr: 6, bl: 0, br: 0 }) }
-      this.preview.add(g); this.hairG = g
+  private syncUI(): void {
+    for (const [slot, label] of Object.entries(this.styleLabels) as Array<[StyleSlot, Phaser.GameObjects.Text]>) {
+      const locked = (slot === 'hair' || slot === 'outfit') && !isUnlocked(slot === 'hair' ? cosmeticFor('hair', this.look.hair) : cosmeticFor('outfit', this.look.outfit), this.owned)
+      label.setText(String(this.look[slot]) + (locked ? ' (locked)' : '')).setColor(locked ? '#64748b' : '#cbd5e1')
     }
+    this.syncLock()
+    for (const t of COLOR_TARGETS) {
+      const active = t.id === this.activeTarget
+      this.swatches[t.id]?.setFillStyle(this.look[t.id]).setStrokeStyle(active ? 2 : 1, active ? 0xffffff : 0x94a3b8)
+    }
+    if (!this.hexField.focused) this.hexField.setValue(formatHexColor(this.look[this.activeTarget]))
+    this.drawValueSlider()
+    this.figure.setAppearance({ ...this.look })
+    this.rescalePreview()
+  }
 
-    const og = this.add.graphics(); og.fillStyle(0x9097a5, 1)
-    const outfit = OUTFITS[this.iOutfit]
-    if (outfit === 'suit') og.fillRect(-12, 8, 24, 8)
-    else if (outfit === 'robe') og.fillRoundedRect(-14, 2, 28, 18, 6)
-    else if (outfit === 'armor') og.fillTriangle(-12, 8, 12, 8, 0, 20)
-    this.preview.add(og); this.outfitG = og
+  private setTarget(target: ColorTarget): void {
+    this.activeTarget = target
+    this.syncWheelCursor()
+    this.syncUI()
   }
 
-  private syncUI(): void {
-    this.labelHair.setText(HAIRS[this.iHair])
-    this.labelOutfit.setText(OUTFITS[this.iOutfit])
-    this.bodySwatch.setFillStyle(this.bodyColorValue)
-    this.hairSwatch.setFillStyle(this.hairColorValue)
-    this.rebuildPreview()
-    this.rescalePreview()
+  private setColor(color: number): void {
+    this.look[this.activeTarget] = color
+    if (this.paletteIndex >= 0) { this.paletteIndex = -1; this.buildPalettes() }
+    this.syncUI()
+  }
+
+  // Moves the wheel cursor and slider to the active target's current color
+  private syncWheelCursor(): void {
+    const { h, s, v } = colorToHsv(this.look[this.activeTarget])
+    this.wheelHue = h
+    this.wheelSat = s
+    this.wheelVal = v
+    this.placeWheelCursor()
+  }
+
+  private placeWheelCursor(): void {
+    const r = (this.wheelImage.displayWidth / 2 - 1) * this.wheelSat
+    const a = this.wheelHue * Math.PI / 180
+    this.wheelCursor.setPosition(this.wheelImage.x + Math.cos(a) * r, this.wheelImage.y + Math.sin(a) * r)
+    this.wheelShade.setFillStyle(0x000000, 1 - this.wheelVal)
+  }
+
+  // Left/right turns the hue, up/down moves toward the rim (more saturated) or the center
+  private steerWheel(dx: number, dy: number): void {
+    this.wheelHue = (this.wheelHue + dx * 4 + 360) % 360
+    this.wheelSat = Phaser.Math.Clamp(this.wheelSat - dy * 0.04, 0, 1)
+    this.placeWheelCursor()
+    this.setColor(hsvToColor(this.wheelHue, this.wheelSat, this.wheelVal))
+  }
+
+  private setValue(v: number): void {
+    this.wheelVal = Phaser.Math.Clamp(v, 0, 1)
+    this.placeWheelCursor()
+    this.setColor(hsvToColor(this.wheelHue, this.wheelSat, this.wheelVal))
   }
 
-  private hsvToRgb(h: number, s: number, v: number): { r: number; g: number; b: number } {
-    const c = v * s; const hp = h / 60; const x = c * (1 - Math.abs((hp % 2) - 1))
-    let r1 = 0, g1 = 0, b1 = 0
-    if (hp >= 0 && hp < 1) { r1 = c; g1 = x; b1 = 0 }
-    else if (hp < 2) { r1 = x; g1 = c; b1 = 0 }
-    else if (hp < 3) { r1 = 0; g1 = c; b1 = x }
-    else if (hp < 4) { r1 = 0; g1 = x; b1 = c }
-    else if (hp < 5) { r1 = x; g1 = 0; b1 = c }
-    else { r1 = c; g1 = 0; b1 = x }
-    const m = v - c
-    return { r: Math.round((r1 + m) * 255), g: Math.round((g1 + m) * 255), b: Math.round((b1 + m) * 255) }
+  private pickValue(p: Phaser.Input.Pointer): void {
+    const left = this.valueTrack.x - SLIDER_W / 2
+    this.setValue((p.worldX - left) / SLIDER_W)
   }
 
+  // Black to the full-brightness color in steps, with the knob at the current value
+  private drawValueSlider(): void {
+    const g = this.valueBar
+    const left = this.valueTrack.x - SLIDER_W / 2
+    const steps = 32
+    g.clear()
+    for (let i = 0; i < steps; i++) {
+      g.fillStyle(hsvToColor(this.wheelHue, this.wheelSat, i / (steps - 1)), 1)
+      g.fillRect(left + i * SLIDER_W / steps, this.valueTrack.y - 6, SLIDER_W / steps + 1, 12)
+    }
+    this.valueKnob.setPosition(left + this.wheelVal * SLIDER_W, this.valueTrack.y)
+  }
+
+  private applyHex(text: string): void {
+    const color = parseHexColor(text)
+    if (color === null || color === this.look[this.activeTarget]) { this.hexField.setValue(formatHexColor(this.look[this.activeTarget])); return }
+    this.setColor(color)
+    this.syncWheelCursor()
+    this.drawValueSlider()
+  }
+
+  // Hue around the rim and saturation out from the center, always at full brightness; the shade
+  // circle on top shows the slider's value
   private createWheelTexture(size: number): void {
     const canvas = document.createElement('canvas')
     canvas.width = size; canvas.height = size
@@ -198,36 +326,181 @@ export class CharacterBuilderScene extends Phaser.Scene {
         const idx = (y * size + x) * 4
         if (r > rMax) { data[idx + 3] = 0; continue }
         let h = Math.atan2(dy, dx) * 180 / Math.PI; if (h < 0) h += 360
-        const s = Math.min(1, r / rMax), v = 1
-        const { r: rr, g: gg, b: bb } = this.hsvToRgb(h, s, v)
+        const { r: rr, g: gg, b: bb } = hsvToRgb(h, Math.min(1, r / rMax), 1)
         data[idx] = rr; data[idx + 1] = gg; data[idx + 2] = bb; data[idx + 3] = 255
       }
     }
     ctx.putImageData(imageData, 0, 0)
     if (this.textures.exists(this.wheelKey)) this.textures.remove(this.wheelKey)
     this.textures.addCanvas(this.wheelKey, canvas)
-    this.wheelCanvas = canvas
   }
 
   private pickFromWheel(p: Phaser.Input.Pointer): void {
     const img = this.wheelImage
-    const rect = new Phaser.Geom.Rectangle(img.x - img.displayWidth / 2, img.y - img.displayHeight / 2, img.displayWidth, img.displayHeight)
-    if (!Phaser.Geom.Rectangle.Contains(rect, p.worldX, p.worldY)) return
-    const u = (p.worldX - rect.x) / rect.width
-    const v = (p.worldY - rect.y) / rect.height
-    const x = Math.floor(u * this.wheelCanvas.width)
-    const y = Math.floor(v * this.wheelCanvas.height)
-    const px = this.wheelCanvas.getContext('2d')!.getImageData(x, y, 1, 1).data
-    if (px[3] === 0) return
-    const color = (px[0] << 16) | (px[1] << 8) | px[2]
-    if (this.activeTarget === 'body') this.bodyColorValue = color; else this.hairColorValue = color
+    const dx = p.worldX - img.x, dy = p.worldY - img.y
+    const radius = img.displayWidth / 2 - 1
+    if (Math.hypot(dx, dy) > radius) return
+    this.wheelHue = (Math.atan2(dy, dx) * 180 / Math.PI + 360) % 360
+    this.wheelSat = Math.min(1, Math.hypot(dx, dy) / radius)
+    this.placeWheelCursor()
+    this.setColor(hsvToColor(this.wheelHue, this.wheelSat, this.wheelVal))
+  }
+
+  private unlockedPalettes(): Palette[] {
+    return COSMETICS.flatMap(c => c.kind === 'palette' && isUnlocked(c, this.owned) ? [c.value] : [])
+  }
+
+  // Palettes that can be applied, in row order
+  private palettes(): Palette[] {
+    return [...PALETTE_PRESETS, ...this.unlockedPalettes(), ...listSavedPalettes()]
+  }
+
+  private lockedPalettes(): Cosmetic[] {
+    return COSMETICS.filter(c => c.kind === 'palette' && !isUnlocked(c, this.owned))
+  }
+
+  // One chip per palette: three color strips, outlined when it is the one applied or the locked one picked.
+  // The save button follows the last chip.
+  private buildPalettes(): void {
+    this.paletteRow.removeAll(true)
+    const fixed = PALETTE_PRESETS.length + this.unlockedPalettes().length
+    const chip = (x: number, p: Palette, selected: boolean) => {
+      const box = this.add.rectangle(x, 0, 26, 20, 0x0b0f15).setOrigin(0, 0.5)
+        .setStrokeStyle(selected ? 2 : 1, selected ? 0xffffff : 0x475569)
+        .setInteractive({ useHandCursor: true })
+      const strips = [p.bodyColor, p.hairColor, p.outfitColor].map((c, k) => this.add.rectangle(x + 1 + k * 8, 0, 8, 18, c).setOrigin(0, 0.5))
+      this.paletteRow.add([box, ...strips])
+      return { box, strips }
+    }
+    const list = this.palettes()
+    list.forEach((p, i) => {
+      const { box } = chip(i * 30, p, i === this.paletteIndex)
+      box.on('pointerdown', (ptr: Phaser.Input.Pointer) => {
+        if (ptr.rightButtonDown()) {
+          if (i < fixed) return
+          deleteSavedPalette(i - fixed)
+          if (this.paletteIndex >= i) this.paletteIndex = -1
+          this.buildPalettes()
+          return
+        }
+        this.applyPalette(i)
+      })
+    })
+    let x = list.length * 30
+    for (const c of this.lockedPalettes()) {
+      if (c.kind !== 'palette') continue
+      const { box, strips } = chip(x, c.value, c === this.paletteLock)
+      for (const s of strips) s.setAlpha(0.3)
+      box.on('pointerdown', () => this.pickLockedPalette(c))
+      x += 30
+    }
+    this.savePaletteButton.setX(this.paletteRow.x + x + 4)
+  }
+
+  // Locked palettes can't be applied; picking one shows how to unlock it
+  private pickLockedPalette(c: Cosmetic): void {
+    this.paletteLock = c
+    this.buildPalettes()
+    this.syncLock()
+  }
+
+  // The picked locked palette first, else the first locked part of the look
+  private shownLock(): Cosmetic | undefined {
+    if (this.paletteLock && !isUnlocked(this.paletteLock, this.owned)) return this.paletteLock
+    return lockedParts(this.look, this.owned)[0]
+  }
+
+  // Shows what the shown lock needs
+  private syncLock(): void {
+    const lock = this.shownLock()
+    if (!lock) { this.lockText.setText(''); this.buyButton.setVisible(false); return }
+    const what = lock.kind === 'palette' ? 'preset' : 'locked'
+    this.lockText.setText(`${lock.label} (${what}) — ${unlockHint(lock)}`)
+    const cost = coreCost(lock)
+    const canBuy = this.editSlotId !== undefined && cost !== undefined
+    this.buyButton.setVisible(canBuy)
+    if (canBuy) {
+      this.buyButton.setPosition(this.lockText.x + this.lockText.width + 12, this.lockText.y)
+        .setText(`[ Buy — you have ${this.cores} ]`)
+        .setColor(this.cores >= cost ? '#a7f3d0' : '#64748b')
+    }
+  }
+
+  private buyShownLock(): void {
+    const lock = this.shownLock()
+    const cost = lock && coreCost(lock)
+    if (!lock || cost === undefined || !this.editSlotId) return
+    if (this.cores < cost) { this.messageText.setColor('#fca5a5').setText(`${lock.label} needs ${cost} cores`); return }
+    const data = updateSlot(this.editSlotId, d => {
+      if (d.meta.cores < cost || d.unlocks.cosmetics.includes(lock.id)) return false
+      d.meta.cores -= cost
+      d.unlocks.cosmetics.push(lock.id)
+    })
+    if (!data) { this.messageText.setColor('#fca5a5').setText(`Could not unlock ${lock.label}`); return }
+    this.owned = [...data.unlocks.cosmetics]
+    this.cores = data.meta.cores
+    this.paletteLock = undefined
+    this.messageText.setColor('#a7f3d0').setText(`Unlocked ${lock.label}`)
+    this.buildPalettes()
+    this.syncUI()
+  }
+
+  // Steps through the applicable palettes, then the locked ones
+  private stepPalette(dir: -1 | 1): void {
+    const n = this.palettes().length
+    const locked = this.lockedPalettes()
+    const total = n + locked.length
+    const lockAt = this.paletteLock ? locked.indexOf(this.paletteLock) : -1
+    const at = lockAt >= 0 ? n + lockAt : this.paletteIndex
+    const next = at < 0 ? (dir > 0 ? 0 : total - 1) : (at + total + dir) % total
+    if (next < n) this.applyPalette(next)
+    else {
+      this.paletteIndex = -1
+      this.pickLockedPalette(locked[next - n])
+    }
+  }
+
+  private applyPalette(i: number): void {
+    const p = this.palettes()[i]
+    if (!p) return
+    this.look = { ...this.look, bodyColor: p.bodyColor, hairColor: p.hairColor, outfitColor: p.outfitColor }
+    this.paletteIndex = i
+    this.paletteLock = undefined
+    this.buildPalettes()
+    this.syncWheelCursor()
+    this.syncUI()
+  }
+
+  private randomize(): void {
+    this.look = randomAppearance(Math.random, this.owned)
+    this.paletteIndex = -1
+    this.paletteLock = undefined
+    this.buildPalettes()
+    this.syncWheelCursor()
     this.syncUI()
   }
 
-  private saveAndStart(): void {
-    const appearance: Appearance = { hair: HAIRS[this.iHair], bodyColor: this.bodyColorValue, hairColor: this.hairColorValue, outfit: OUTFITS[this.iOutfit] }
-    const name = this.nameValue.trim() || 'Mike'
-    saveNew(appearance, name)
-    this.scene.start('MainScene', { safeMode: true })
+  private confirm(): void {
+    const locked = lockedParts(this.look, this.owned)[0]
+    if (locked) { this.messageText.setColor('#fca5a5').setText(`${locked.label} is locked (${unlockHint(locked)})`); return }
+    if (!this.editSlotId) {
+      saveNew({ ...this.look }, this.nameField.value.trim() || 'Mike')
+      this.scene.start('MainScene', { safeMode: true })
+      return
+    }
+    // Only the look and name change; meta, stats, settings and unlocks are written back as loaded
+    const id = this.editSlotId
+    if (!updateSlot(id, d => { d.appearance = { ...this.look } })) {
+      this.messageText.setColor('#fca5a5').setText('Could not save changes to this character')
+      return
+    }
+    const name = this.nameField.value.trim()
+    if (name && name !== this.editName) renameSlot(id, name)
+    this.leave()
+  }
+
+  private leave(): void {
+    if (this.returnTo === 'MainScene') this.scene.start('MainScene', { safeMode: true })
+    else this.scene.start('SaveSelectScene')
   }
 }
@@ -1,55 +1,108 @@
 import Phaser from 'phaser'
-import { loadSave, getDefaultAppearance, type Appearance, getCurrentSlotId, loadSlot, saveSlot, type SaveData } from '../state/save'
+import { loadSave, emptyUpgrades, getDefaultAppearance, type Appearance, getCurrentSlotId, loadSlot, updateSlot, type MovementMode, type SaveData, type UpgradeLevels } from '../state/save'
+import type { EnemyArchetype, EnemyTypeId } from '../data/enemies'
+import type { BossSpec } from '../data/bosses'
+import { HostileViews } from '../systems/HostileViews'
+import { GamepadControls, PAD_DASH_DISTANCE } from '../systems/GamepadControls'
+import { CombatWorld, type SimBoss, type SimBullet, type SimEnemy } from '../sim/world'
+import { BULLET_RADIUS, BULLET_SPAWN_OFFSET, DASH_SPEED, MULTISHOT_SPREAD, PLAYER_MAX_HP, PLAYER_RADIUS, combatStats, type CombatStats } from '../sim/player'
+import * as nav from '../sim/navgrid'
+import { BURST_COOLDOWN_MS, BURST_DISTANCE, stepWalk, walkSpeed, type Velocity } from '../sim/movement'
+import { Rng, deriveSeed, formatSeed, parseSeed, randomSeed } from '../sim/rng'
+import { ReplayPlayer, ReplayRecorder, quantize, type InputEvent, type Replay } from '../sim/replay'
+import { saveLastReplay } from '../state/replays'
+import { onStorageFailure } from '../state/storage'
+import { FocusNav, type FocusItem } from '../ui/FocusNav'
+import { ActionMap } from '../systems/ActionInput'
+import { audio } from '../systems/Audio'
+import { CharacterSprite } from '../ui/CharacterSprite'
+import { describeControls, inputLabel, resolveBindings, type ActionId } from '../data/controls'
+import { BULLET_TEXTURE, DUMMY_TEXTURE, enemyTexture } from '../data/assets'
+import { milestoneUnlocks, type MilestoneId } from '../data/cosmetics'
+import { draftPerks, getPerk, perkStacks, type PerkId, type PerkStacks } from '../data/perks'
+import { UPGRADE_BRANCHES, UPGRADE_CATALOG, computeStats, emptyStats, getUpgradeNode, isMaxed, isUnlocked, upgradeCost, upgradeDepth, upgradeLevel, type PlayerStats, type UpgradeNode } from '../data/upgrades'
 
-// Lightweight typed aliases for common entities
-interface Bullet { g: Phaser.GameObjects.Arc; vx: number; vy: number; life: number; pierce: number }
-interface Enemy { g: Phaser.GameObjects.Arc; speed: number }
-
-const DASH_SPEED = 1400 // px/s — snappy/powerful feel
 const COOLDOWN_MS = 0 // ms — no cooldown for maximum control
-const PLAYER_RADIUS = 16
-
-// Combat prototype constants (Level 1)
-const BULLET_SPEED = 1100
-const BULLET_RADIUS = 4
-const BULLET_LIFETIME_MS = 900
-const FIRE_COOLDOWN_MS = 90 // ms, cap very-fast spam to avoid stacked start frames
-const BULLET_SPAWN_OFFSET = PLAYER_RADIUS + BULLET_RADIUS + 2
-const ENEMY_RADIUS = 14
-const ENEMY_SPEED = 110
-const ENEMY_SPAWN_INTERVAL_MS = 1400
-const PLAYER_MAX_HP = 5
-const ENEMY_DAMAGE = 1
-const LEVEL1_SPAWN_BUDGET = 12
+const DASH_GRAZE_IFRAMES_MS = 250 // dashing through an enemy shot grants this much invulnerability
+const HIT_IFRAMES_MS = 550
+
+// Fixed-step simulation: combat advances in 60 Hz ticks regardless of display rate
+const SIM_STEP_MS = 1000 / 60
+const SIM_MAX_CATCHUP_MS = 250 // drop time beyond this after a stall instead of spiralling
+
+// The ~32×40 character sheet drawn down to the player's 32 px collision footprint
+const PLAYER_SPRITE_SCALE = 0.8
+
+// Perk drafts draw from their own stream per level, apart from the spawns
+const PERK_DRAFT_SALT = 0x7e4b
+
+// Run rewards (meta currency); per-kill cores come from the enemy archetype
+const CLEAR_BONUS_BASE = 2
+const CLEAR_BONUS_PER_LEVEL = 1
 
 export class MainScene extends Phaser.Scene {
   private player!: Phaser.GameObjects.Container
-  private playerBody!: Phaser.GameObjects.Arc
-  private head?: Phaser.GameObjects.Arc
-  private bodyG?: Phaser.GameObjects.Graphics
-  private hairG?: Phaser.GameObjects.Graphics
-  private outfitG?: Phaser.GameObjects.Graphics
+  private playerSprite!: CharacterSprite
   private canDash = true
   private dashing = false
   private dashTween?: Phaser.Tweens.Tween
 
-  private bullets: Bullet[] = []
-  private enemies: Enemy[] = []
-  private bulletArcPool: Phaser.GameObjects.Arc[] = []
-  private enemyArcPool: Phaser.GameObjects.Arc[] = []
-  private invulnerable = false
-  private playerColor = 0x00d9ff
+  // Combat state lives in the world; the scene keeps pooled views keyed by entity
+  private readonly world = new CombatWorld({
+    playerHit: damage => this.onPlayerHit(damage),
+    dashGraze: () => this.onDashGraze(),
+    enemyKilled: e => { this.awardKill(e.def); this.lifesteal(); this.updateHud(); audio.play('enemyDeath') },
+    bossStarted: boss => this.showBossBar(boss),
+    bossPhase: (spec, phaseIndex) => this.onBossPhase(spec, phaseIndex),
+    bossDefeated: e => this.defeatBoss(e),
+    blast: (x, y, radius) => this.showBlast(x, y, radius)
+  })
+  // Views are images of the textures BootScene bakes (data/assets.ts)
+  private bulletViews = new Map<SimBullet, Phaser.GameObjects.Image>()
+  private enemyViews = new Map<SimEnemy, Phaser.GameObjects.Image>()
+  private bulletPool: Phaser.GameObjects.Image[] = []
+  private enemyPools: Partial<Record<EnemyTypeId, Phaser.GameObjects.Image[]>> = {}
+  private hostileViews!: HostileViews
+  // Player i-frames (hits and dash grazes) end at this sim time
+  private iframesUntil = 0
+  // Any hit this level rules out the flawless-clear milestone
+  private levelDamaged = false
+
+  // Deterministic simulation state
+  private simAccumulator = 0
+  private simTime = 0
+  private simTick = 0
+  private runSeed = 0
+  private combatDash?: { sx: number; sy: number; tx: number; ty: number; elapsed: number; duration: number }
+  private dashCooldownUntil = 0
+  // WASD movement mode: walking and bursts are advanced by the fixed-step simulation too
+  private movementMode: MovementMode = 'dash'
+  private walkDir = { x: 0, y: 0 }
+  private walkVel: Velocity = { x: 0, y: 0 }
+  private burst?: { dx: number; dy: number; left: number }
+  // Last direction sent through the input queue (only changes are queued) and the pad's share of it
+  private heldMove = { x: 0, y: 0 }
+  private padMove = { x: 0, y: 0 }
   private lastAimX = 1
   private lastAimY = 0
   private lastShotAt = -Infinity
+  // Player inputs wait for the next sim tick so a recording replays exactly
+  private pendingInputs: InputEvent[] = []
+  private recorder?: ReplayRecorder
+  private playback?: ReplayPlayer
+  private replayText?: Phaser.GameObjects.Text
   private appearance!: Appearance
   private safeMode = false
   private slotId: string | null = null
   private saveData?: SaveData
-  private upgradesCache: { maxHp: number; bulletSpeedPct: number; dashSpeedPct: number; fireRatePct: number; pierce: number; healOnClear: number } = { maxHp: 0, bulletSpeedPct: 0, dashSpeedPct: 0, fireRatePct: 0, pierce: 0, healOnClear: 0 }
-  private dashSpeedCache = DASH_SPEED
-  private bulletSpeedCache = BULLET_SPEED
-  private fireCooldownMsCache = FIRE_COOLDOWN_MS
+  private upgradesCache: PlayerStats = emptyStats()
+  private statsCache: CombatStats = combatStats(emptyStats())
+  // Run perks stack on top of the upgrades until the player is back in the Safe Room
+  private perks: PerkStacks = {}
+  private perkOffer?: PerkId[]
+  private perkDraft?: { cont: Phaser.GameObjects.Container; focus?: FocusNav }
+  private dashHits = new Set<SimEnemy>()
+  private killsSinceHeal = 0
 
   // Safe room objects
   private portal?: Phaser.GameObjects.Container
@@ -57,9 +110,15 @@ export class MainScene extends Phaser.Scene {
   private terminal?: Phaser.GameObjects.Container
   private terminalRadius = 36
   // Feature flag: disable the upgrade terminal/panel when false
-  private upgradeTerminalEnabled = false
+  private upgradeTerminalEnabled = true
   private panel?: Phaser.GameObjects.Container
   private panelOpen = false
+  // Terminal re-arms only after the player steps away, so closing doesn't instantly reopen it
+  private terminalArmed = true
+  // Walking up to the wardrobe opens the character builder on this slot
+  private wardrobe?: Phaser.GameObjects.Container
+  private wardrobeRadius = 36
+  private wardrobeArmed = false
   private dummies: Array<{ g: Phaser.GameObjects.Container; hp: number; maxHp: number; x: number; y: number }> = []
   private bed?: Phaser.GameObjects.Container
   private roomMargin = 64
@@ -70,6 +129,7 @@ export class MainScene extends Phaser.Scene {
   private doorHeight = 160
   private bedSize = { w: 90, h: 40 }
   private terminalSize = { w: 56, h: 42 }
+  private wardrobeSize = { w: 48, h: 60 }
   private dummyColliderRadius = 18
   private portalSlack = 6
 
@@ -81,10 +141,15 @@ export class MainScene extends Phaser.Scene {
   private showPath = false
   private uiStyle: Phaser.Types.GameObjects.Text.TextStyle = { fontSize: '16px', fontFamily: 'monospace', color: '#cbd5e1' }
   private lastClick: { x: number; y: number; button: number } = { x: 0, y: 0, button: -1 }
-  private keyShift?: Phaser.Input.Keyboard.Key
+  private actions!: ActionMap
+  private controlsHint?: Phaser.GameObjects.Text
+  private controlsHelp?: Phaser.GameObjects.Text
+  private gamepad!: GamepadControls
+  private padText!: Phaser.GameObjects.Text
+  private aimMarker!: Phaser.GameObjects.Triangle
 
   // Simple nav-grid for Safe Room pathing
-  private grid?: { originX: number; originY: number; cols: number; rows: number; cell: number; block: Uint8Array }
+  private grid?: nav.NavGrid
   private plannedPath: Array<{ x: number; y: number }> = []
   private route: Array<{ x: number; y: number }> = []
   private routeIndex = 0
@@ -102,19 +167,43 @@ export class MainScene extends Phaser.Scene {
   private levelText!: Phaser.GameObjects.Text
   private remainingText!: Phaser.GameObjects.Text
   private statusText!: Phaser.GameObjects.Text
-  private spawnTimer?: Phaser.Time.TimerEvent
-  private spawnBudget = 0
-  private spawnedCount = 0
   private isLevelActive = false
   private awaitingNext = false
   private gameOver = false
+  private coresText!: Phaser.GameObjects.Text
+
+  // Current run rewards; settled into the save when the run ends
+  private run = { kills: 0, bosses: 0, levelsCleared: 0, killCores: 0, clearCores: 0, settled: true }
+  private summary?: Phaser.GameObjects.Container
+  private closeSummary?: () => void
+  // Pending summary after a death; restarting shows it right away instead
+  private summaryTimer?: Phaser.Time.TimerEvent
+
+  // HP bar for the active boss encounter
+  private bossBar?: Phaser.GameObjects.Container
+  private bossBarFill?: Phaser.GameObjects.Rectangle
+  private bossBarWidth = 0
 
   constructor() {
     super('MainScene')
   }
 
-  init(data: { safeMode?: boolean } = {}): void {
-    this.safeMode = !!data.safeMode
+  init(data: { safeMode?: boolean; replay?: Replay } = {}): void {
+    this.playback = data.replay ? new ReplayPlayer(data.replay) : undefined
+    this.safeMode = !!data.safeMode && !this.playback
+    this.recorder = undefined
+    this.pendingInputs = []
+    this.controlsHint = undefined
+    this.controlsHelp = undefined
+    // Re-arms once the player is away from it, so coming back from the builder doesn't reopen it
+    this.wardrobeArmed = false
+    this.resetWalk()
+    // The previous scene run's draft objects went with its display list
+    this.perkDraft = undefined
+    this.perkOffer = undefined
+    this.summaryTimer = undefined
+    this.perks = {}
+    this.killsSinceHeal = 0
   }
 
   create(): void {
@@ -122,75 +211,20 @@ export class MainScene extends Phaser.Scene {
 
     // Load appearance
     this.appearance = loadSave()?.appearance ?? getDefaultAppearance()
-    this.playerColor = this.appearance.bodyColor
 
-    // Centered player container with body + appearance layers
+    // Centered player container; the figure is scaled to fit the collision circle
     this.player = this.add.container(width / 2, height / 2)
-    this.playerBody = this.add.circle(0, 0, PLAYER_RADIUS, this.playerColor)
-    // Keep base circle invisible; used for simple hit flash if desired
-    this.playerBody.setAlpha(0)
-    this.player.add(this.playerBody)
-    this.rebuildAppearanceLayers()
+    this.playerSprite = new CharacterSprite(this, 0, 0, this.appearance).setScale(PLAYER_SPRITE_SCALE)
+    this.player.add(this.playerSprite)
+    this.hostileViews = new HostileViews(this)
 
     // Allow right-click without browser menu
     this.input.mouse?.disableContextMenu()
-    // Replace any existing pointerdown listeners with a robust handler
+    // Replace any existing pointerdown listeners; the first click also goes fullscreen
     this.input.removeAllListeners('pointerdown')
-    this.input.on('pointerdown', (pointer: Phaser.Input.Pointer) => {
+    this.input.on('pointerdown', () => {
       if (this.isInputLocked()) return
       if (!this.scale.isFullscreen) { try { this.scale.startFullscreen() } catch {} }
-      if (this.gameOver || this.awaitingNext) return
-      const bx = pointer.worldX, by = pointer.worldY
-      this.lastClick = { x: bx, y: by, button: pointer.button }
-      const shift = !!(this.keyShift?.isDown || ((pointer.event as any)?.shiftKey))
-      if (pointer.button === 2 || pointer.rightButtonDown()) {
-        this.fireBullet(bx, by)
-      } else {
-        // Show planned path again for debug/preview, even though movement uses direct dash for reliability
-        if (this.safeMode) {
-          const sx = this.player.x, sy = this.player.y
-          const path = this.findPath(sx, sy, bx, by)
-          this.plannedPath = path || []
-          this.refreshDebug()
-        }
-        if (shift) this.directDash(bx, by)
-        else this.tryDash(bx, by)
-      }
-    })
-
-    // (duplicate pointerdown handler removed)
-
-    // F toggles fullscreen on/off
-    this.input.keyboard?.on('keydown-F', () => {
-      if (this.isInputLocked()) return
-      if (this.scale.isFullscreen) {
-        this.scale.stopFullscreen()
-      } else {
-        this.scale.startFullscreen()
-      }
-    })
-    // F6 opens Save Select from anywhere (dev convenience)
-    this.input.keyboard?.on('keydown-F6', () => {
-      if (this.isInputLocked()) return
-      this.scene.start('SaveSelectScene')
-    })
-    // Track Shift for direct-dash override
-    this.keyShift = this.input.keyboard?.addKey(Phaser.Input.Keyboard.KeyCodes.SHIFT)
-
-    // N advances to next level when ready
-    this.input.keyboard?.on('keydown-N', () => {
-      if (this.isInputLocked()) return
-      if (this.awaitingNext && !this.gameOver) {
-        this.startLevel(this.level + 1)
-      }
-    })
-
-    // R restarts after game over
-    this.input.keyboard?.on('keydown-R', () => {
-      if (this.isInputLocked()) return
-      if (this.gameOver) {
-        this.restartGame()
-      }
     })
 
     // Update camera bounds on resize (no scrolling for now)
@@ -203,6 +237,9 @@ export class MainScene extends Phaser.Scene {
       this.drawVaultRoom()
       this.buildNavGrid()
       this.refreshDebug()
+      this.padText.setY(this.scale.height - 24)
+      this.controlsHint?.setPosition(this.scale.width - 12, this.scale.height - 24)
+      this.controlsHelp?.setPosition(this.scale.width - 12, this.scale.height - 32)
     })
 
     // Set camera bounds to current view (no scrolling for now)
@@ -215,33 +252,135 @@ export class MainScene extends Phaser.Scene {
     this.hpText = this.add.text(12, 12, '', style).setDepth(10)
     this.levelText = this.add.text(12, 32, '', style).setDepth(10)
     this.remainingText = this.add.text(12, 52, '', style).setDepth(10)
+    this.coresText = this.add.text(12, 72, '', { ...style, color: '#a7f3d0' }).setDepth(10)
     this.statusText = this.add.text(this.scale.width / 2, 80, '', { ...style, fontSize: '20px' }).setOrigin(0.5, 0).setDepth(10)
     // Debug text is created on-demand by toggleDebug()
     if (this.showDebug) {
-      this.debugText = this.add.text(12, 96, '', { fontSize: '12px', fontFamily: 'monospace', color: '#94a3b8' }).setDepth(50)
+      this.debugText = this.add.text(12, 116, '', { fontSize: '12px', fontFamily: 'monospace', color: '#94a3b8' }).setDepth(50)
     }
 
-    if (this.safeMode) {
-      // Load save for meta progression
-      this.slotId = getCurrentSlotId()
-      if (this.slotId) this.saveData = loadSlot(this.slotId) ?? undefined
+    // Gamepad: connection indicator bottom-left, aim marker around the player while a pad is in use
+    this.padText = this.add.text(12, height - 24, '', { ...style, fontSize: '12px', color: '#a7f3d0' }).setDepth(10)
+    this.aimMarker = this.add.triangle(0, 0, 0, -5, 10, 0, 0, 5, 0xfde047).setDepth(5).setVisible(false)
+    this.gamepad = new GamepadControls(this, (pad, connected) => this.onPadChange(pad, connected))
+
+    // Writes that don't reach storage (usually a full quota) shouldn't go unnoticed
+    const offStorage = onStorageFailure(f => this.statusText.setText(f.quota ? '⚠ Storage is full — progress was not saved' : '⚠ Could not save progress'))
+    this.events.once('shutdown', offStorage)
+
+    // Load save for meta progression
+    this.slotId = getCurrentSlotId()
+    if (this.slotId) this.saveData = loadSlot(this.slotId) ?? undefined
+    this.movementMode = this.saveData?.settings.movement ?? 'dash'
+    if (this.saveData) audio.setVolumes(this.saveData.settings)
+    this.bindActions()
+
+    if (this.playback) {
+      // Replays use the upgrades and seed they were recorded with, not the current slot's
+      const replay = this.playback.replay
+      this.refreshUpgrades(replay.upgrades)
+      this.beginRun(replay.seed)
+      this.startLevel(1)
+      const sized = replay.arena.w === Math.round(width) && replay.arena.h === Math.round(height)
+      const note = sized ? '' : `\nRecorded at ${replay.arena.w}x${replay.arena.h}; spawns may differ`
+      this.replayText = this.add.text(this.scale.width - 12, 12, '', { ...style, fontSize: '14px', color: '#fde047', align: 'right' }).setOrigin(1, 0).setDepth(10)
+      this.replayText.setData('note', note)
+      this.input.keyboard?.on('keydown-ESC', () => this.scene.start('SaveSelectScene'))
+    } else if (this.safeMode) {
       this.refreshUpgrades()
+      audio.playMusic('safeRoom')
       this.setupSafeRoom()
       // Hide HUD in safe room
-      this.hpText.setVisible(false)
-      this.levelText.setVisible(false)
-      this.remainingText.setVisible(false)
-      this.statusText.setVisible(false)
+      this.setHudVisible(false)
       this.updateHud()
       this.installDevShortcuts()
+      const hint = `[${this.inputHint('controlsHelp')}] Controls   [${this.inputHint('openSettings')}] Settings`
+      this.controlsHint = this.add.text(this.scale.width - 12, this.scale.height - 24, hint, { ...style, fontSize: '12px', color: '#94a3b8' }).setOrigin(1, 0).setDepth(10)
     } else {
       // Start Level 1
       this.refreshUpgrades()
+      this.beginRun()
       this.startLevel(1)
     }
+  }
 
-    // Global debug toggle for both modes
-    this.input.keyboard?.on('keydown-F3', () => this.toggleDebug())
+  // Keyboard and mouse actions come from the profile's bindings (Settings > Controls)
+  private bindActions(): void {
+    this.actions = new ActionMap(this, resolveBindings(this.saveData?.settings.keyBindings))
+    this.actions
+      .on('dash', p => this.aimedInput('dash', p))
+      .on('shoot', p => this.aimedInput('shoot', p))
+      .on('toggleFullscreen', () => {
+        if (this.isInputLocked()) return
+        if (this.scale.isFullscreen) this.scale.stopFullscreen()
+        else this.scale.startFullscreen()
+      })
+      // Opens Save Select from anywhere (dev convenience)
+      .on('saveSelect', () => {
+        if (this.isInputLocked()) return
+        this.settleRun()
+        this.scene.start('SaveSelectScene')
+      })
+      .on('nextLevel', () => {
+        if (this.isInputLocked()) return
+        if (this.awaitingNext && !this.gameOver) this.queueInput({ k: 'next' })
+      })
+      .on('restart', () => {
+        // Restart also dismisses the run summary, like Enter
+        if (this.summary) { this.closeSummary?.(); return }
+        if (this.isInputLocked()) return
+        if (this.gameOver) this.queueInput({ k: 'restart' })
+      })
+      // Global debug toggle for both modes
+      .on('toggleDebug', () => this.toggleDebug())
+      .on('openSettings', () => {
+        if (!this.safeMode || !this.slotId || this.isInputLocked()) return
+        this.scene.start('SettingsScene', { slotId: this.slotId, returnTo: 'MainScene' })
+      })
+      .on('controlsHelp', () => {
+        if (!this.safeMode || this.isInputLocked()) return
+        this.toggleControlsHelp()
+      })
+  }
+
+  // First input bound to an action, for prompts like "Press N for next"
+  private inputHint(action: ActionId): string {
+    const first = this.actions.bindings[action][0]
+    return first ? inputLabel(first) : 'unbound'
+  }
+
+  // Controls list generated from the active bindings (Safe Room only)
+  private toggleControlsHelp(): void {
+    if (this.controlsHelp) { this.controlsHelp.destroy(); this.controlsHelp = undefined; return }
+    const lines: string[] = []
+    let group = ''
+    for (const row of describeControls(this.actions.bindings)) {
+      if (row.group !== group) { group = row.group; lines.push(`${lines.length ? '\n' : ''}${group}`) }
+      lines.push(`  ${row.label.padEnd(28)}${row.inputs}`)
+    }
+    lines.push('', `Movement: ${this.movementMode === 'wasd' ? 'WASD (dash bursts)' : 'click to dash'} — change it in Settings`)
+    lines.push('Menus: arrows move, Enter selects, Esc goes back')
+    this.controlsHelp = this.add.text(this.scale.width - 12, this.scale.height - 32, lines.join('\n'), {
+      fontFamily: 'monospace', fontSize: '12px', color: '#cbd5e1', backgroundColor: '#0f172add', padding: { x: 10, y: 8 }
+    }).setOrigin(1, 1).setDepth(20)
+  }
+
+  // Dash and shoot go toward the pointer that pressed them, or the cursor when bound to a key
+  private aimedInput(kind: 'dash' | 'shoot', pointer?: Phaser.Input.Pointer): void {
+    if (this.isInputLocked()) return
+    if (this.gameOver || this.awaitingNext || this.playback) return
+    const p = pointer ?? this.input.activePointer
+    const bx = quantize(p.worldX), by = quantize(p.worldY)
+    this.lastClick = { x: bx, y: by, button: p.button }
+    if (kind === 'shoot') { this.queueInput({ k: 'shoot', x: bx, y: by }); return }
+    if (this.movementMode === 'wasd') { this.queueBurst(bx, by); return }
+    // Show planned path again for debug/preview, even though movement uses direct dash for reliability
+    if (this.safeMode) {
+      const path = this.findPath(this.player.x, this.player.y, bx, by)
+      this.plannedPath = path || []
+      this.refreshDebug()
+    }
+    this.queueInput({ k: 'dash', x: bx, y: by, direct: this.actions.isDown('directDash') })
   }
 
   private tryDash(targetX: number, targetY: number): void {
@@ -255,6 +394,7 @@ export class MainScene extends Phaser.Scene {
 
     // Keep the circle fully visible: clamp center inside screen by radius
     const { x: finalX, y: finalY } = this.clampToScreen(targetX, targetY)
+    audio.play('dash')
 
     // In Safe Room: plan and follow a smart route with solid fallback
     if (this.safeMode) {
@@ -290,27 +430,83 @@ export class MainScene extends Phaser.Scene {
     // Fallback: Try glide dash (slide along first obstacle)
     if (this.safeMode && this.tryGlideDash(startX, startY, finalX, finalY, duration)) return
 
-    this.dashTween = this.tweens.add({
-      targets: this.player,
-      x: finalX,
-      y: finalY,
-      duration,
-      ease: 'Sine.easeOut',
-      onComplete: () => {
-        this.dashing = false
-        if (COOLDOWN_MS > 0) {
-          this.time.delayedCall(COOLDOWN_MS, () => { this.canDash = true })
-        } else {
-          this.canDash = true
-        }
-      }
-    })
+    // Combat dash is advanced by the fixed-step simulation (see stepCombatDash)
+    this.combatDash = { sx: startX, sy: startY, tx: finalX, ty: finalY, elapsed: 0, duration }
+  }
+
+  private stepCombatDash(stepMs: number): void {
+    const d = this.combatDash
+    if (!d) {
+      if (!this.canDash && !this.dashing && this.simTime >= this.dashCooldownUntil) this.canDash = true
+      return
+    }
+    d.elapsed += stepMs
+    const k = Phaser.Math.Easing.Sine.Out(Math.min(1, d.elapsed / d.duration))
+    this.player.setPosition(d.sx + (d.tx - d.sx) * k, d.sy + (d.ty - d.sy) * k)
+    if (d.elapsed >= d.duration) {
+      this.combatDash = undefined
+      this.dashing = false
+      this.canDash = COOLDOWN_MS <= 0
+      this.dashCooldownUntil = this.simTime + COOLDOWN_MS
+    }
+  }
+
+  private startBurst(dx: number, dy: number): void {
+    if (this.isInputLocked() || this.dashing || !this.canDash) return
+    const len = Math.hypot(dx, dy)
+    if (len < 0.001) return
+    this.dashTween?.stop(); this.dashTween = undefined
+    this.route = []; this.routeIndex = 0
+    this.burst = { dx: dx / len, dy: dy / len, left: BURST_DISTANCE }
+    this.dashing = true
+    this.canDash = false
+    audio.play('dash')
+  }
+
+  // Walking and bursts; obstacles (safe room) and screen edges are resolved after every step
+  private stepMovement(stepMs: number): void {
+    const dt = stepMs / 1000
+    const b = this.burst
+    if (b) {
+      const d = Math.min(b.left, this.getDashSpeed() * dt)
+      b.left -= d
+      this.moveBy(b.dx * d, b.dy * d)
+      if (b.left > 0.01) return
+      this.burst = undefined
+      this.dashing = false
+      this.dashCooldownUntil = this.simTime + BURST_COOLDOWN_MS
+      // Leave the burst at walking speed so it blends back into movement
+      const speed = walkSpeed(this.getDashSpeed())
+      this.walkVel = { x: b.dx * speed, y: b.dy * speed }
+      return
+    }
+    // Click dashes own the player while they run
+    if (this.dashing) { this.walkVel = { x: 0, y: 0 }; return }
+    this.walkVel = stepWalk(this.walkVel, this.walkDir.x, this.walkDir.y, stepMs, walkSpeed(this.getDashSpeed()))
+    if (this.walkVel.x === 0 && this.walkVel.y === 0) return
+    const sx = this.player.x, sy = this.player.y
+    this.moveBy(this.walkVel.x * dt, this.walkVel.y * dt)
+    // Whatever a wall blocked is dropped from the velocity, so the player slides along it
+    this.walkVel = { x: (this.player.x - sx) / dt, y: (this.player.y - sy) / dt }
+  }
+
+  private moveBy(dx: number, dy: number): void {
+    const x = this.player.x + dx, y = this.player.y + dy
+    const p = this.safeMode ? this.resolveOverlap(x, y) : this.clampToScreen(x, y)
+    this.player.setPosition(p.x, p.y)
+  }
+
+  private resetWalk(): void {
+    this.walkDir = { x: 0, y: 0 }
+    this.walkVel = { x: 0, y: 0 }
+    this.heldMove = { x: 0, y: 0 }
+    this.burst = undefined
   }
 
   private fireBullet(targetX: number, targetY: number): void {
     // Simple fire-rate cap to avoid overlap near the player when clicking extremely fast
     if (this.isInputLocked()) return
-    if (this.time.now - this.lastShotAt < this.getFireCooldownMs()) return
+    if (this.simTime - this.lastShotAt < this.getFireCooldownMs()) return
     const x = this.player.x
     const y = this.player.y
     const dx = targetX - x
@@ -326,195 +522,127 @@ export class MainScene extends Phaser.Scene {
     const startX = x + nx * BULLET_SPAWN_OFFSET
     const startY = y + ny * BULLET_SPAWN_OFFSET
     const bs = this.getBulletSpeed()
-    const vx = nx * bs
-    const vy = ny * bs
-    // Single solid pellet (no outline to avoid any visual afterimage)
-    const g = this.acquireBulletArc()
-    g.setPosition(startX, startY)
-    g.setBlendMode(Phaser.BlendModes.NORMAL)
-    this.bullets.push({ g, vx, vy, life: BULLET_LIFETIME_MS, pierce: this.getPierce() })
-    this.lastShotAt = this.time.now
+    const { shots, bulletRadius, homingTurn } = this.statsCache
+    // Multishot fans the extra bullets evenly around the aim; each keeps the full pierce
+    const aim = Math.atan2(ny, nx)
+    for (let i = 0; i < shots; i++) {
+      const a = aim + (i - (shots - 1) / 2) * MULTISHOT_SPREAD
+      this.world.fireBullet(startX, startY, Math.cos(a) * bs, Math.sin(a) * bs, this.getPierce(), { radius: bulletRadius, homing: homingTurn })
+    }
+    this.lastShotAt = this.simTime
+    this.playerSprite.trigger('shoot')
+    audio.play('shoot')
   }
 
-  private spawnEnemy(): void {
-    const { width, height } = this.scale
-    // Spawn along edges
-    const side = Math.floor(Math.random() * 4) // 0:top,1:bottom,2:left,3:right
-    let x = 0, y = 0
-    if (side === 0) { // top
-      x = Phaser.Math.Between(ENEMY_RADIUS, width - ENEMY_RADIUS)
-      y = ENEMY_RADIUS
-    } else if (side === 1) { // bottom
-      x = Phaser.Math.Between(ENEMY_RADIUS, width - ENEMY_RADIUS)
-      y = height - ENEMY_RADIUS
-    } else if (side === 2) { // left
-      x = ENEMY_RADIUS
-      y = Phaser.Math.Between(ENEMY_RADIUS, height - ENEMY_RADIUS)
-    } else { // right
-      x = width - ENEMY_RADIUS
-      y = Phaser.Math.Between(ENEMY_RADIUS, height - ENEMY_RADIUS)
+  // ===== Boss presentation (the fight itself lives in CombatWorld) =====
+  private showBossBar(boss: SimBoss): void {
+    this.hideBossBar()
+    const spec = boss.e.def.boss!
+    const w = Math.min(480, this.scale.width - 200)
+    const bar = this.add.container(this.scale.width / 2, 20).setDepth(10)
+    const bg = this.add.rectangle(0, 0, w, 12, 0x334155).setOrigin(0.5, 0).setStrokeStyle(1, 0x64748b)
+    const fill = this.add.rectangle(-w / 2, 0, w, 12, boss.e.def.fill).setOrigin(0, 0)
+    const name = this.add.text(0, 16, spec.name, { ...this.uiStyle, fontSize: '14px' }).setOrigin(0.5, 0)
+    bar.add([bg, fill, name])
+    this.bossBar = bar
+    this.bossBarFill = fill
+    this.bossBarWidth = w
+  }
+
+  private onBossPhase(spec: BossSpec, phaseIndex: number): void {
+    const boss = this.world.boss
+    this.statusText.setText(`${spec.name} — phase ${phaseIndex + 1}!`)
+    this.time.delayedCall(1200, () => { if (this.world.boss === boss) this.statusText.setText('') })
+    this.cameras.main.shake(160, 0.004)
+  }
+
+  private defeatBoss(e: SimEnemy): void {
+    this.run.bosses++
+    // Guaranteed loot: the boss's cores burst out and fly to the player
+    for (let i = 0; i < 10; i++) {
+      const orb = this.add.circle(e.x, e.y, 4, 0xa7f3d0).setDepth(5)
+      const a = (i / 10) * Math.PI * 2
+      this.tweens.add({
+        targets: orb, x: e.x + Math.cos(a) * 60, y: e.y + Math.sin(a) * 60, duration: 250, ease: 'Sine.easeOut',
+        onComplete: () => this.tweens.add({ targets: orb, x: this.player.x, y: this.player.y, duration: 400, delay: i * 30, ease: 'Sine.easeIn', onComplete: () => orb.destroy() })
+      })
     }
-    const g = this.acquireEnemyArc()
-    g.setPosition(x, y)
-    this.enemies.push({ g, speed: ENEMY_SPEED })
+    // Remaining boss bullets vanish with it
+    this.clearHostileShots()
+    this.hideBossBar()
+    this.earnMilestone('bossKill')
+  }
+
+  private hideBossBar(): void {
+    this.bossBar?.destroy(); this.bossBar = undefined; this.bossBarFill = undefined
   }
 
   // ===== Pools =====
-  private acquireBulletArc(): Phaser.GameObjects.Arc {
-    const arc = this.bulletArcPool.pop()
-    if (arc) { arc.setVisible(true).setActive(true); arc.setRadius(BULLET_RADIUS); arc.setFillStyle(0xffc857, 1); return arc }
-    return this.add.circle(0, 0, BULLET_RADIUS, 0xffc857)
+  private acquireBulletView(): Phaser.GameObjects.Image {
+    const img = this.bulletPool.pop()
+    if (img) return img.setVisible(true).setActive(true)
+    return this.add.image(0, 0, BULLET_TEXTURE)
   }
 
-  private releaseBulletArc(arc: Phaser.GameObjects.Arc): void {
-    arc.setVisible(false).setActive(false)
-    this.bulletArcPool.push(arc)
+  private releaseBulletView(img: Phaser.GameObjects.Image): void {
+    img.setVisible(false).setActive(false)
+    this.bulletPool.push(img)
   }
 
-  private acquireEnemyArc(): Phaser.GameObjects.Arc {
-    const arc = this.enemyArcPool.pop()
-    if (arc) {
-      arc.setVisible(true).setActive(true)
-      arc.setRadius(ENEMY_RADIUS)
-      arc.setFillStyle(0xff5a5a, 1)
-      arc.setStrokeStyle(2, 0x8b2a2a, 0.9)
-      return arc
-    }
-    const g = this.add.circle(0, 0, ENEMY_RADIUS, 0xff5a5a)
-    g.setStrokeStyle(2, 0x8b2a2a, 0.9)
-    return g
+  // One pool per archetype so reused views keep their size
+  private acquireEnemyView(def: EnemyArchetype): Phaser.GameObjects.Image {
+    const img = this.enemyPools[def.id]?.pop()
+    if (img) return img.setVisible(true).setActive(true).setScale(1).setTexture(enemyTexture(def.id))
+    return this.add.image(0, 0, enemyTexture(def.id))
   }
 
-  private releaseEnemyArc(arc: Phaser.GameObjects.Arc): void {
-    arc.setVisible(false).setActive(false)
-    this.enemyArcPool.push(arc)
+  private releaseEnemyView(def: EnemyArchetype, img: Phaser.GameObjects.Image): void {
+    img.setVisible(false).setActive(false)
+    const pool = this.enemyPools[def.id] ?? (this.enemyPools[def.id] = [])
+    pool.push(img)
   }
 
-  private onPlayerHit(): void {
-    if (this.invulnerable || this.gameOver) return
-    this.invulnerable = true
+  private isInvulnerable(): boolean { return this.simTime < this.iframesUntil }
+
+  private onPlayerHit(damage: number): void {
+    if (this.isInvulnerable() || this.gameOver) return
+    // Brief i-frames to prevent instant re-hit
+    this.iframesUntil = this.simTime + HIT_IFRAMES_MS
+    this.levelDamaged = true
     // Damage and feedback
-    this.hp = Math.max(0, this.hp - ENEMY_DAMAGE)
+    this.hp = Math.max(0, this.hp - damage)
     this.updateHud()
-    this.playerBody.setFillStyle(0xff3b3b)
+    audio.play('playerHit')
+    this.playerSprite.trigger('hit')
     this.cameras.main.shake(80, 0.002)
-    this.time.delayedCall(140, () => this.playerBody.setFillStyle(this.playerColor))
-    if (this.hp <= 0) {
-      this.gameOverSequence()
-    } else {
-      // Brief i-frames to prevent instant re-hit
-      this.time.delayedCall(550, () => { this.invulnerable = false })
-    }
+    if (this.hp <= 0) this.gameOverSequence()
   }
 
-  update(_time: number, delta: number): void {
-    const dt = delta / 1000
-
-    // Update bullets
-    for (const b of this.bullets) {
-      b.g.x += b.vx * dt
-      b.g.y += b.vy * dt
-      b.life -= delta
-    }
-
-    // Cull bullets
-    const w = this.scale.width
-    const h = this.scale.height
-    this.bullets = this.bullets.filter(b => {
-      const onScreen = b.g.x >= -20 && b.g.x <= w + 20 && b.g.y >= -20 && b.g.y <= h + 20
-      const alive = b.life > 0 && onScreen
-      if (!alive) this.releaseBulletArc(b.g)
-      return alive
-    })
-
-    // Enemies chase player
-    for (const e of this.enemies) {
-      const dx = this.player.x - e.g.x
-      const dy = this.player.y - e.g.y
-      const dist = Math.hypot(dx, dy) || 1
-      const nx = dx / dist
-      const ny = dy / dist
-      e.g.x += nx * e.speed * dt
-      e.g.y += ny * e.speed * dt
-      // Keep fully on screen
-      const clamped = this.clampToScreen(e.g.x, e.g.y, ENEMY_RADIUS)
-      e.g.setPosition(clamped.x, clamped.y)
-    }
-
-    // Bullet-enemy collisions
-    const deadEnemies = new Set<number>()
-    const deadBullets = new Set<number>()
-    for (let i = 0; i < this.bullets.length; i++) {
-      const b = this.bullets[i]
-      for (let j = 0; j < this.enemies.length; j++) {
-        if (deadEnemies.has(j)) continue
-        const e = this.enemies[j]
-        const dx = e.g.x - b.g.x
-        const dy = e.g.y - b.g.y
-        const r = ENEMY_RADIUS + BULLET_RADIUS
-        if (dx * dx + dy * dy <= r * r) {
-          // Hit
-          deadEnemies.add(j)
-          if (b.pierce > 0) {
-            b.pierce -= 1
-          } else {
-            deadBullets.add(i)
-          }
-        }
-      }
-    }
-    // Apply deaths
-    if (deadEnemies.size > 0 || deadBullets.size > 0) {
-      for (let i = this.enemies.length - 1; i >= 0; i--) {
-        if (deadEnemies.has(i)) { this.releaseEnemyArc(this.enemies[i].g); this.enemies.splice(i, 1) }
-      }
-      for (let i = this.bullets.length - 1; i >= 0; i--) {
-        if (deadBullets.has(i)) { this.releaseBulletArc(this.bullets[i].g); this.bullets.splice(i, 1) }
-      }
-      this.updateHud()
-    }
+  // Dashing through an enemy shot destroys it and grants a few i-frames
+  private onDashGraze(): void {
+    this.iframesUntil = Math.max(this.iframesUntil, this.simTime + DASH_GRAZE_IFRAMES_MS)
+    const ring = this.add.circle(this.player.x, this.player.y, PLAYER_RADIUS + 4).setStrokeStyle(2, 0xa7f3d0, 0.9).setDepth(5)
+    this.tweens.add({ targets: ring, scale: 1.6, alpha: 0, duration: DASH_GRAZE_IFRAMES_MS, onComplete: () => ring.destroy() })
+  }
 
-    // Enemy-player contact damage
-    if (!this.invulnerable) {
-      for (const e of this.enemies) {
-        const dx = e.g.x - this.player.x
-        const dy = e.g.y - this.player.y
-        const r = ENEMY_RADIUS + PLAYER_RADIUS
-        if (dx * dx + dy * dy <= r * r) {
-          this.onPlayerHit()
-          break
-        }
-      }
+  update(_time: number, delta: number): void {
+    this.pollGamepad()
+    this.pollMovement()
+    // Run whole simulation steps for the elapsed time, then interpolate visuals
+    this.simAccumulator = Math.min(this.simAccumulator + delta, SIM_MAX_CATCHUP_MS)
+    while (this.simAccumulator >= SIM_STEP_MS) {
+      this.simStep(SIM_STEP_MS)
+      this.simAccumulator -= SIM_STEP_MS
     }
-
-    // Check level completion
-    if (this.isLevelActive && this.spawnedCount >= this.spawnBudget && this.enemies.length === 0) {
-      this.endLevel()
+    this.renderSim(this.simAccumulator / SIM_STEP_MS)
+    this.playerSprite.setDashing(this.dashing).face(this.lastAimX)
+    if (this.aimMarker.visible) {
+      this.aimMarker.setPosition(this.player.x + this.lastAimX * 28, this.player.y + this.lastAimY * 28).setRotation(Math.atan2(this.lastAimY, this.lastAimX))
     }
-
-    // Dummy-bullet collisions (safe room only)
-    if (this.safeMode && this.dummies.length > 0) {
-      const deadBullets = new Set<number>()
-      for (let i = 0; i < this.bullets.length; i++) {
-        const b = this.bullets[i]
-        for (const d of this.dummies) {
-          const dx = d.g.x - b.g.x
-          const dy = d.g.y - b.g.y
-          const r = 18 + 4
-          if (dx * dx + dy * dy <= r * r) {
-            if (b.pierce > 0) {
-              b.pierce -= 1
-            } else {
-              deadBullets.add(i)
-            }
-            this.damageDummy(d, 1)
-            break
-          }
-        }
-      }
-      if (deadBullets.size > 0) {
-        for (let i = this.bullets.length - 1; i >= 0; i--) { if (deadBullets.has(i)) { this.releaseBulletArc(this.bullets[i].g); this.bullets.splice(i, 1) } }
-      }
+    if (this.playback && this.replayText) {
+      const r = this.playback.replay
+      const state = this.playback.done && this.simTick >= r.ticks ? 'finished' : `${Math.min(this.simTick, r.ticks)}/${r.ticks}`
+      this.replayText.setText(`REPLAY ${formatSeed(r.seed)} · ${state} · [Esc] exit${this.replayText.getData('note')}`)
     }
 
     // Safe room interactions and nav following
@@ -539,11 +667,159 @@ export class MainScene extends Phaser.Scene {
         `safe:${this.safeMode} dashing:${this.dashing} can:${this.canDash}\n`+
         `player: (${this.player.x.toFixed(1)}, ${this.player.y.toFixed(1)})\n`+
         `lastClick: (${this.lastClick.x.toFixed(1)}, ${this.lastClick.y.toFixed(1)}) b=${this.lastClick.button}\n`+
-        `tween:${tweenState} prog:${tprog}% path:${pathLen} grid:${gridInfo}`
+        `tween:${tweenState} prog:${tprog}% path:${pathLen} grid:${gridInfo}\n`+
+        `seed:${formatSeed(this.runSeed)} tick:${this.simTick}`
       )
     }
   }
 
+  // Left stick dashes (tilt scales the distance; holding it chains dashes), right stick aims, RT fires.
+  // Everything goes through the same input queue as the mouse so runs stay replayable.
+  // In the WASD mode the left stick walks (8-way) and LB bursts instead.
+  private pollGamepad(): void {
+    const f = this.gamepad.poll()
+    this.padMove = { x: 0, y: 0 }
+    this.aimMarker.setVisible(!!f && !this.isInputLocked() && !this.playback)
+    if (!f) return
+    if (this.summary) { if (f.confirm || f.restart) this.closeSummary?.(); return }
+    if (this.isInputLocked() || this.playback) return
+    if (this.gameOver) { if (f.restart || f.confirm) this.queueInput({ k: 'restart' }); return }
+    // The perk draft's own focus nav takes the pad while it is open
+    if (this.awaitingNext) { if (f.confirm && !this.perkDraft) this.queueInput({ k: 'next' }); return }
+    if (f.aim) { this.lastAimX = f.aim.x; this.lastAimY = f.aim.y }
+    const queued = (k: InputEvent['k']) => this.pendingInputs.some(i => i.k === k)
+    if (this.movementMode === 'wasd') {
+      if (f.move) this.padMove = { x: Math.round(f.move.x), y: Math.round(f.move.y) }
+      if (f.burst && !queued('burst')) this.queueBurst(this.player.x + this.lastAimX, this.player.y + this.lastAimY)
+    } else if (f.move && (f.moveStarted || (!this.dashing && this.route.length === 0)) && !queued('dash')) {
+      const d = PAD_DASH_DISTANCE * f.move.tilt
+      this.queueInput({ k: 'dash', x: quantize(this.player.x + f.move.x * d), y: quantize(this.player.y + f.move.y * d), direct: false })
+    }
+    if (f.fire && this.simTime - this.lastShotAt >= this.getFireCooldownMs() && !queued('shoot')) {
+      this.queueInput({ k: 'shoot', x: quantize(this.player.x + this.lastAimX * 100), y: quantize(this.player.y + this.lastAimY * 100) })
+    }
+  }
+
+  private onPadChange(pad: Phaser.Input.Gamepad.Gamepad, connected: boolean): void {
+    if (connected) {
+      const name = pad.id.replace(/\(.*?\)/g, '').trim().slice(0, 32) || 'Gamepad'
+      this.padText.setColor('#a7f3d0').setText(`Controller: ${name}`)
+      return
+    }
+    this.padText.setColor('#fca5a5').setText('Controller disconnected')
+    this.time.delayedCall(2500, () => { if (!this.gamepad.pad) this.padText.setText('') })
+  }
+
+  // WASD mode: the held direction goes through the input queue whenever it changes
+  private pollMovement(): void {
+    if (this.movementMode !== 'wasd' || this.playback) return
+    let x = 0, y = 0
+    if (!this.isInputLocked() && !this.gameOver && !this.awaitingNext) {
+      const held = (a: ActionId) => (this.actions.isDown(a) ? 1 : 0)
+      x = Math.sign(held('moveRight') - held('moveLeft') + this.padMove.x)
+      y = Math.sign(held('moveDown') - held('moveUp') + this.padMove.y)
+    }
+    if (x === this.heldMove.x && y === this.heldMove.y) return
+    this.heldMove = { x, y }
+    this.queueInput({ k: 'move', x, y })
+  }
+
+  // Bursts go the way the player is walking, or toward (tx, ty) when standing still
+  private queueBurst(tx: number, ty: number): void {
+    let dx = this.heldMove.x, dy = this.heldMove.y
+    if (dx === 0 && dy === 0) { dx = tx - this.player.x; dy = ty - this.player.y }
+    const len = Math.hypot(dx, dy)
+    if (len < 0.001) return
+    this.queueInput({ k: 'burst', x: quantize(dx / len), y: quantize(dy / len) })
+  }
+
+  private queueInput(input: InputEvent): void {
+    this.pendingInputs.push(input)
+  }
+
+  // Same path for live and replayed input; state checks happen here so both agree
+  private applyInput(input: InputEvent): void {
+    this.recorder?.record(this.simTick, input)
+    switch (input.k) {
+      case 'shoot': this.fireBullet(input.x, input.y); break
+      case 'dash':
+        if (input.direct) { this.directDash(input.x, input.y); audio.play('dash') } else this.tryDash(input.x, input.y)
+        break
+      case 'next': if (this.awaitingNext && !this.gameOver) this.startLevel(this.level + 1); break
+      case 'restart': if (this.gameOver) this.restartGame(); break
+      case 'move': this.walkDir = { x: input.x, y: input.y }; break
+      case 'burst': this.startBurst(input.x, input.y); break
+      case 'perk': this.pickPerk(input.i); break
+    }
+  }
+
+  // One fixed simulation tick: everything that affects combat outcomes happens here
+  private simStep(delta: number): void {
+    this.simTime += delta
+    this.simTick++
+    const inputs = this.playback ? this.playback.take(this.simTick) : this.pendingInputs.splice(0)
+    for (const input of inputs) this.applyInput(input)
+    this.stepCombatDash(delta)
+    this.stepMovement(delta)
+    // Dash Strike hits each enemy once per dash
+    if (this.dashing && !this.safeMode && this.statsCache.dashDamage > 0) {
+      this.world.strike(this.player.x, this.player.y, PLAYER_RADIUS, this.statsCache.dashDamage, this.dashHits)
+    } else if (this.dashHits.size > 0) {
+      this.dashHits.clear()
+    }
+
+    // Bullets, enemies, boss patterns, hostile shots, collisions, contact damage and the wave script
+    this.world.bounds = { width: this.scale.width, height: this.scale.height }
+    this.world.step(delta, {
+      x: this.player.x, y: this.player.y, r: PLAYER_RADIUS,
+      vulnerable: !this.isInvulnerable() && !this.gameOver,
+      dashing: this.dashing && !this.safeMode
+    })
+
+    if (this.isLevelActive && this.world.waves) {
+      if (this.world.levelComplete) this.endLevel()
+      else this.remainingText.setText(this.world.waves.describe(this.world.enemies.length))
+    }
+
+    // Dummy-bullet collisions (safe room only)
+    if (this.safeMode && this.dummies.length > 0) {
+      const targets = this.dummies.slice()
+      this.world.collideTargets(targets.map(d => ({ x: d.g.x, y: d.g.y, r: this.dummyColliderRadius })), i => this.damageDummy(targets[i], 1))
+    }
+  }
+
+  // Sync pooled views with the world and place them between the previous and current step (alpha in 0..1)
+  private renderSim(alpha: number): void {
+    const liveBullets = new Set(this.world.bullets)
+    for (const [b, g] of this.bulletViews) if (!liveBullets.has(b)) { this.releaseBulletView(g); this.bulletViews.delete(b) }
+    for (const b of this.world.bullets) {
+      let g = this.bulletViews.get(b)
+      if (!g) { g = this.acquireBulletView(); this.bulletViews.set(b, g) }
+      g.setPosition(b.px + (b.x - b.px) * alpha, b.py + (b.y - b.py) * alpha).setScale(b.r / BULLET_RADIUS)
+    }
+
+    const liveEnemies = new Set(this.world.enemies)
+    for (const [e, g] of this.enemyViews) if (!liveEnemies.has(e)) { this.releaseEnemyView(e.def, g); this.enemyViews.delete(e) }
+    for (const e of this.world.enemies) {
+      let g = this.enemyViews.get(e)
+      if (!g) { g = this.acquireEnemyView(e.def); this.enemyViews.set(e, g) }
+      g.setPosition(e.px + (e.x - e.px) * alpha, e.py + (e.y - e.py) * alpha)
+      // Brief hit flash for multi-HP enemies; charger telegraph: white outline and a pulse while
+      // winding up, outline kept through the dash
+      const charging = !!e.def.charge && (e.phase === 'windup' || e.phase === 'dash')
+      const look = e.flashMs > 0 ? 'flash' : charging ? 'charge' : 'idle'
+      const key = enemyTexture(e.def.id, look)
+      if (g.texture.key !== key) g.setTexture(key)
+      const c = e.def.charge
+      g.setScale(e.phase === 'windup' && c ? 1 + 0.15 * Math.abs(Math.sin((c.windupMs - e.phaseMs) / 60)) : 1)
+    }
+
+    const boss = this.world.boss
+    if (!boss) this.hideBossBar()
+    else if (this.bossBarFill) this.bossBarFill.width = this.bossBarWidth * (Math.max(0, boss.e.hp) / boss.maxHp)
+    this.hostileViews.render(this.world.hostiles, alpha)
+  }
+
   private clampPlayerToScreen(): void {
     const { x, y } = this.clampToScreen(this.player.x, this.player.y)
     this.player.setPosition(x, y)
@@ -570,16 +846,20 @@ export class MainScene extends Phaser.Scene {
   }
 
   private startLevel(lvl: number): void {
-    // Reset any previous timer
-    this.spawnTimer?.remove(false)
+    audio.playMusic('combat')
     this.level = lvl
     this.isLevelActive = true
     this.awaitingNext = false
-    this.statusText.setText('')
+    this.levelDamaged = false
+    this.closePerkDraft()
+    if (lvl >= 10) this.earnMilestone('reachLevel10')
 
-    // Level-specific setup (simple ramp; tweak as you prefer)
-    this.spawnBudget = lvl === 1 ? LEVEL1_SPAWN_BUDGET : LEVEL1_SPAWN_BUDGET + (lvl - 1) * 4
-    this.spawnedCount = 0
+    this.combatDash = undefined
+    // Level-specific setup comes from the wave script (authored or generated), seeded per level
+    this.world.bounds = { width: this.scale.width, height: this.scale.height }
+    this.world.startLevel(lvl, this.runSeed)
+    this.statusText.setText(this.world.waves?.name ?? '')
+    this.time.delayedCall(1500, () => { if (this.isLevelActive && this.level === lvl) this.statusText.setText('') })
 
     // Clear remaining enemies/bullets from prior level
     this.clearEntities()
@@ -590,58 +870,281 @@ export class MainScene extends Phaser.Scene {
     // Ensure HP respects upgrades when a level starts
     this.hp = Math.min(this.hp, this.maxHp())
 
-    // Spawn loop that respects budget
-    this.spawnTimer = this.time.addEvent({
-      delay: ENEMY_SPAWN_INTERVAL_MS,
-      loop: true,
-      callback: () => {
-        if (!this.isLevelActive) return
-        if (this.spawnedCount < this.spawnBudget) {
-          this.spawnEnemy()
-          this.spawnedCount++
-          this.updateHud()
-        }
-      }
-    })
-
     this.updateHud()
   }
 
   private endLevel(): void {
+    // Boss levels stay locked until the boss is dead
+    if (this.world.boss) return
     this.isLevelActive = false
     this.awaitingNext = true
+    // Survive waves can end with enemies still on the field
+    this.clearEnemies(); this.clearHostileShots()
     // Heal on clear if upgrade purchased
     const heal = this.getUpgrades().healOnClear || 0
+    // Clear bonus uses HP left before the heal so taking no damage pays off
+    const bonus = this.clearBonus(this.level, this.hp)
+    this.run.levelsCleared++
+    this.run.clearCores += bonus
     if (heal > 0) this.hp = Math.min(this.maxHp(), this.hp + heal)
     this.updateHud()
-    this.statusText.setText(`Level ${this.level} complete! Press N for next`) 
+    const drafting = this.offerPerks()
+    const next = drafting ? `Pick a perk or press ${this.inputHint('nextLevel')} to skip` : `Press ${this.inputHint('nextLevel')} for next`
+    this.statusText.setText(`Level ${this.level} complete! +${bonus} cores. ${next}`)
+    if (!this.levelDamaged) this.earnMilestone('flawlessClear')
+  }
+
+  // ===== Perk draft =====
+  // The cards come from a per-level stream of the run seed, so a replay is offered the same ones,
+  // and the pick goes through the input queue like any other run input
+  private offerPerks(): boolean {
+    const offer = draftPerks(this.perks, new Rng(deriveSeed(this.runSeed, PERK_DRAFT_SALT + this.level)).fn)
+    if (offer.length === 0) return false
+    this.perkOffer = offer
+    this.showPerkDraft(offer)
+    return true
+  }
+
+  private showPerkDraft(offer: PerkId[]): void {
+    this.closePerkDraft()
+    const cardW = 190, cardH = 112, gap = 16
+    const cont = this.add.container(this.scale.width / 2, this.scale.height / 2).setDepth(25)
+    const items: FocusItem[] = []
+    offer.forEach((id, i) => {
+      const perk = getPerk(id)
+      const have = perkStacks(this.perks, id)
+      const x = (i - (offer.length - 1) / 2) * (cardW + gap)
+      const card = this.add.rectangle(x, 0, cardW, cardH, 0x0b1220, 0.94).setStrokeStyle(2, 0x3b82f6)
+      const title = this.add.text(x, -cardH / 2 + 12, perk.label, { fontFamily: 'monospace', fontSize: '16px', color: '#e2e8f0' }).setOrigin(0.5, 0)
+      const level = this.add.text(x, -cardH / 2 + 34, have > 0 ? `Stack ${have + 1}/${perk.maxStacks}` : 'New', { fontFamily: 'monospace', fontSize: '12px', color: '#a7f3d0' }).setOrigin(0.5, 0)
+      const desc = this.add.text(x, -cardH / 2 + 54, perk.desc, { fontFamily: 'monospace', fontSize: '12px', color: '#94a3b8', align: 'center', wordWrap: { width: cardW - 20 } }).setOrigin(0.5, 0)
+      cont.add([card, title, level, desc])
+      // Replays show the offer but only the recorded pick applies
+      if (this.playback) return
+      const pick = () => this.queueInput({ k: 'perk', i })
+      card.setInteractive({ useHandCursor: true }).on('pointerdown', pick)
+      items.push({ target: card, activate: pick })
+    })
+    let focus: FocusNav | undefined
+    if (!this.playback) {
+      focus = new FocusNav(this)
+      focus.push(items, () => this.queueInput({ k: 'next' }))
+    }
+    this.perkDraft = { cont, focus }
+  }
+
+  private closePerkDraft(): void {
+    this.perkOffer = undefined
+    if (!this.perkDraft) return
+    this.perkDraft.focus?.destroy()
+    this.perkDraft.cont.destroy()
+    this.perkDraft = undefined
+  }
+
+  private pickPerk(index: number): void {
+    const id = this.perkOffer?.[index]
+    if (!id || !this.awaitingNext || this.gameOver) return
+    this.perks = { ...this.perks, [id]: perkStacks(this.perks, id) + 1 }
+    this.closePerkDraft()
+    this.applyRunStats()
+    audio.play('purchase')
+    const stacks = perkStacks(this.perks, id)
+    this.statusText.setText(`Took ${getPerk(id).label}${stacks > 1 ? ` x${stacks}` : ''}. Press ${this.inputHint('nextLevel')} for next`)
+  }
+
+  // Every few kills heal 1 HP with Lifesteal
+  private lifesteal(): void {
+    const every = this.statsCache.lifestealKills
+    if (every <= 0 || this.gameOver) return
+    if (++this.killsSinceHeal < every) return
+    this.killsSinceHeal = 0
+    this.hp = Math.min(this.maxHp(), this.hp + 1)
+  }
+
+  private showBlast(x: number, y: number, radius: number): void {
+    const ring = this.add.circle(x, y, radius, 0xff9f43, 0.35).setStrokeStyle(2, 0xffc857, 0.9).setDepth(5).setScale(0.3)
+    this.tweens.add({ targets: ring, scale: 1, alpha: 0, duration: 220, ease: 'Sine.easeOut', onComplete: () => ring.destroy() })
+  }
+
+  // Grants the milestone's cosmetics to the slot right away, so they survive a later death.
+  // Replays and slot-less runs earn nothing.
+  private earnMilestone(m: MilestoneId): void {
+    if (this.playback || !this.slotId) return
+    const fresh = milestoneUnlocks(m, this.saveData?.unlocks.cosmetics ?? [])
+    if (fresh.length === 0) return
+    const data = updateSlot(this.slotId, d => {
+      const ids = fresh.map(c => c.id).filter(id => !d.unlocks.cosmetics.includes(id))
+      if (ids.length === 0) return false
+      d.unlocks.cosmetics.push(...ids)
+    })
+    if (!data) return
+    this.saveData = data
+    const toast = this.add.text(this.scale.width / 2, 64, `Unlocked: ${fresh.map(c => c.label).join(', ')}`, { ...this.uiStyle, color: '#fde047' })
+      .setOrigin(0.5, 0.5).setDepth(1000)
+    this.tweens.add({ targets: toast, alpha: 0, y: 44, delay: 1800, duration: 600, onComplete: () => toast.destroy() })
   }
 
   private updateHud(): void {
     this.hpText.setText(`HP: ${this.hp}/${this.maxHp()}`)
     this.levelText.setText(`Level: ${this.level}`)
-    const remaining = Math.max(0, this.spawnBudget - this.spawnedCount) + this.enemies.length
-    this.remainingText.setText(`Enemies left: ${remaining}`)
+    this.remainingText.setText(this.world.waves?.describe(this.world.enemies.length) ?? '')
+    this.coresText.setText(`Cores: +${this.runCores()}`)
+  }
+
+  private setHudVisible(visible: boolean): void {
+    this.hpText.setVisible(visible)
+    this.levelText.setVisible(visible)
+    this.remainingText.setVisible(visible)
+    this.statusText.setVisible(visible)
+    this.coresText.setVisible(visible)
   }
 
   private gameOverSequence(): void {
     this.gameOver = true
     this.isLevelActive = false
     this.awaitingNext = false
-    this.spawnTimer?.remove(false)
-    // Brief feedback, then return to Safe Room
+    this.world.stopLevel()
+    this.settleRun()
+    // Brief feedback, then show the run summary before returning to Safe Room
     this.cameras.main.shake(120, 0.004)
-    this.time.delayedCall(250, () => this.goToSafeRoom())
+    this.summaryTimer = this.time.delayedCall(250, () => this.showDeathSummary())
   }
 
+  // Restart sends you to the Safe Room as well, through the same summary
   private restartGame(): void {
-    // Restart sends you to the Safe Room as well
-    this.goToSafeRoom()
+    if (this.summary) { this.closeSummary?.(); return }
+    this.showDeathSummary()
+  }
+
+  private showDeathSummary(): void {
+    this.summaryTimer?.remove()
+    this.summaryTimer = undefined
+    this.showRunSummary(() => this.goToSafeRoom())
+  }
+
+  // ===== Run rewards =====
+  // Seed comes from ?seed=XYZ when reproducing a report, otherwise it's random
+  private beginRun(seed?: number): void {
+    const fromUrl = new URLSearchParams(window.location.search).get('seed')
+    this.runSeed = seed ?? (fromUrl !== null ? parseSeed(fromUrl) : null) ?? randomSeed()
+    // Replays never pay out
+    this.run = { kills: 0, bosses: 0, levelsCleared: 0, killCores: 0, clearCores: 0, settled: !!this.playback }
+    // Every run starts from the same clock and player state so its inputs replay exactly
+    this.simTime = 0; this.simTick = 0
+    this.iframesUntil = 0; this.dashCooldownUntil = 0; this.lastShotAt = -Infinity
+    this.lastAimX = 1; this.lastAimY = 0
+    this.pendingInputs = []
+    this.resetDashState()
+    this.resetWalk()
+    this.resetPerks()
+    this.hp = this.maxHp()
+    if (!this.playback) {
+      this.recorder = new ReplayRecorder({
+        seed: this.runSeed,
+        name: this.saveData?.name,
+        arena: { w: Math.round(this.scale.width), h: Math.round(this.scale.height) },
+        upgrades: { ...(this.saveData?.meta.upgrades ?? emptyUpgrades()) }
+      })
+    }
+  }
+
+  // Keeps the slot's most recent run for watching or exporting from Save Select
+  private finishRecording(): void {
+    if (!this.recorder) return
+    const replay = this.recorder.finish(this.simTick)
+    this.recorder = undefined
+    if (this.slotId) saveLastReplay(this.slotId, replay)
+  }
+
+  private runCores(): number { return this.run.killCores + this.run.clearCores }
+
+  private awardKill(def: EnemyArchetype): void {
+    this.run.kills++
+    this.run.killCores += def.cores
+  }
+
+  private clearBonus(level: number, hp: number): number {
+    // Scales with level; a full-HP clear pays double a near-death one
+    const base = CLEAR_BONUS_BASE + level * CLEAR_BONUS_PER_LEVEL
+    const hpFactor = 1 + Math.max(0, hp) / this.maxHp()
+    return Math.round(base * hpFactor)
+  }
+
+  // Writes the run's earnings and statistics into the slot once; safe to call repeatedly
+  private settleRun(): void {
+    this.finishRecording()
+    if (this.run.settled) return
+    this.run.settled = true
+    const earned = this.runCores()
+    if (!this.slotId) return
+    const data = updateSlot(this.slotId, d => {
+      d.meta.cores = (d.meta.cores ?? 0) + earned
+      const stats = d.stats
+      stats.runs++
+      if (this.gameOver) stats.deaths++
+      stats.bestLevel = Math.max(stats.bestLevel, this.level)
+      stats.kills += this.run.kills
+      stats.bossKills += this.run.bosses
+      stats.coresEarned += earned
+      stats.playTimeMs += Math.round(this.simTime)
+    })
+    if (data) this.saveData = data
+  }
+
+  private showRunSummary(onClose: () => void): void {
+    this.summary?.destroy()
+    const cx = this.scale.width / 2
+    const cy = this.scale.height / 2
+    const cont = this.add.container(cx, cy).setDepth(30)
+    const scrim = this.add.rectangle(0, 0, this.scale.width, this.scale.height, 0x0b1220, 0.6).setInteractive()
+    const bg = this.add.rectangle(0, 0, Math.min(420, this.scale.width - 80), 316, 0x0b1220, 0.96).setStrokeStyle(2, 0x3b82f6)
+    const title = this.add.text(0, -bg.height / 2 + 16, 'Run Summary', { fontFamily: 'monospace', fontSize: '20px', color: '#cbd5e1' }).setOrigin(0.5, 0)
+    const rows: Array<[string, string]> = [
+      ['Reached level', `${this.level}`],
+      ['Levels cleared', `${this.run.levelsCleared}`],
+      ['Enemies killed', `${this.run.kills}`],
+      ['Bosses defeated', `${this.run.bosses}`],
+      ['Kill cores', `+${this.run.killCores}`],
+      ['Clear bonus', `+${this.run.clearCores}`],
+      ['Total cores', `${this.saveData?.meta?.cores ?? 0}`],
+      ['Seed', formatSeed(this.runSeed)]
+    ]
+    cont.add([scrim, bg, title])
+    rows.forEach(([label, value], i) => {
+      const y = -bg.height / 2 + 56 + i * 26
+      const color = label === 'Total cores' ? '#a7f3d0' : '#e2e8f0'
+      cont.add(this.add.text(-bg.width / 2 + 24, y, label, { fontFamily: 'monospace', fontSize: '16px', color: '#94a3b8' }))
+      cont.add(this.add.text(bg.width / 2 - 24, y, value, { fontFamily: 'monospace', fontSize: '16px', color }).setOrigin(1, 0))
+    })
+    const hint = this.add.text(0, bg.height / 2 - 14, `Click or press [Enter] / (A) to return to ${this.playback ? 'Save Select' : 'the Safe Room'}`, { fontFamily: 'monospace', fontSize: '12px', color: '#64748b' }).setOrigin(0.5, 1)
+    cont.add(hint)
+    this.summary = cont
+
+    let closed = false
+    const close = () => {
+      if (closed) return
+      closed = true
+      this.input.keyboard?.off('keydown-ENTER', close)
+      this.input.keyboard?.off('keydown-SPACE', close)
+      cont.destroy(); this.summary = undefined; this.closeSummary = undefined
+      onClose()
+    }
+    this.closeSummary = close
+    scrim.on('pointerdown', close)
+    this.input.keyboard?.on('keydown-ENTER', close)
+    this.input.keyboard?.on('keydown-SPACE', close)
   }
 
   private goToSafeRoom(): void {
+    // Once per run; a late summary or repeated restart must not build the room twice
+    if (this.safeMode) return
+    this.summaryTimer?.remove()
+    this.summaryTimer = undefined
+    // A replay has no safe room to return to
+    if (this.playback) { this.scene.start('SaveSelectScene'); return }
+    this.settleRun()
     // Clear combat state
-    this.spawnTimer?.remove(false)
+    this.world.stopLevel()
     this.clearEntities()
     this.plannedPath = []
     this.route = []
@@ -650,86 +1153,35 @@ export class MainScene extends Phaser.Scene {
     this.isLevelActive = false
     this.awaitingNext = false
     this.gameOver = false
-    this.invulnerable = false
-    // Restore HP and body color feedback
+    this.iframesUntil = 0
+    // Run perks end with the run
+    this.resetPerks()
     this.hp = this.maxHp()
-    this.playerBody.setFillStyle(this.playerColor)
     this.statusText.setText('')
 
     // Switch to Safe Room mode
     this.safeMode = true
+    audio.playMusic('safeRoom')
 
     // Hide HUD in safe room
-    this.hpText.setVisible(false)
-    this.levelText.setVisible(false)
-    this.remainingText.setVisible(false)
-    this.statusText.setVisible(false)
+    this.setHudVisible(false)
 
     // Build Safe Room afresh
     this.setupSafeRoom()
     this.updateHud()
   }
 
+  // Views are released on the next render once their entities are gone
   private clearEntities(): void {
-    this.clearEnemies(); this.clearBullets()
+    this.world.clear(); this.clearHostileShots()
   }
   private clearEnemies(): void {
-    for (const e of this.enemies) this.releaseEnemyArc(e.g)
-    this.enemies = []
-  }
-  private clearBullets(): void {
-    for (const b of this.bullets) this.releaseBulletArc(b.g)
-    this.bullets = []
-  }
-
-  private rebuildAppearanceLayers(): void {
-    // Clear old layers
-    this.hairG?.destroy(); this.hairG = undefined
-    this.outfitG?.destroy(); this.outfitG = undefined
-    this.head?.destroy(); this.head = undefined
-    this.bodyG?.destroy(); this.bodyG = undefined
-
-    // Top-down body: head + torso + arms within a 32px circle footprint
-    this.head = this.add.circle(0, -8, 7, this.appearance.bodyColor)
-    this.player.add(this.head)
-
-    const g = this.add.graphics()
-    g.fillStyle(this.appearance.bodyColor, 1)
-    // Torso
-    g.fillRoundedRect(-11, -2, 22, 18, 6)
-    // Arms
-    g.fillRoundedRect(-13, -4, 6, 14, 3)
-    g.fillRoundedRect(7, -4, 6, 14, 3)
-    this.player.add(g)
-    this.bodyG = g
-
-    // Hair overlay
-    if (this.appearance.hair !== 'none') {
-      const hg = this.add.graphics()
-      hg.fillStyle(this.appearance.hairColor, 1)
-      if (this.appearance.hair === 'spike') {
-        hg.fillTriangle(-10, -12, -4, -16, 2, -12)
-        hg.fillTriangle(-2, -12, 4, -16, 10, -12)
-      } else if (this.appearance.hair === 'bob') {
-        hg.fillRoundedRect(-14, -16, 28, 8, { tl: 6, tr: 6, bl: 0, br: 0 })
-      }
-      this.player.add(hg)
-      this.hairG = hg
-    }
-
-    // Outfit overlay on torso region
-    const og = this.add.graphics()
-    og.fillStyle(0x9097a5, 1)
-    if (this.appearance.outfit === 'suit') {
-      og.fillRect(-11, 6, 22, 6)
-    } else if (this.appearance.outfit === 'robe') {
-      og.fillRoundedRect(-12, 1, 24, 16, 6)
-    } else if (this.appearance.outfit === 'armor') {
-      og.fillTriangle(-10, 6, 10, 6, 0, 16)
-    }
-    this.player.add(og)
-    this.outfitG = og
+    this.world.clearEnemies()
   }
+  private clearHostileShots(): void {
+    this.world.clearHostiles()
+  }
+
 
   // ===== Safe Room =====
   private setupSafeRoom(): void {
@@ -763,6 +1215,15 @@ export class MainScene extends Phaser.Scene {
       this.terminal = undefined
     }
 
+    // Wardrobe (top-left corner)
+    const wardrobe = this.add.container(0, 0)
+    const cabinet = this.add.rectangle(0, 0, this.wardrobeSize.w, this.wardrobeSize.h, 0x4a3424, 1).setStrokeStyle(2, 0x7c5a3c)
+    const seam = this.add.rectangle(0, 0, 2, this.wardrobeSize.h - 8, 0x2e2017, 1)
+    const knobL = this.add.circle(-5, 2, 2, 0xfde68a, 1)
+    const knobR = this.add.circle(5, 2, 2, 0xfde68a, 1)
+    wardrobe.add([cabinet, seam, knobL, knobR])
+    this.wardrobe = wardrobe
+
     // Training dummies (spawn arbitrary; layout will line them up)
     for (let i = 0; i < 3; i++) this.spawnDummy(0, 0)
 
@@ -788,17 +1249,17 @@ export class MainScene extends Phaser.Scene {
       const circle = new Phaser.Geom.Circle(this.player.x, this.player.y, PLAYER_RADIUS)
       const rect = new Phaser.Geom.Rectangle(rx, ry, rw, rh)
       if (Phaser.Geom.Intersects.CircleToRectangle(circle, rect)) {
+        audio.play('portal')
         this.safeMode = false
         this.portal.destroy(); this.portal = undefined
         this.terminal?.destroy(); this.terminal = undefined
+        this.wardrobe?.destroy(); this.wardrobe = undefined
         if (this.bed) { this.bed.destroy(); this.bed = undefined }
         for (const d of this.dummies) d.g.destroy(); this.dummies = []
         this.vaultLayer?.destroy(); this.vaultLayer = undefined
         // Show HUD
-        this.hpText.setVisible(true)
-        this.levelText.setVisible(true)
-        this.remainingText.setVisible(true)
-        this.statusText.setVisible(true)
+        this.setHudVisible(true)
+        this.beginRun()
         this.startLevel(1)
         return
       }
@@ -807,15 +1268,23 @@ export class MainScene extends Phaser.Scene {
     if (!this.panelOpen && this.terminal) {
       const dx = this.player.x - this.terminal.x
       const dy = this.player.y - this.terminal.y
-      if (dx * dx + dy * dy <= (this.terminalRadius + PLAYER_RADIUS) * (this.terminalRadius + PLAYER_RADIUS)) {
-        this.openMetaPanel()
-      }
+      const near = dx * dx + dy * dy <= (this.terminalRadius + PLAYER_RADIUS) * (this.terminalRadius + PLAYER_RADIUS)
+      if (near && this.terminalArmed) this.openMetaPanel()
+      else if (!near) this.terminalArmed = true
+    }
+    // Wardrobe proximity → edit this character's look and name
+    if (!this.panelOpen && this.wardrobe && this.slotId) {
+      const dx = this.player.x - this.wardrobe.x
+      const dy = this.player.y - this.wardrobe.y
+      const near = dx * dx + dy * dy <= (this.wardrobeRadius + PLAYER_RADIUS) * (this.wardrobeRadius + PLAYER_RADIUS)
+      if (near && this.wardrobeArmed && !this.isInputLocked()) this.scene.start('CharacterBuilderScene', { slotId: this.slotId, returnTo: 'MainScene' })
+      else if (!near) this.wardrobeArmed = true
     }
   }
 
   private spawnDummy(x: number, y: number): void {
     const cont = this.add.container(x, y)
-    const body = this.add.circle(0, 0, 18, 0xcccccc, 1).setStrokeStyle(2, 0x94a3b8)
+    const body = this.add.image(0, 0, DUMMY_TEXTURE)
     const hpBarBg = this.add.rectangle(0, -26, 28, 5, 0x334155).setOrigin(0.5)
     const hpBar = this.add.rectangle(0, -26, 28, 5, 0x22c55e).setOrigin(0.5)
     cont.add([body, hpBarBg, hpBar])
@@ -827,6 +1296,7 @@ export class MainScene extends Phaser.Scene {
 
   private damageDummy(d: { g: Phaser.GameObjects.Container; hp: number; maxHp: number; x: number; y: number }, amt: number): void {
     d.hp = Math.max(0, d.hp - amt)
+    audio.play('dummyHit')
     const bar = (d.g as any)._hpBar as Phaser.GameObjects.Rectangle
     bar.width = (28 * d.hp) / d.maxHp
     if (d.hp <= 0) {
@@ -862,6 +1332,7 @@ export class MainScene extends Phaser.Scene {
       const bedPos = { x: this.bed.x, y: this.bed.y }
       this.terminal.setPosition(bedPos.x + 200, bedPos.y + 6)
     }
+    if (this.wardrobe) this.wardrobe.setPosition(left + 40, top + 40)
 
     // Line up dummies in bottom-left corner, vertically
     if (this.dummies.length > 0) {
@@ -895,10 +1366,9 @@ export class MainScene extends Phaser.Scene {
     for (const c of candidates) {
       const cl = this.clampToScreen(c.x, c.y)
       const sep = this.resolveOverlap(cl.x, cl.y)
-      const wc = this.worldToCell(sep.x, sep.y)
+      const wc = this.grid ? nav.worldToCell(this.grid, sep.x, sep.y) : null
       if (!wc || !this.grid) { this.player.setPosition(sep.x, sep.y); return }
-      const idx = wc.r * this.grid.cols + wc.c
-      if (this.grid.block[idx] === 0) {
+      if (nav.isCellFree(this.grid, wc.c, wc.r)) {
         this.player.setPosition(sep.x, sep.y)
         return
       }
@@ -972,167 +1442,40 @@ export class MainScene extends Phaser.Scene {
     g.fillRect(innerX + innerW + t - t, innerY + innerH + t - brace, t, brace)
   }
 
-  private segmentHitsObstacle(x1: number, y1: number, x2: number, y2: number): boolean {
-    if (!this.safeMode) return false
-    const line = new Phaser.Geom.Line(x1, y1, x2, y2)
-    // Bed
-    if (this.bed && this.lineHitsRectInflated(line, this.bed.x, this.bed.y, this.bedSize.w, this.bedSize.h)) return true
-    // Terminal
-    if (this.terminal && this.lineHitsRectInflated(line, this.terminal.x, this.terminal.y, this.terminalSize.w, this.terminalSize.h)) return true
-    // Dummies
-    for (const d of this.dummies) {
-      const circle = new Phaser.Geom.Circle(d.x, d.y, this.dummyColliderRadius + PLAYER_RADIUS)
-      if (Phaser.Geom.Intersects.LineToCircle(line, circle)) return true
-    }
-    return false
+  // Safe Room colliders; the nav helpers inflate them by the player radius
+  private safeObstacles(): nav.Obstacle[] {
+    if (!this.safeMode) return []
+    const out: nav.Obstacle[] = []
+    if (this.bed) out.push({ kind: 'rect', x: this.bed.x, y: this.bed.y, w: this.bedSize.w, h: this.bedSize.h })
+    if (this.terminal) out.push({ kind: 'rect', x: this.terminal.x, y: this.terminal.y, w: this.terminalSize.w, h: this.terminalSize.h })
+    if (this.wardrobe) out.push({ kind: 'rect', x: this.wardrobe.x, y: this.wardrobe.y, w: this.wardrobeSize.w, h: this.wardrobeSize.h })
+    for (const d of this.dummies) out.push({ kind: 'circle', x: d.x, y: d.y, r: this.dummyColliderRadius })
+    return out
   }
 
-  private lineHitsRectInflated(line: Phaser.Geom.Line, cx: number, cy: number, w: number, h: number): boolean {
-    const rect = new Phaser.Geom.Rectangle(cx - w / 2 - PLAYER_RADIUS, cy - h / 2 - PLAYER_RADIUS, w + PLAYER_RADIUS * 2, h + PLAYER_RADIUS * 2)
-    return Phaser.Geom.Intersects.LineToRectangle(line, rect)
+  private segmentHitsObstacle(x1: number, y1: number, x2: number, y2: number): boolean {
+    return nav.segmentBlocked(this.safeObstacles(), PLAYER_RADIUS, x1, y1, x2, y2)
   }
 
   // ===== Nav Grid + Pathfinding (Safe Room) =====
   private buildNavGrid(): void {
     if (!this.safeMode) { this.grid = undefined; return }
     const cell = Math.max(16, Math.min(48, this.gridSize))
-    const ox = this.roomMargin
-    const oy = this.roomMargin
-    const iw = this.scale.width - this.roomMargin * 2
-    const ih = this.scale.height - this.roomMargin * 2
-    const cols = Math.max(2, Math.floor(iw / cell))
-    const rows = Math.max(2, Math.floor(ih / cell))
-    const block = new Uint8Array(cols * rows)
-
-    const isBlocked = (wx: number, wy: number): boolean => {
-      if (this.bed && this.pointInRectInflated(wx, wy, this.bed.x, this.bed.y, this.bedSize.w, this.bedSize.h)) return true
-      if (this.terminal && this.pointInRectInflated(wx, wy, this.terminal.x, this.terminal.y, this.terminalSize.w, this.terminalSize.h)) return true
-      for (const d of this.dummies) {
-        const R = this.dummyColliderRadius + PLAYER_RADIUS
-        if (Phaser.Math.Distance.Between(wx, wy, d.x, d.y) < R) return true
-      }
-      return false
-    }
-
-    for (let r = 0; r < rows; r++) {
-      for (let c = 0; c < cols; c++) {
-        const wx = ox + c * cell + cell / 2
-        const wy = oy + r * cell + cell / 2
-        const idx = r * cols + c
-        block[idx] = isBlocked(wx, wy) ? 1 : 0
-      }
-    }
-    this.grid = { originX: ox, originY: oy, cols, rows, cell, block }
-  }
-
-  private worldToCell(x: number, y: number): { c: number; r: number } | null {
-    if (!this.grid) return null
-    const { originX: ox, originY: oy, cols, rows, cell } = this.grid
-    const cx = Math.floor((x - ox) / cell)
-    const cy = Math.floor((y - oy) / cell)
-    if (cx < 0 || cy < 0 || cx >= cols || cy >= rows) return null
-    return { c: cx, r: cy }
-  }
-
-  private cellToWorld(c: number, r: number): { x: number; y: number } {
-    const g = this.grid!
-    return { x: g.originX + c * g.cell + g.cell / 2, y: g.originY + r * g.cell + g.cell / 2 }
+    const m = this.roomMargin
+    const area = { x: m, y: m, w: this.scale.width - m * 2, h: this.scale.height - m * 2 }
+    this.grid = nav.buildNavGrid(area, cell, this.safeObstacles(), PLAYER_RADIUS)
   }
 
   private findPath(sx: number, sy: number, tx: number, ty: number): Array<{ x: number; y: number }> | null {
     if (!this.grid) return null
-    const g = this.grid
-    const start = this.worldToCell(sx, sy)
-    let goal = this.worldToCell(tx, ty)
-    if (!start || !goal) return null
-
-    const isFree = (c: number, r: number) => g!.block[r * g!.cols + c] === 0
-    if (!isFree(goal.c, goal.r)) {
-      let found = false
-      for (let rad = 1; rad < Math.max(g.cols, g.rows) && !found; rad++) {
-        for (let dr = -rad; dr <= rad; dr++) {
-          for (let dc = -rad; dc <= rad; dc++) {
-            const nc: number = goal.c + dc
-            const nr: number = goal.r + dr
-            if (nc < 0 || nr < 0 || nc >= g.cols || nr >= g.rows) continue
-            if (isFree(nc, nr)) { goal = { c: nc, r: nr }; found = true; break }
-          }
-          if (found) break
-        }
-      }
-      if (!found) return null
-    }
-
-    const cols = g.cols, rows = g.rows
-    const open: number[] = []
-    const came = new Int32Array(cols * rows).fill(-1)
-    const gScore = new Float32Array(cols * rows).fill(Infinity)
-    const fScore = new Float32Array(cols * rows).fill(Infinity)
-
-    const idx = (c: number, r: number) => r * cols + c
-    const h = (c: number, r: number) => Math.hypot(c - goal.c, r - goal.r)
-    const pushOpen = (i: number) => { open.push(i) }
-    const popLowest = () => { let bi = 0, bv = Infinity; for (let i = 0; i < open.length; i++) { const id = open[i]; const v = fScore[id]; if (v < bv) { bv = v; bi = i } } const id = open[bi]; open.splice(bi, 1); return id }
-    const inOpen = (i: number) => open.indexOf(i) >= 0
-
-    const sIdx = idx(start.c, start.r)
-    gScore[sIdx] = 0
-    fScore[sIdx] = h(start.c, start.r)
-    pushOpen(sIdx)
-
-    const dirs = [ [1,0],[-1,0],[0,1],[0,-1],[1,1],[1,-1],[-1,1],[-1,-1] ] as const
-
-    while (open.length > 0) {
-      const current = popLowest()
-      const cr = Math.floor(current / cols)
-      const cc = current % cols
-      if (cc === goal.c && cr === goal.r) {
-        const path: Array<{ x: number; y: number }> = []
-        let cur = current
-        while (cur !== -1) {
-          const r = Math.floor(cur / cols), c = cur % cols
-          path.push(this.cellToWorld(c, r))
-          cur = came[cur]
-        }
-        path.reverse()
-        return this.smoothPath(path)
-      }
-      for (const [dc, dr] of dirs) {
-        const nc = cc + dc, nr = cr + dr
-        if (nc < 0 || nr < 0 || nc >= cols || nr >= rows) continue
-        if (g.block[idx(nc, nr)] === 1) continue
-        if (dc !== 0 && dr !== 0) { if (g.block[idx(cc + dc, cr)] === 1 || g.block[idx(cc, cr + dr)] === 1) continue }
-        const nid = idx(nc, nr)
-        const tentative = gScore[current] + Math.hypot(dc, dr)
-        if (tentative < gScore[nid]) { came[nid] = current; gScore[nid] = tentative; fScore[nid] = tentative + h(nc, nr); if (!inOpen(nid)) pushOpen(nid) }
-      }
-    }
-    return null
-  }
-
-  private smoothPath(path: Array<{ x: number; y: number }>): Array<{ x: number; y: number }> {
-    if (path.length <= 2) return path
-    const out: Array<{ x: number; y: number }> = [path[0]]
-    let i = 0
-    while (i < path.length - 1) {
-      let j = path.length - 1
-      for (; j > i + 1; j--) {
-        if (this.segmentClear(out[out.length - 1].x, out[out.length - 1].y, path[j].x, path[j].y)) break
-      }
-      out.push(path[j])
-      i = j
-    }
-    return out
-  }
-
-  private segmentClear(x1: number, y1: number, x2: number, y2: number): boolean {
-    return !this.segmentHitsObstacle(x1, y1, x2, y2)
+    return nav.findPath(this.grid, sx, sy, tx, ty, (x1, y1, x2, y2) => !this.segmentHitsObstacle(x1, y1, x2, y2))
   }
 
   // ===== Dev UI / Debug =====
   private installDevShortcuts(): void {
-    this.input.keyboard?.on('keydown-BACKTICK', () => this.toggleDevUI())
-    this.input.keyboard?.on('keydown-P', () => { this.showDebug = !this.showDebug; this.refreshDebug() })
+    this.actions
+      .on('devPanel', () => this.toggleDevUI())
+      .on('debugDraw', () => { this.showDebug = !this.showDebug; this.refreshDebug() })
   }
 
   private toggleDevUI(): void {
@@ -1173,6 +1516,7 @@ export class MainScene extends Phaser.Scene {
     g.lineStyle(1, 0xf97316, 0.8)
     if (this.bed) g.strokeRect(this.bed.x - this.bedSize.w / 2 - PLAYER_RADIUS, this.bed.y - this.bedSize.h / 2 - PLAYER_RADIUS, this.bedSize.w + PLAYER_RADIUS * 2, this.bedSize.h + PLAYER_RADIUS * 2)
     if (this.terminal) g.strokeRect(this.terminal.x - this.terminalSize.w / 2 - PLAYER_RADIUS, this.terminal.y - this.terminalSize.h / 2 - PLAYER_RADIUS, this.terminalSize.w + PLAYER_RADIUS * 2, this.terminalSize.h + PLAYER_RADIUS * 2)
+    if (this.wardrobe) g.strokeRect(this.wardrobe.x - this.wardrobeSize.w / 2 - PLAYER_RADIUS, this.wardrobe.y - this.wardrobeSize.h / 2 - PLAYER_RADIUS, this.wardrobeSize.w + PLAYER_RADIUS * 2, this.wardrobeSize.h + PLAYER_RADIUS * 2)
     for (const d of this.dummies) g.strokeCircle(d.x, d.y, this.dummyColliderRadius + PLAYER_RADIUS)
     // Draw nav grid
     if (this.grid) {
@@ -1204,7 +1548,7 @@ export class MainScene extends Phaser.Scene {
     this.showPath = enable && this.showPath // keep current preference; default off unless enabled
     if (enable) {
       if (!this.debugText) {
-        this.debugText = this.add.text(12, 96, '', { fontSize: '12px', fontFamily: 'monospace', color: '#94a3b8' }).setDepth(50)
+        this.debugText = this.add.text(12, 116, '', { fontSize: '12px', fontFamily: 'monospace', color: '#94a3b8' }).setDepth(50)
       }
       this.refreshDebug()
     } else {
@@ -1287,6 +1631,8 @@ export class MainScene extends Phaser.Scene {
 
   private resetDashState(): void {
     this.dashTween?.stop(); this.dashTween = undefined
+    this.combatDash = undefined
+    this.burst = undefined
     this.route = []; this.routeIndex = 0
     this.dashing = false; this.canDash = true
   }
@@ -1432,126 +1778,18 @@ export class MainScene extends Phaser.Scene {
     this.dashTo(targetX, targetY, () => this.onDashEnd())
   }
 
-  private raycastFirstObstacle(sx: number, sy: number, tx: number, ty: number): { x: number; y: number; nx: number; ny: number } | null {
+  private raycastFirstObstacle(sx: number, sy: number, tx: number, ty: number): nav.RayHit | null {
     if (!this.safeMode) return null
-    const dx = tx - sx
-    const dy = ty - sy
-    let bestT = Infinity
-    let out: { x: number; y: number; nx: number; ny: number } | null = null
-
-    // Rect helpers
-    const testRect = (cx: number, cy: number, w: number, h: number) => {
-      const w2 = w / 2 + PLAYER_RADIUS
-      const h2 = h / 2 + PLAYER_RADIUS
-      const minX = cx - w2, maxX = cx + w2
-      const minY = cy - h2, maxY = cy + h2
-      const invDx = dx !== 0 ? 1 / dx : Number.POSITIVE_INFINITY
-      const invDy = dy !== 0 ? 1 / dy : Number.POSITIVE_INFINITY
-      const t1 = (minX - sx) * invDx
-      const t2 = (maxX - sx) * invDx
-      const t3 = (minY - sy) * invDy
-      const t4 = (maxY - sy) * invDy
-      const tNearX = Math.min(t1, t2)
-      const tFarX = Math.max(t1, t2)
-      const tNearY = Math.min(t3, t4)
-      const tFarY = Math.max(t3, t4)
-      const tNear = Math.max(tNearX, tNearY)
-      const tFar = Math.min(tFarX, tFarY)
-      if (tFar < 0 || tNear > tFar) return
-      const tHit = tNear
-      if (tHit <= 0 || tHit >= 1) return
-      let nx = 0, ny = 0
-      if (tNearX > tNearY) nx = (dx > 0 ? -1 : 1)
-      else ny = (dy > 0 ? -1 : 1)
-      if (tHit < bestT) { bestT = tHit; out = { x: sx + dx * tHit, y: sy + dy * tHit, nx, ny } }
-    }
-
-    // Circle helper
-    const testCircle = (cx: number, cy: number, r: number) => {
-      const R = r + PLAYER_RADIUS
-      const ox = sx - cx
-      const oy = sy - cy
-      const a = dx * dx + dy * dy
-      const b = 2 * (ox * dx + oy * dy)
-      const c = ox * ox + oy * oy - R * R
-      const disc = b * b - 4 * a * c
-      if (disc < 0 || a === 0) return
-      const sqrt = Math.sqrt(disc)
-      const t0 = (-b - sqrt) / (2 * a)
-      const t1 = (-b + sqrt) / (2 * a)
-      const tHit = t0 > 0 ? t0 : t1
-      if (tHit <= 0 || tHit >= 1) return
-      const hx = sx + dx * tHit
-      const hy = sy + dy * tHit
-      const nx = (hx - cx) / (R || 1)
-      const ny = (hy - cy) / (R || 1)
-      if (tHit < bestT) { bestT = tHit; out = { x: hx, y: hy, nx, ny } }
-    }
-
-    // Bed
-    if (this.bed) testRect(this.bed.x, this.bed.y, this.bedSize.w, this.bedSize.h)
-    // Terminal
-    if (this.terminal) testRect(this.terminal.x, this.terminal.y, this.terminalSize.w, this.terminalSize.h)
-    // Dummies
-    for (const d of this.dummies) testCircle(d.x, d.y, this.dummyColliderRadius)
-
-    return out
+    return nav.raycast(this.safeObstacles(), PLAYER_RADIUS, sx, sy, tx, ty)
   }
 
   private resolveOverlap(x: number, y: number): { x: number; y: number; moved: boolean } {
     // Push the point out of any overlapping colliders in the safe room
     if (!this.safeMode) return { x, y, moved: false }
-    let px = x, py = y
-    let moved = false
-    const push = 6
-    // Bed
-    if (this.bed && this.pointInRectInflated(px, py, this.bed.x, this.bed.y, this.bedSize.w, this.bedSize.h)) {
-      const dx = px - this.bed.x
-      const dy = py - this.bed.y
-      const w2 = this.bedSize.w / 2 + PLAYER_RADIUS
-      const h2 = this.bedSize.h / 2 + PLAYER_RADIUS
-      const sx = dx >= 0 ? 1 : -1
-      const sy = dy >= 0 ? 1 : -1
-      if (Math.abs(w2 - Math.abs(dx)) < Math.abs(h2 - Math.abs(dy))) px = this.bed.x + sx * (w2 + push)
-      else py = this.bed.y + sy * (h2 + push)
-      moved = true
-    }
-    // Terminal
-    if (this.terminal && this.pointInRectInflated(px, py, this.terminal.x, this.terminal.y, this.terminalSize.w, this.terminalSize.h)) {
-      const dx = px - this.terminal.x
-      const dy = py - this.terminal.y
-      const w2 = this.terminalSize.w / 2 + PLAYER_RADIUS
-      const h2 = this.terminalSize.h / 2 + PLAYER_RADIUS
-      const sx = dx >= 0 ? 1 : -1
-      const sy = dy >= 0 ? 1 : -1
-      if (Math.abs(w2 - Math.abs(dx)) < Math.abs(h2 - Math.abs(dy))) px = this.terminal.x + sx * (w2 + push)
-      else py = this.terminal.y + sy * (h2 + push)
-      moved = true
-    }
-    // Dummies
-    for (const d of this.dummies) {
-      const R = this.dummyColliderRadius + PLAYER_RADIUS
-      const dx = px - d.x
-      const dy = py - d.y
-      const dist = Math.hypot(dx, dy)
-      if (dist < R) {
-        const nx = (dx || 1) / (dist || 1)
-        const ny = (dy || 0) / (dist || 1)
-        px = d.x + nx * (R + push)
-        py = d.y + ny * (R + push)
-        moved = true
-      }
-    }
+    const sep = nav.resolveOverlap(this.safeObstacles(), PLAYER_RADIUS, x, y)
     // Clamp to room
-    const c = this.clampToScreen(px, py)
-    if (c.x !== px || c.y !== py) moved = true
-    return { x: c.x, y: c.y, moved }
-  }
-
-  private pointInRectInflated(x: number, y: number, cx: number, cy: number, w: number, h: number): boolean {
-    const w2 = w / 2 + PLAYER_RADIUS
-    const h2 = h / 2 + PLAYER_RADIUS
-    return x >= cx - w2 && x <= cx + w2 && y >= cy - h2 && y <= cy + h2
+    const c = this.clampToScreen(sep.x, sep.y)
+    return { x: c.x, y: c.y, moved: sep.moved || c.x !== sep.x || c.y !== sep.y }
   }
 
   private openMetaPanel(): void {
@@ -1562,62 +1800,105 @@ export class MainScene extends Phaser.Scene {
     // Dim background scrim
     const scrim = this.add.rectangle(0, 0, this.scale.width, this.scale.height, 0x0b1220, 0.6)
     scrim.setInteractive() // swallow clicks
-    const bg = this.add.rectangle(0, 0, Math.min(560, this.scale.width - 80), 360, 0x0b1220, 0.96).setStrokeStyle(2, 0x3b82f6)
+    const bg = this.add.rectangle(0, 0, Math.min(720, this.scale.width - 80), 360, 0x0b1220, 0.96).setStrokeStyle(2, 0x3b82f6)
     const title = this.add.text(-bg.width / 2 + 16, -bg.height / 2 + 12, 'Upgrade Terminal', { fontFamily: 'monospace', fontSize: '18px', color: '#cbd5e1' })
     const cores = this.add.text(bg.width / 2 - 16, -bg.height / 2 + 12, this.metaText(), { fontFamily: 'monospace', fontSize: '16px', color: '#a7f3d0' }).setOrigin(1, 0)
-    const hint = this.add.text(0, bg.height / 2 - 14, 'Press [E] or [Esc] to close', { fontFamily: 'monospace', fontSize: '12px', color: '#64748b' }).setOrigin(0.5, 1)
-    const rowsCont = this.add.container(0, 0)
-    cont.add([scrim, bg, title, cores, hint, rowsCont])
-
-    const addRow = (y: number, label: string, desc: string, cost: number, apply: () => boolean, enabled = true) => {
-      const color = enabled ? '#e2e8f0' : '#64748b'
-      const l = this.add.text(-bg.width / 2 + 16, y, label, { fontFamily: 'monospace', fontSize: '16px', color })
-      const d = this.add.text(-bg.width / 2 + 16, y + 18, desc, { fontFamily: 'monospace', fontSize: '12px', color: '#94a3b8' })
-      const btnLabel = enabled ? `[ Buy ${cost} ]` : `[ Locked ]`
-      const b = this.add.text(bg.width / 2 - 16, y + 9, btnLabel, { fontFamily: 'monospace', fontSize: '16px', color: enabled ? '#a7f3d0' : '#64748b' }).setOrigin(1, 0)
-      if (enabled) b.setInteractive({ useHandCursor: true }).on('pointerdown', () => { if (apply()) { cores.setText(this.metaText()); renderRows() } })
-      rowsCont.add([l, d, b])
-    }
+    const hint = this.add.text(0, bg.height / 2 - 14, `Click or press [Enter] to buy • Arrows/D-pad move • [${this.inputHint('closePanel')}] or [Esc] to close`, { fontFamily: 'monospace', fontSize: '12px', color: '#64748b' }).setOrigin(0.5, 1)
+    const treeCont = this.add.container(0, 0)
+    cont.add([scrim, bg, title, cores, hint, treeCont])
+
+    const nodeW = 190
+    const nodeH = 58
+    const rowH = 80
+
+    // Layout: one column per branch, rows by prerequisite depth
+    const layout = new Map<string, { x: number; y: number; node: UpgradeNode }>()
+    const colW = bg.width / UPGRADE_BRANCHES.length
+    let maxRows = 0
+    UPGRADE_BRANCHES.forEach((branch, col) => {
+      const nodes = UPGRADE_CATALOG.filter(n => n.branch === branch.id)
+        .map(n => ({ n, depth: upgradeDepth(n) }))
+        .sort((a, b) => a.depth - b.depth)
+      const x = -bg.width / 2 + colW * col + colW / 2
+      nodes.forEach(({ n }, row) => layout.set(n.id, { x, y: row * rowH, node: n }))
+      maxRows = Math.max(maxRows, nodes.length)
+    })
+
+    // Size the panel to the tallest branch
+    const contentH = 48 + 28 + maxRows * rowH + 28
+    bg.setSize(bg.width, Math.min(this.scale.height - 40, Math.max(360, contentH)))
+    title.setY(-bg.height / 2 + 12)
+    cores.setY(-bg.height / 2 + 12)
+    hint.setY(bg.height / 2 - 14)
+    const treeTop = -bg.height / 2 + 48 + 28 + nodeH / 2
+
+    // Keyboard/gamepad focus moves between nodes; it survives re-renders by node id
+    const focus = new FocusNav(this)
+    focus.push([], () => close())
+    const renderTree = () => {
+      treeCont.removeAll(true)
+      const focusItems: FocusItem[] = []
+      const up = this.saveData?.meta?.upgrades ?? emptyUpgrades()
+      const coresHave = this.saveData?.meta?.cores ?? 0
+
+      UPGRADE_BRANCHES.forEach((branch, col) => {
+        const x = -bg.width / 2 + colW * col + colW / 2
+        treeCont.add(this.add.text(x, -bg.height / 2 + 48, branch.label, { fontFamily: 'monospace', fontSize: '14px', color: '#94a3b8' }).setOrigin(0.5, 0))
+      })
+
+      // Prerequisite links
+      const links = this.add.graphics()
+      treeCont.add(links)
+      for (const { x, y, node } of layout.values()) {
+        for (const req of node.requires ?? []) {
+          const from = layout.get(req.id)
+          if (!from) continue
+          const met = upgradeLevel(from.node, up) >= req.level
+          links.lineStyle(2, met ? 0x22c55e : 0x334155, 0.9)
+          links.beginPath()
+          links.moveTo(from.x, treeTop + from.y + nodeH / 2)
+          links.lineTo(x, treeTop + y - nodeH / 2)
+          links.strokePath()
+        }
+      }
 
-    const renderRows = () => {
-      // Clear previous rows from rows container
-      rowsCont.removeAll(true)
-      const up = this.getUpgrades()
-      let y = -bg.height / 2 + 48
-      // Branch A: Defense path
-      addRow(y, '+1 Max HP', 'Increase base max HP permanently', 2, () => this.trySpend('maxHp', 1, 2)); y += 48
-      const canRegen = (up.maxHp >= 2)
-      addRow(y, '+1 Heal on Clear', 'Heal when a level ends (req: +2 Max HP)', 3, () => this.trySpend('healOnClear', 1, 3), canRegen); y += 52
-
-      // Branch B: Offense path
-      addRow(y, '+5% Bullet Speed', 'Bullets travel faster', 2, () => this.trySpend('bulletSpeedPct', 5, 2)); y += 48
-      const canFireRate = (up.bulletSpeedPct >= 10)
-      addRow(y, '+10% Fire Rate', 'Shoot faster (req: +10% Bullet Speed)', 3, () => this.trySpend('fireRatePct', 10, 3), canFireRate); y += 48
-      const canPierce = (up.fireRatePct >= 10)
-      addRow(y, '+1 Bullet Pierce', 'Bullets pass through one extra enemy (req: +10% Fire Rate)', 4, () => this.trySpend('pierce', 1, 4), canPierce); y += 52
-
-      // Branch C: Mobility path
-      addRow(y, '+5% Dash Speed', 'Dash reaches target quicker', 2, () => this.trySpend('dashSpeedPct', 5, 2)); y += 48
-
-      // If content exceeds panel, expand height and reposition hint once
-      const contentBottom = y
-      const desiredHalf = Math.max(bg.height / 2, Math.min(this.scale.height / 2 - 40, contentBottom + 36))
-      if (desiredHalf > bg.height / 2) {
-        bg.setSize(bg.width, desiredHalf * 2)
-        // Reposition static elements relative to new height
-        title.setY(-bg.height / 2 + 12)
-        cores.setY(-bg.height / 2 + 12)
-        hint.setY(bg.height / 2 - 14)
+      for (const { x, y, node } of layout.values()) {
+        const level = upgradeLevel(node, up)
+        const unlocked = isUnlocked(node, up)
+        const maxed = isMaxed(node, up)
+        const cost = upgradeCost(node, level)
+        const affordable = unlocked && !maxed && coresHave >= cost
+        const stroke = maxed ? 0xfacc15 : affordable ? 0x22c55e : unlocked ? 0x3b82f6 : 0x334155
+        const ny = treeTop + y
+        const box = this.add.rectangle(x, ny, nodeW, nodeH, 0x111a2b, 1).setStrokeStyle(2, stroke)
+        const labelColor = unlocked ? '#e2e8f0' : '#64748b'
+        const l = this.add.text(x - nodeW / 2 + 8, ny - nodeH / 2 + 6, node.label, { fontFamily: 'monospace', fontSize: '14px', color: labelColor })
+        const lvText = maxed ? 'MAX' : `Lv ${level}/${node.maxLevel}`
+        const lv = this.add.text(x + nodeW / 2 - 8, ny - nodeH / 2 + 6, lvText, { fontFamily: 'monospace', fontSize: '12px', color: maxed ? '#facc15' : '#94a3b8' }).setOrigin(1, 0)
+        let status: string
+        if (maxed) status = node.desc
+        else if (!unlocked) status = 'Locked: ' + (node.requires ?? []).map(r => `${getUpgradeNode(r.id)?.label ?? r.id} Lv${r.level}`).join(', ')
+        else status = `[ Buy ${cost} ] ${node.desc}`
+        const d = this.add.text(x - nodeW / 2 + 8, ny - nodeH / 2 + 26, status, { fontFamily: 'monospace', fontSize: '11px', color: affordable ? '#a7f3d0' : '#94a3b8', wordWrap: { width: nodeW - 16 } })
+        const buy = () => { if (this.trySpend(node.id)) { cores.setText(this.metaText()); renderTree() } }
+        if (affordable) box.setInteractive({ useHandCursor: true }).on('pointerdown', buy)
+        focusItems.push({ target: box, activate: buy, key: node.id })
+        treeCont.add([box, l, lv, d])
       }
+      focus.setItems(focusItems)
     }
 
-    renderRows()
+    renderTree()
 
-    // Close only via keys (no click-to-close)
-    const close = () => { cont.destroy(); this.panelOpen = false }
+    // Close only via keys or B (no click-to-close)
+    const close = () => {
+      if (!this.panelOpen) return
+      this.actions.off('closePanel', close)
+      focus.destroy()
+      cont.destroy(); this.panelOpen = false; this.terminalArmed = false
+    }
     bg.setInteractive().on('pointerdown', (p: Phaser.Input.Pointer) => p.event.stopPropagation())
-    this.input.keyboard?.once('keydown-ESC', close)
-    this.input.keyboard?.once('keydown-E', close)
+    this.actions.on('closePanel', close)
     this.panel = cont
     this.panelOpen = true
   }
@@ -1627,15 +1908,21 @@ export class MainScene extends Phaser.Scene {
     return `Cores: ${cores}`
   }
 
-  private trySpend(key: 'maxHp' | 'bulletSpeedPct' | 'dashSpeedPct' | 'fireRatePct' | 'pierce' | 'healOnClear', amount: number, cost: number): boolean {
+  private trySpend(id: string): boolean {
     if (!this.slotId) return false
-    const data = loadSlot(this.slotId)
+    const node = getUpgradeNode(id)
+    if (!node) return false
+    const data = updateSlot(this.slotId, d => {
+      const up = d.meta.upgrades
+      if (!isUnlocked(node, up) || isMaxed(node, up)) return false
+      const cost = upgradeCost(node, upgradeLevel(node, up))
+      if ((d.meta.cores ?? 0) < cost) return false
+      d.meta.cores -= cost
+      up[id] = (up[id] ?? 0) + node.effect.perLevel
+    })
     if (!data) return false
-    if ((data.meta.cores ?? 0) < cost) return false
-    data.meta.cores -= cost
-    ;(data.meta.upgrades as any)[key] = ((data.meta.upgrades as any)[key] ?? 0) + amount
-    saveSlot(this.slotId, data)
     this.saveData = data
+    audio.play('purchase')
     this.refreshUpgrades()
     // If max HP increased, keep current HP bounded by new max
     this.hp = Math.min(this.hp, this.maxHp())
@@ -1643,33 +1930,37 @@ export class MainScene extends Phaser.Scene {
   }
 
   // ===== Meta helpers =====
-  private getUpgrades(): { maxHp: number; bulletSpeedPct: number; dashSpeedPct: number; fireRatePct: number; pierce: number; healOnClear: number } {
+  private getUpgrades(): PlayerStats {
     return this.upgradesCache
   }
 
-  private maxHp(): number { return PLAYER_MAX_HP + (this.upgradesCache.maxHp || 0) }
-  private getBulletSpeed(): number { return this.bulletSpeedCache }
-  private getDashSpeed(): number { return this.dashSpeedCache }
-  private getFireCooldownMs(): number { return this.fireCooldownMsCache }
-  private getPierce(): number { return this.upgradesCache.pierce || 0 }
+  private maxHp(): number { return this.statsCache.maxHp }
+  private getBulletSpeed(): number { return this.statsCache.bulletSpeed }
+  private getDashSpeed(): number { return this.statsCache.dashSpeed }
+  private getFireCooldownMs(): number { return this.statsCache.fireCooldownMs }
+  private getPierce(): number { return this.statsCache.pierce }
 
-  private refreshUpgrades(): void {
+  private refreshUpgrades(levels?: UpgradeLevels): void {
     const d = this.slotId ? (this.saveData ?? loadSlot(this.slotId)) : loadSave()
-    const u = (d?.meta?.upgrades as any) || {}
-    this.upgradesCache = {
-      maxHp: u.maxHp ?? 0,
-      bulletSpeedPct: u.bulletSpeedPct ?? 0,
-      dashSpeedPct: u.dashSpeedPct ?? 0,
-      fireRatePct: u.fireRatePct ?? 0,
-      pierce: u.pierce ?? 0,
-      healOnClear: u.healOnClear ?? 0
-    }
-    this.bulletSpeedCache = BULLET_SPEED * (1 + (this.upgradesCache.bulletSpeedPct || 0) / 100)
-    this.dashSpeedCache = DASH_SPEED * (1 + (this.upgradesCache.dashSpeedPct || 0) / 100)
-    const mult = 1 + (this.upgradesCache.fireRatePct || 0) / 100
-    this.fireCooldownMsCache = Math.max(20, Math.round(FIRE_COOLDOWN_MS / mult))
+    const upgrades = levels ?? d?.meta?.upgrades
+    this.upgradesCache = upgrades ? computeStats(upgrades) : emptyStats()
+    this.applyRunStats()
+  }
+
+  // Upgrades and run perks together; the world takes the parts it resolves itself
+  private applyRunStats(): void {
+    this.statsCache = combatStats(this.upgradesCache, this.perks)
+    this.world.killBlast = { radius: this.statsCache.blastRadius, damage: this.statsCache.blastDamage }
+  }
+
+  private resetPerks(): void {
+    this.closePerkDraft()
+    this.perks = {}
+    this.killsSinceHeal = 0
+    this.dashHits.clear()
+    this.applyRunStats()
   }
 
   // Central gate for input while menus are open
-  private isInputLocked(): boolean { return !!this.panelOpen }
+  private isInputLocked(): boolean { return !!this.panelOpen || !!this.summary }
 }
@@ -1,53 +1,352 @@
 import Phaser from 'phaser'
-import { listSlots, setCurrentSlot, deleteSlot, type SlotMeta } from '../state/save'
+import { checkSlot, deleteSlot, duplicateSlot, exportSlot, getSlotSort, importSave, listBackups, listSlots, markPlayed, renameSlot, restoreBackup, setCurrentSlot, setSlotSort, sortSlots, SLOT_SORTS, type SlotMeta, type SlotStatus } from '../state/save'
+import { deleteLastReplay, loadLastReplay, loadLastReplayText } from '../state/replays'
+import { onStorageFailure } from '../state/storage'
+import { parseReplay } from '../sim/replay'
+import { formatSeed } from '../sim/rng'
+import { TextField } from '../ui/TextField'
+import { CharacterSprite } from '../ui/CharacterSprite'
+import { FocusNav, type FocusItem } from '../ui/FocusNav'
+import { audio } from '../systems/Audio'
+
+// Slot list layout: rows scroll inside [LIST_TOP, height - LIST_BOTTOM_MARGIN]
+const LIST_TOP = 146
+const LIST_BOTTOM_MARGIN = 140
+const ROW_H = 88
+// Rows whose actions wrap grow by this much per extra line
+const ACTION_LINE_H = 24
+// Actions wrap before reaching this far right of centre (or the screen edge, whichever is nearer)
+const ROW_RIGHT = 410
+
+type TextStyle = Phaser.Types.GameObjects.Text.TextStyle
 
 export class SaveSelectScene extends Phaser.Scene {
   private slots: SlotMeta[] = []
+  private messageText?: Phaser.GameObjects.Text
+  private notice = ''
+  private list?: Phaser.GameObjects.Container
+  private scrollY = 0
+  private maxScroll = 0
+  private scrollThumb?: Phaser.GameObjects.Rectangle
+  private modal?: Phaser.GameObjects.Container
+  private renaming?: TextField
+  private nav!: FocusNav
+  // Focus order: slot rows first so a keyboard/gamepad player starts on the first slot
+  private rowItems: FocusItem[] = []
 
   constructor() { super('SaveSelectScene') }
 
+  init(data: { notice?: string; scroll?: number }): void {
+    this.notice = data?.notice ?? ''
+    this.scrollY = data?.scroll ?? 0
+    this.modal = undefined
+    this.renaming = undefined
+    this.rowItems = []
+  }
+
   create(): void {
     const cx = this.scale.width / 2
     const title = this.add.text(cx, 40, 'Save Slots', { fontSize: '28px', fontFamily: 'monospace', color: '#cbd5e1' }).setOrigin(0.5, 0)
     this.add.text(cx, 72, 'Select a save or create a new character', { fontSize: '14px', fontFamily: 'monospace', color: '#94a3b8' }).setOrigin(0.5, 0)
 
+    this.nav = new FocusNav(this)
+    const sortItems = this.buildSortBar(cx, 120)
     this.refreshList()
 
     const newBtn = this.add.text(cx, this.scale.height - 80, '[ New Character ]', { fontSize: '20px', fontFamily: 'monospace', color: '#a7f3d0' }).setOrigin(0.5, 0.5).setInteractive({ useHandCursor: true })
-    newBtn.on('pointerdown', () => this.scene.start('CharacterBuilderScene'))
+    const newChar = () => this.scene.start('CharacterBuilderScene')
+    newBtn.on('pointerdown', newChar)
+    const importSaveBtn = this.add.text(cx - 110, this.scale.height - 48, '[ Import Save ]', { fontSize: '16px', fontFamily: 'monospace', color: '#a7f3d0' }).setOrigin(0.5, 0.5).setInteractive({ useHandCursor: true })
+    importSaveBtn.on('pointerdown', () => this.importSaveFile())
+    const importBtn = this.add.text(cx + 110, this.scale.height - 48, '[ Import Replay ]', { fontSize: '16px', fontFamily: 'monospace', color: '#fde047' }).setOrigin(0.5, 0.5).setInteractive({ useHandCursor: true })
+    importBtn.on('pointerdown', () => this.importReplay())
+    this.nav.push([
+      ...this.rowItems,
+      ...sortItems,
+      { target: newBtn, activate: newChar },
+      { target: importSaveBtn, activate: () => this.importSaveFile() },
+      { target: importBtn, activate: () => this.importReplay() }
+    ])
+    this.messageText = this.add.text(cx, this.scale.height - 120, '', { fontSize: '14px', fontFamily: 'monospace', color: '#fca5a5' }).setOrigin(0.5, 0.5)
+    if (this.notice) this.messageText.setColor('#a7f3d0').setText(this.notice)
+    const offStorage = onStorageFailure(f => this.messageText?.setColor('#fca5a5').setText(f.quota ? 'Storage is full — free some space (delete old slots or replays)' : 'Could not write save data'))
+    this.events.once('shutdown', offStorage)
 
-    // Dev convenience: Esc goes back to Save Select from other scenes; here it does nothing
-    this.input.keyboard?.on('keydown-ESC', () => {})
+    this.input.on('wheel', (_p: Phaser.Input.Pointer, _over: unknown, _dx: number, dy: number) => { if (!this.modal) this.scrollTo(this.scrollY + dy * 0.5) })
 
+    // Audio stays silent until a gesture; the menu itself has no music
+    audio.unlockOnFirstGesture()
+    audio.stopMusic()
     // Ensure fullscreen activation on first gesture (some browsers require user action)
     const tryFS = () => { if (!this.scale.isFullscreen) { try { this.scale.startFullscreen() } catch {} } }
     this.input.once('pointerdown', tryFS)
     this.input.keyboard?.once('keydown', tryFS)
   }
 
+  private buildSortBar(cx: number, y: number): FocusItem[] {
+    const current = getSlotSort()
+    const sub: TextStyle = { fontSize: '14px', fontFamily: 'monospace', color: '#64748b' }
+    const label = this.add.text(0, 0, 'Sort:', sub).setOrigin(0, 0.5)
+    const parts: Phaser.GameObjects.Text[] = [label]
+    const items: FocusItem[] = []
+    let x = label.width + 10
+    for (const opt of SLOT_SORTS) {
+      const active = opt.id === current
+      const t = this.add.text(x, 0, active ? `[ ${opt.label} ]` : `  ${opt.label}  `, { ...sub, color: active ? '#a7f3d0' : '#94a3b8' }).setOrigin(0, 0.5)
+      const pick = () => { if (this.modal || this.renaming || active) return; setSlotSort(opt.id); this.reload() }
+      if (!active) t.setInteractive({ useHandCursor: true }).on('pointerdown', pick)
+      items.push({ target: t, activate: pick })
+      parts.push(t)
+      x += t.width + 6
+    }
+    this.add.container(cx - x / 2, y, parts)
+    return items
+  }
+
   private refreshList(): void {
     const cx = this.scale.width / 2
-    const startY = 130
-    const style = { fontSize: '18px', fontFamily: 'monospace', color: '#cbd5e1' as const }
-    const sub = { fontSize: '14px', fontFamily: 'monospace', color: '#94a3b8' as const }
-    this.slots = listSlots()
+    const sub: TextStyle = { fontSize: '14px', fontFamily: 'monospace', color: '#94a3b8' }
+    this.slots = sortSlots(listSlots(), getSlotSort())
     if (this.slots.length === 0) {
-      this.add.text(cx, startY, 'No saves yet', sub).setOrigin(0.5, 0)
+      this.add.text(cx, LIST_TOP, 'No saves yet', sub).setOrigin(0.5, 0)
       return
     }
-    let y = startY
+    // Validate every slot up front; corrupted ones get quarantined and flagged here
+    const statuses = this.slots.map(s => checkSlot(s.id))
+    const broken = statuses.filter(st => st.kind === 'corrupt').length
+    if (broken > 0) {
+      const msg = `⚠ ${broken} corrupted save${broken > 1 ? 's were' : ' was'} quarantined and can't be played`
+      this.add.text(cx, 96, msg, { ...sub, color: '#fca5a5' }).setOrigin(0.5, 0)
+    }
+    const list = this.add.container(cx, LIST_TOP)
+    let listH = 0
     this.slots.forEach((s, i) => {
-      const cont = this.add.container(cx, y)
-      const idx = i + 1
-      const label = this.add.text(-180, 0, `${idx}. ${s.name ?? 'Unnamed'}`, style).setOrigin(0, 0.5)
-      const created = new Date(s.createdAt).toLocaleString()
-      const subText = this.add.text(-180, 18, `Slot ${s.id} • Created ${created}`, sub).setOrigin(0, 0)
-      const btn = this.add.text(160, 0, '[ Continue ]', { ...style, color: '#a7f3d0' }).setOrigin(0.5, 0.5).setInteractive({ useHandCursor: true })
-      const del = this.add.text(280, 0, '[ Delete ]', { ...style, color: '#fca5a5' }).setOrigin(0.5, 0.5).setInteractive({ useHandCursor: true })
-      btn.on('pointerdown', () => { setCurrentSlot(s.id); this.scene.start('MainScene', { safeMode: true }) })
-      del.on('pointerdown', () => { deleteSlot(s.id); this.scene.restart() })
-      cont.add([label, subText, btn, del])
-      y += 60
+      const row = this.buildRow(s, statuses[i], i).setY(listH + 36)
+      list.add(row)
+      listH += ROW_H + (row.getData('extraLines') as number) * ACTION_LINE_H
+    })
+    this.list = list
+
+    // Rows outside the viewport are clipped; the wheel scrolls them into view
+    const viewH = this.scale.height - LIST_BOTTOM_MARGIN - LIST_TOP
+    const maskShape = this.make.graphics({}, false)
+    maskShape.fillStyle(0xffffff).fillRect(0, LIST_TOP, this.scale.width, viewH)
+    list.setMask(maskShape.createGeometryMask())
+    this.maxScroll = Math.max(0, listH - viewH)
+    if (this.maxScroll > 0) {
+      const x = Math.min(cx + 420, this.scale.width - 10)
+      this.add.rectangle(x, LIST_TOP, 4, viewH, 0x1f2937).setOrigin(0.5, 0)
+      const thumbH = Math.max(24, viewH * viewH / (viewH + this.maxScroll))
+      this.scrollThumb = this.add.rectangle(x, LIST_TOP, 4, thumbH, 0x64748b).setOrigin(0.5, 0)
+    }
+    this.scrollTo(this.scrollY)
+  }
+
+  private buildRow(s: SlotMeta, status: SlotStatus, i: number): Phaser.GameObjects.Container {
+    const style: TextStyle = { fontSize: '18px', fontFamily: 'monospace', color: '#cbd5e1' }
+    const sub: TextStyle = { fontSize: '14px', fontFamily: 'monospace', color: '#94a3b8' }
+    const row = this.add.container(0, 0)
+    const label = this.add.text(-262, -22, `${i + 1}. ${s.name ?? 'Unnamed'}`, style).setOrigin(0, 0.5)
+    let info: string
+    let infoColor = sub.color as string
+    if (status.kind === 'ok') {
+      const { meta, stats } = status.data
+      info = `Cores ${meta.cores} • Best level ${stats.bestLevel || '-'} • ${formatPlayTime(stats.playTimeMs)} played • Created ${new Date(s.createdAt).toLocaleDateString()}`
+      row.add(new CharacterSprite(this, -300, 2, status.data.appearance).setScale(1.2))
+    } else {
+      if (status.kind === 'future') { info = `Saved by a newer version (v${status.version}) • kept unchanged`; infoColor = '#fde047' }
+      else if (status.kind === 'corrupt') { info = `⚠ Corrupted: ${status.errors[0]}`; infoColor = '#fca5a5' }
+      else { info = 'Save data missing'; infoColor = '#fca5a5' }
+      label.setColor('#64748b')
+      row.add(this.add.text(-300, 0, '?', { ...style, fontSize: '28px', color: '#475569' }).setOrigin(0.5, 0.5))
+    }
+    row.add([label, this.add.text(-262, 0, info, { ...sub, color: infoColor }).setOrigin(0, 0.5)])
+
+    if (status.kind === 'ok') {
+      row.add(this.rowButton(190, -22, '[ Continue ]', { ...style, color: '#a7f3d0' }, () => {
+        markPlayed(s.id)
+        setCurrentSlot(s.id)
+        this.scene.start('MainScene', { safeMode: true })
+      }))
+    } else if (status.kind !== 'future' && listBackups(s.id).length > 0) {
+      // Broken or missing payloads can be rolled back to the newest backup that still loads
+      row.add(this.rowButton(130, -22, '[ Restore backup ]', { ...style, fontSize: '16px', color: '#fde047' }, () => {
+        const at = restoreBackup(s.id)
+        if (at === null) this.messageText?.setColor('#fca5a5').setText('No usable backup for this slot')
+        else this.reload(`Restored "${s.name ?? 'Unnamed'}" from ${new Date(at).toLocaleString()}`)
+      }))
+    }
+    row.add(this.rowButton(310, -22, '[ Delete ]', { ...style, color: '#fca5a5' }, () => {
+      this.confirm(`Delete "${s.name ?? 'Unnamed'}"?\nIts progress and last replay are removed for good.`, 'Delete', () => {
+        deleteSlot(s.id)
+        deleteLastReplay(s.id)
+        this.reload(`Deleted "${s.name ?? 'Unnamed'}"`)
+      })
+    }))
+
+    // Secondary actions flow left to right under the summary, wrapping before they leave the screen
+    const right = Math.min(ROW_RIGHT, this.scale.width / 2 - 12)
+    let x = -262, y = 24, extraLines = 0
+    const action = (text: string, color: string, onClick: () => void) => {
+      const b = this.rowButton(x, y, text, { ...sub, color }, onClick)
+      if (x > -262 && x + b.width > right) {
+        x = -262; y += ACTION_LINE_H; extraLines++
+        b.setPosition(x, y)
+      }
+      row.add(b)
+      x += b.width + 12
+    }
+    if (status.kind === 'ok') {
+      action('[ Edit ]', '#cbd5e1', () => this.scene.start('CharacterBuilderScene', { slotId: s.id }))
+      action('[ Rename ]', '#cbd5e1', () => this.startRename(s, row, label))
+      action('[ Duplicate ]', '#cbd5e1', () => {
+        const id = duplicateSlot(s.id)
+        if (id) this.reload(`Duplicated "${s.name ?? 'Unnamed'}"`)
+        else this.messageText?.setColor('#fca5a5').setText('Could not duplicate this slot')
+      })
+      action('[ Export save ]', '#a7f3d0', () => {
+        const text = exportSlot(s.id)
+        if (text) this.download(`save-${this.fileSafe(s.name ?? 'slot')}.json`, text)
+      })
+      action('[ Settings ]', '#cbd5e1', () => this.scene.start('SettingsScene', { slotId: s.id }))
+    }
+    // Most recent run of this slot, if one was recorded
+    const replay = loadLastReplay(s.id)
+    if (replay) {
+      action('[ Watch last run ]', '#fde047', () => this.scene.start('MainScene', { replay }))
+      action('[ Export replay ]', '#fde047', () => {
+        const text = loadLastReplayText(s.id)
+        if (text) this.download(`replay-${this.fileSafe(s.name ?? 'run')}-${formatSeed(replay.seed)}.json`, text)
+      })
+    }
+    row.setData('extraLines', extraLines)
+    return row
+  }
+
+  // List buttons ignore clicks on the clipped part of the list and while a dialog or rename is open.
+  // Each one is also a focus stop that scrolls itself into view.
+  private rowButton(x: number, y: number, text: string, style: TextStyle, onClick: () => void): Phaser.GameObjects.Text {
+    const b = this.add.text(x, y, text, style).setOrigin(0, 0.5).setInteractive({ useHandCursor: true })
+    const run = () => { if (!this.modal && !this.renaming) onClick() }
+    b.on('pointerdown', (p: Phaser.Input.Pointer) => {
+      if (p.y < LIST_TOP || p.y > this.scale.height - LIST_BOTTOM_MARGIN) return
+      run()
+    })
+    this.rowItems.push({ target: b, activate: run, onFocus: () => this.reveal(b) })
+    return b
+  }
+
+  private reveal(obj: Phaser.GameObjects.Text): void {
+    const b = obj.getBounds()
+    const bottom = this.scale.height - LIST_BOTTOM_MARGIN
+    if (b.top < LIST_TOP) this.scrollTo(this.scrollY - (LIST_TOP - b.top) - 12)
+    else if (b.bottom > bottom) this.scrollTo(this.scrollY + (b.bottom - bottom) + 12)
+  }
+
+  private scrollTo(y: number): void {
+    this.scrollY = Phaser.Math.Clamp(y, 0, this.maxScroll)
+    if (this.list) this.list.y = LIST_TOP - this.scrollY
+    if (this.scrollThumb) {
+      const viewH = this.scale.height - LIST_BOTTOM_MARGIN - LIST_TOP
+      this.scrollThumb.y = LIST_TOP + (viewH - this.scrollThumb.height) * (this.maxScroll > 0 ? this.scrollY / this.maxScroll : 0)
+    }
+  }
+
+  // Restart keeps the scroll position so actions don't jump the list back to the top
+  private reload(notice?: string): void {
+    this.scene.restart({ notice, scroll: this.scrollY })
+  }
+
+  // Swaps the slot's name label for the shared text field; Enter saves, Esc cancels
+  private startRename(s: SlotMeta, row: Phaser.GameObjects.Container, label: Phaser.GameObjects.Text): void {
+    label.setVisible(false)
+    // The field owns the keyboard until Enter or Esc
+    this.nav.enabled = false
+    const field = new TextField(this, label.x, label.y, s.name ?? '', {
+      width: 240,
+      onSubmit: value => {
+        const name = renameSlot(s.id, value)
+        if (name) this.reload(`Renamed to "${name}"`)
+        else this.messageText?.setColor('#fca5a5').setText('Could not rename this slot')
+      },
+      onCancel: () => {
+        field.destroy()
+        label.setVisible(true)
+        this.renaming = undefined
+        this.nav.enabled = true
+      }
     })
+    row.add(field)
+    this.renaming = field
+  }
+
+  private confirm(message: string, confirmLabel: string, onConfirm: () => void): void {
+    const { width, height } = this.scale
+    const shade = this.add.rectangle(0, 0, width, height, 0x000000, 0.6).setOrigin(0, 0).setInteractive()
+    const panel = this.add.rectangle(width / 2, height / 2, 460, 160, 0x0f172a, 1).setStrokeStyle(1, 0x64748b).setInteractive()
+    const text = this.add.text(width / 2, height / 2 - 28, message, { fontSize: '16px', fontFamily: 'monospace', color: '#cbd5e1', align: 'center', wordWrap: { width: 420 } }).setOrigin(0.5, 0.5)
+    const yes = this.add.text(width / 2 - 90, height / 2 + 44, `[ ${confirmLabel} ]`, { fontSize: '18px', fontFamily: 'monospace', color: '#fca5a5' }).setOrigin(0.5, 0.5).setInteractive({ useHandCursor: true })
+    const no = this.add.text(width / 2 + 90, height / 2 + 44, '[ Cancel ]', { fontSize: '18px', fontFamily: 'monospace', color: '#cbd5e1' }).setOrigin(0.5, 0.5).setInteractive({ useHandCursor: true })
+    this.modal = this.add.container(0, 0, [shade, panel, text, yes, no]).setDepth(100)
+    const accept = () => { this.closeModal(); onConfirm() }
+    shade.on('pointerdown', () => this.closeModal())
+    no.on('pointerdown', () => this.closeModal())
+    yes.on('pointerdown', accept)
+    // Focus starts on Cancel so a stray Enter doesn't confirm
+    this.nav.push([{ target: no, activate: () => this.closeModal() }, { target: yes, activate: accept }], () => this.closeModal())
+  }
+
+  private closeModal(): void {
+    if (!this.modal) return
+    this.modal.destroy()
+    this.modal = undefined
+    this.nav.pop()
   }
+
+  private fileSafe(name: string): string { return name.replace(/[^a-z0-9_-]+/gi, '_') }
+
+  private download(filename: string, text: string): void {
+    const url = URL.createObjectURL(new Blob([text], { type: 'application/json' }))
+    const a = document.createElement('a')
+    a.href = url
+    a.download = filename
+    a.click()
+    setTimeout(() => URL.revokeObjectURL(url), 0)
+  }
+
+  // Lets the player pick an exported save; it is added as a new slot
+  private importSaveFile(): void {
+    this.pickFile(text => {
+      const { name } = importSave(text)
+      this.scene.restart({ notice: `Imported "${name}" as a new slot` })
+    }, 'Could not read save file')
+  }
+
+  // Opens the browser file picker and plays back the chosen recording
+  private importReplay(): void {
+    this.pickFile(text => this.scene.start('MainScene', { replay: parseReplay(text) }), 'Could not read replay file')
+  }
+
+  private pickFile(onText: (text: string) => void, fallbackError: string): void {
+    const input = document.createElement('input')
+    input.type = 'file'
+    input.accept = '.json,application/json'
+    input.onchange = async () => {
+      const file = input.files?.[0]
+      if (!file) return
+      try {
+        onText(await file.text())
+      } catch (err) {
+        this.messageText?.setColor('#fca5a5').setText(err instanceof Error ? err.message : fallbackError)
+      }
+    }
+    input.click()
+  }
+}
+
+function formatPlayTime(ms: number): string {
+  const min = Math.floor(ms / 60000)
+  if (min < 1) return `${Math.floor(ms / 1000)}s`
+  if (min < 60) return `${min}m`
+  return `${Math.floor(min / 60)}h ${String(min % 60).padStart(2, '0')}m`
 }
@@ -0,0 +1,263 @@
+import Phaser from 'phaser'
+import { loadSlot, updateSlot, type MovementMode, type Settings } from '../state/save'
+import { ACTIONS, MAX_BINDINGS, RESERVED_INPUTS, bindingOverrides, defaultBindings, findConflict, inputLabel, rebind, resolveBindings, unbind, type ActionId, type Bindings } from '../data/controls'
+import { FocusNav, type FocusItem } from '../ui/FocusNav'
+import { audio } from '../systems/Audio'
+
+type TextStyle = Phaser.Types.GameObjects.Text.TextStyle
+type ReturnScene = 'MainScene' | 'SaveSelectScene'
+
+const LIST_TOP = 158
+// Rows shrink toward the minimum so the whole list fits above the buttons
+const ROW_H_MAX = 24
+const ROW_H_MIN = 17
+const BOTTOM_MARGIN = 120
+
+const MOVEMENT_LABELS: Record<MovementMode, string> = { dash: 'Click to dash', wasd: 'WASD + dash burst' }
+
+type VolumeKey = 'masterVolume' | 'musicVolume' | 'sfxVolume'
+const VOLUMES: Array<{ key: VolumeKey; label: string }> = [
+  { key: 'masterVolume', label: 'Master' },
+  { key: 'musicVolume', label: 'Music' },
+  { key: 'sfxVolume', label: 'SFX' }
+]
+const VOLUME_STEP = 0.1
+
+interface Capture {
+  action: ActionId
+  slot: number
+  // Input the player was warned about; pressing it again moves it to this action
+  conflict?: string
+}
+
+// Per-profile volumes, movement model and control remapping. Each action has a primary and alternate input; picking one that
+// another action uses warns first and moves it on a second press.
+export class SettingsScene extends Phaser.Scene {
+  private slotId = ''
+  private returnTo: ReturnScene = 'SaveSelectScene'
+  private bindings: Bindings = defaultBindings()
+  private movement: MovementMode = 'dash'
+  private movementText!: Phaser.GameObjects.Text
+  private volumes!: Pick<Settings, VolumeKey>
+  private volumeTexts = new Map<VolumeKey, Phaser.GameObjects.Text>()
+  private cells = new Map<string, Phaser.GameObjects.Text>()
+  private messageText!: Phaser.GameObjects.Text
+  private nav!: FocusNav
+  private capture?: Capture
+  // A click that was taken as a binding shouldn't also press whatever it was released over
+  private swallowClick = false
+  private readonly onCaptureKey = (e: KeyboardEvent) => this.captureInput(e.code, e)
+  private readonly onCapturePointer = (p: Phaser.Input.Pointer) => {
+    this.swallowClick = true
+    this.captureInput(`Mouse${p.button}`)
+  }
+
+  constructor() { super('SettingsScene') }
+
+  init(data: { slotId: string; returnTo?: ReturnScene }): void {
+    this.slotId = data.slotId
+    this.returnTo = data.returnTo ?? 'SaveSelectScene'
+    this.cells = new Map()
+    this.volumeTexts = new Map()
+    this.capture = undefined
+    this.swallowClick = false
+  }
+
+  create(): void {
+    const cx = this.scale.width / 2
+    const save = loadSlot(this.slotId)
+    if (!save) { this.leave(); return }
+    this.bindings = resolveBindings(save.settings.keyBindings)
+    this.movement = save.settings.movement
+    const { masterVolume, musicVolume, sfxVolume } = save.settings
+    this.volumes = { masterVolume, musicVolume, sfxVolume }
+    audio.setVolumes(this.volumes)
+    this.input.mouse?.disableContextMenu()
+
+    this.add.text(cx, 32, 'Settings', { fontSize: '28px', fontFamily: 'monospace', color: '#cbd5e1' }).setOrigin(0.5, 0)
+    this.add.text(cx, 66, `Settings for "${save.name}"`, { fontSize: '14px', fontFamily: 'monospace', color: '#94a3b8' }).setOrigin(0.5, 0)
+
+    this.nav = new FocusNav(this)
+    const movementItem = this.buildMovementRow(cx, 100)
+    const volumeItems = this.buildVolumeRow(cx, 128)
+    const items = this.buildList(cx)
+    const bottom = this.scale.height
+    this.messageText = this.add.text(cx, bottom - 96, 'Click a binding (or select it and press Enter), then press a key or mouse button', { fontSize: '14px', fontFamily: 'monospace', color: '#94a3b8', align: 'center' }).setOrigin(0.5, 0.5)
+    const reset = this.button(cx - 130, bottom - 52, '[ Reset controls ]', '#fde047', () => this.resetAll())
+    const back = this.button(cx + 130, bottom - 52, '[ Back ]', '#a7f3d0', () => this.leave())
+    this.nav.push([movementItem, ...volumeItems, ...items, { target: reset, activate: () => this.resetAll() }, { target: back, activate: () => this.leave() }], () => this.leave())
+
+    // Scene-level pointerup fires after the buttons' own handlers
+    this.input.on('pointerup', () => { this.swallowClick = false })
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, () => this.stopCapture())
+  }
+
+  private buildMovementRow(cx: number, y: number): FocusItem {
+    this.add.text(cx - 320, y, 'Movement', { fontSize: '16px', fontFamily: 'monospace', color: '#cbd5e1' }).setOrigin(0, 0.5)
+    this.movementText = this.add.text(cx + 40, y, '', { fontSize: '16px', fontFamily: 'monospace', color: '#a7f3d0' }).setOrigin(0, 0.5).setInteractive({ useHandCursor: true })
+    this.movementText.on('pointerup', () => { if (this.clickable()) this.toggleMovement() })
+    this.refreshMovement()
+    return { target: this.movementText, activate: () => this.toggleMovement(), adjust: () => this.toggleMovement() }
+  }
+
+  private toggleMovement(): void {
+    const next: MovementMode = this.movement === 'dash' ? 'wasd' : 'dash'
+    const saved = updateSlot(this.slotId, d => { d.settings.movement = next })
+    if (!saved) { this.message('Could not save settings', '#fca5a5'); return }
+    this.movement = next
+    this.refreshMovement()
+    this.message(next === 'wasd' ? 'Walk with the movement keys; dash bursts the way you walk (or toward the cursor)' : 'Click to dash to the cursor', '#a7f3d0')
+  }
+
+  private refreshMovement(): void {
+    this.movementText.setText(`< ${MOVEMENT_LABELS[this.movement]} >`)
+  }
+
+  // Master/Music/SFX on one line; click the left or right half of a value (or use left/right) to change it
+  private buildVolumeRow(cx: number, y: number): FocusItem[] {
+    const style: TextStyle = { fontSize: '16px', fontFamily: 'monospace', color: '#cbd5e1' }
+    this.add.text(cx - 320, y, 'Volume', style).setOrigin(0, 0.5)
+    let x = cx - 180
+    return VOLUMES.map(({ key, label }) => {
+      const name = this.add.text(x, y, label, { ...style, color: '#94a3b8' }).setOrigin(0, 0.5)
+      const value = this.add.text(name.x + name.width + 8, y, '', { ...style, color: '#a7f3d0' }).setOrigin(0, 0.5).setInteractive({ useHandCursor: true })
+      value.on('pointerup', (p: Phaser.Input.Pointer) => {
+        if (this.clickable()) this.adjustVolume(key, p.x < value.getCenter().x! ? -1 : 1)
+      })
+      this.volumeTexts.set(key, value)
+      this.refreshVolume(key)
+      x = value.x + value.width + 36
+      return { target: value, adjust: dir => this.adjustVolume(key, dir), activate: () => this.adjustVolume(key, 1) }
+    })
+  }
+
+  private adjustVolume(key: VolumeKey, dir: -1 | 1): void {
+    const next = Math.round(Phaser.Math.Clamp(this.volumes[key] + dir * VOLUME_STEP, 0, 1) * 10) / 10
+    const saved = updateSlot(this.slotId, d => { d.settings[key] = next })
+    if (!saved) { this.message('Could not save settings', '#fca5a5'); return }
+    this.volumes[key] = next
+    audio.setVolumes(this.volumes)
+    // A blip so the new effects level can be heard
+    if (key !== 'musicVolume') audio.play('dummyHit')
+    this.refreshVolume(key)
+  }
+
+  private refreshVolume(key: VolumeKey): void {
+    this.volumeTexts.get(key)?.setText(`< ${String(Math.round(this.volumes[key] * 100)).padStart(3)}% >`)
+  }
+
+  private buildList(cx: number): FocusItem[] {
+    const labelStyle: TextStyle = { fontSize: '15px', fontFamily: 'monospace', color: '#cbd5e1' }
+    const groupStyle: TextStyle = { fontSize: '13px', fontFamily: 'monospace', color: '#64748b' }
+    const items: FocusItem[] = []
+    const groups = new Set(ACTIONS.map(a => a.group)).size
+    const avail = this.scale.height - BOTTOM_MARGIN - LIST_TOP
+    const rowH = Phaser.Math.Clamp(Math.floor(avail / (ACTIONS.length + groups * 1.5)), ROW_H_MIN, ROW_H_MAX)
+    let y = LIST_TOP
+    let group = ''
+    for (const def of ACTIONS) {
+      if (def.group !== group) {
+        if (group) y += rowH / 2
+        group = def.group
+        this.add.text(cx - 320, y, group.toUpperCase(), groupStyle).setOrigin(0, 0.5)
+        y += rowH
+      }
+      this.add.text(cx - 300, y, def.label, labelStyle).setOrigin(0, 0.5)
+      for (let slot = 0; slot < MAX_BINDINGS; slot++) {
+        const cell = this.add.text(cx + 40 + slot * 170, y, '', labelStyle).setOrigin(0, 0.5).setInteractive({ useHandCursor: true })
+        // Capture starts on release so the click that opened it isn't taken as the new binding
+        cell.on('pointerup', () => { if (this.clickable()) this.startCapture(def.id, slot) })
+        this.cells.set(`${def.id}:${slot}`, cell)
+        items.push({ target: cell, activate: () => this.startCapture(def.id, slot), key: `${def.id}:${slot}` })
+      }
+      y += rowH
+    }
+    this.refreshCells()
+    return items
+  }
+
+  private button(x: number, y: number, text: string, color: string, onClick: () => void): Phaser.GameObjects.Text {
+    const b = this.add.text(x, y, text, { fontSize: '18px', fontFamily: 'monospace', color }).setOrigin(0.5, 0.5).setInteractive({ useHandCursor: true })
+    b.on('pointerup', () => { if (this.clickable()) onClick() })
+    return b
+  }
+
+  private clickable(): boolean { return !this.capture && !this.swallowClick }
+
+  private refreshCells(): void {
+    for (const def of ACTIONS) {
+      for (let slot = 0; slot < MAX_BINDINGS; slot++) {
+        const cell = this.cells.get(`${def.id}:${slot}`)
+        const input = this.bindings[def.id][slot]
+        const waiting = this.capture?.action === def.id && this.capture.slot === slot
+        if (waiting) cell?.setText('[ press... ]').setColor('#fde047')
+        else if (input) cell?.setText(`[ ${inputLabel(input)} ]`).setColor('#a7f3d0')
+        else cell?.setText('[ - ]').setColor('#475569')
+      }
+    }
+  }
+
+  private startCapture(action: ActionId, slot: number): void {
+    this.capture = { action, slot }
+    // Focus keys would otherwise move away while the player picks an input
+    this.nav.enabled = false
+    this.input.keyboard?.on('keydown', this.onCaptureKey)
+    this.input.on('pointerdown', this.onCapturePointer)
+    this.refreshCells()
+    const label = ACTIONS.find(a => a.id === action)?.label ?? action
+    this.message(`Press a key or mouse button for "${label}" — Esc cancels, Backspace clears`, '#fde047')
+  }
+
+  private stopCapture(): void {
+    this.capture = undefined
+    this.input.keyboard?.off('keydown', this.onCaptureKey)
+    this.input.off('pointerdown', this.onCapturePointer)
+    this.nav.enabled = true
+    this.refreshCells()
+  }
+
+  private captureInput(input: string, e?: KeyboardEvent): void {
+    const cap = this.capture
+    if (!cap || !input) return
+    e?.preventDefault()
+    if (input === 'Escape') { this.stopCapture(); this.message(''); return }
+    if (input === 'Backspace' || input === 'Delete') {
+      this.stopCapture()
+      if (this.apply(unbind(this.bindings, cap.action, cap.slot))) this.message('Binding cleared', '#a7f3d0')
+      return
+    }
+    if (RESERVED_INPUTS.includes(input)) { this.message(`${inputLabel(input)} is reserved for menus — pick another input`, '#fca5a5'); return }
+    const other = findConflict(this.bindings, cap.action, input)
+    if (other && cap.conflict !== input) {
+      cap.conflict = input
+      const otherLabel = ACTIONS.find(a => a.id === other)?.label ?? other
+      this.message(`${inputLabel(input)} is already used by "${otherLabel}" — press it again to move it here`, '#fca5a5')
+      return
+    }
+    this.stopCapture()
+    if (!this.apply(rebind(this.bindings, cap.action, cap.slot, input))) return
+    this.message(other ? `${inputLabel(input)} moved from "${ACTIONS.find(a => a.id === other)?.label}"` : `Bound ${inputLabel(input)}`, '#a7f3d0')
+  }
+
+  private resetAll(): void {
+    if (this.apply(defaultBindings())) this.message('Controls reset to defaults', '#a7f3d0')
+  }
+
+  // Only changes from the defaults are written to the profile
+  private apply(next: Bindings): boolean {
+    const saved = updateSlot(this.slotId, d => { d.settings.keyBindings = bindingOverrides(next) })
+    if (!saved) { this.message('Could not save controls', '#fca5a5'); return false }
+    this.bindings = next
+    this.refreshCells()
+    return true
+  }
+
+  private message(text: string, color = '#94a3b8'): void {
+    this.messageText.setColor(color).setText(text)
+  }
+
+  private leave(): void {
+    if (this.returnTo === 'MainScene') this.scene.start('MainScene', { safeMode: true })
+    else this.scene.start('SaveSelectScene')
+  }
+}
@@ -0,0 +1,68 @@
+import type { BossAttack, BossPhase, BossSpec } from '../data/bosses'
+
+export interface BossShot { x: number; y: number; vx: number; vy: number }
+
+interface Point { x: number; y: number }
+
+// Phase selection and bullet-pattern timing for one boss; rendering and collisions stay with the caller
+export class BossBrain {
+  private phaseIdx = 0
+  private cooldowns: number[] = []
+  private spiralAngle = 0
+
+  constructor(private readonly spec: BossSpec, private readonly rand: () => number = Math.random) {
+    this.enterPhase(0)
+  }
+
+  get phaseIndex(): number { return this.phaseIdx }
+  get phase(): BossPhase { return this.spec.phases[this.phaseIdx] }
+
+  private enterPhase(idx: number): void {
+    this.phaseIdx = idx
+    // Short grace period at the start of each phase before the first volley
+    this.cooldowns = this.phase.attacks.map(a => Math.min(a.everyMs, 800))
+  }
+
+  // Phase for a given HP fraction: the deepest one whose threshold has been crossed
+  private phaseFor(hpFrac: number): number {
+    let idx = 0
+    this.spec.phases.forEach((p, i) => { if (hpFrac <= p.fromHpFrac) idx = i })
+    return idx
+  }
+
+  // Returns true when the boss moved into a new phase this step
+  update(dtMs: number, hpFrac: number, boss: Point & { r: number }, target: Point, emit: (shot: BossShot) => void): boolean {
+    const next = this.phaseFor(hpFrac)
+    const changed = next > this.phaseIdx
+    if (changed) this.enterPhase(next)
+    this.phase.attacks.forEach((a, i) => {
+      this.cooldowns[i] -= dtMs
+      while (this.cooldowns[i] <= 0) {
+        this.fire(a, boss, target, emit)
+        this.cooldowns[i] += a.everyMs
+      }
+    })
+    return changed
+  }
+
+  private fire(a: BossAttack, boss: Point & { r: number }, target: Point, emit: (shot: BossShot) => void): void {
+    const shoot = (angle: number, speed: number) => {
+      const nx = Math.cos(angle), ny = Math.sin(angle)
+      emit({ x: boss.x + nx * boss.r, y: boss.y + ny * boss.r, vx: nx * speed, vy: ny * speed })
+    }
+    if (a.kind === 'radial') {
+      const offset = this.rand() * Math.PI * 2
+      for (let i = 0; i < a.count; i++) shoot(offset + (i / a.count) * Math.PI * 2, a.speed)
+    } else if (a.kind === 'spiral') {
+      this.spiralAngle += (a.stepDeg * Math.PI) / 180
+      for (let i = 0; i < a.arms; i++) shoot(this.spiralAngle + (i / a.arms) * Math.PI * 2, a.speed)
+    } else {
+      const aim = Math.atan2(target.y - boss.y, target.x - boss.x)
+      const spread = (a.spreadDeg * Math.PI) / 180
+      for (let i = 0; i < a.shots; i++) {
+        const t = a.shots === 1 ? 0 : i / (a.shots - 1) - 0.5
+        shoot(aim + t * spread, a.speed)
+      }
+    }
+  }
+}
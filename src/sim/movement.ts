@@ -0,0 +1,33 @@
+import { DASH_SPEED } from './player'
+
+// Keyboard movement mode: velocity eases toward the held direction and bleeds off on release
+export const WALK_SPEED = 300 // px/s at base dash speed; dash speed upgrades scale it
+export const WALK_ACCEL = 2600 // px/s²
+export const WALK_FRICTION = 2000 // px/s²
+
+// The dash becomes a short burst in the held direction, then waits out a cooldown
+export const BURST_DISTANCE = 150
+export const BURST_COOLDOWN_MS = 450
+
+export interface Velocity { x: number; y: number }
+
+export function walkSpeed(dashSpeed: number): number {
+  return WALK_SPEED * (dashSpeed / DASH_SPEED)
+}
+
+// One fixed step of walking; dirX/dirY is the held direction (any length, 0,0 for none)
+export function stepWalk(v: Velocity, dirX: number, dirY: number, stepMs: number, maxSpeed = WALK_SPEED): Velocity {
+  const dt = stepMs / 1000
+  const len = Math.hypot(dirX, dirY)
+  if (len === 0) return approach(v, 0, 0, WALK_FRICTION * dt)
+  return approach(v, (dirX / len) * maxSpeed, (dirY / len) * maxSpeed, WALK_ACCEL * dt)
+}
+
+// Moves v toward (tx, ty) by at most maxDelta, so turning around decelerates before speeding up again
+function approach(v: Velocity, tx: number, ty: number, maxDelta: number): Velocity {
+  const dx = tx - v.x
+  const dy = ty - v.y
+  const d = Math.hypot(dx, dy)
+  if (d <= maxDelta) return { x: tx, y: ty }
+  return { x: v.x + (dx / d) * maxDelta, y: v.y + (dy / d) * maxDelta }
+}
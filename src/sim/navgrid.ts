@@ -0,0 +1,237 @@
+// Safe Room collision and pathfinding, independent of Phaser so it can run headless
+
+export interface Point { x: number; y: number }
+
+// Rects are given by center and size; every test inflates obstacles by the agent radius
+export type Obstacle =
+  | { kind: 'rect'; x: number; y: number; w: number; h: number }
+  | { kind: 'circle'; x: number; y: number; r: number }
+
+export interface NavGrid { originX: number; originY: number; cols: number; rows: number; cell: number; block: Uint8Array }
+
+export interface RayHit { x: number; y: number; nx: number; ny: number }
+
+export function pointBlocked(obstacles: readonly Obstacle[], agentR: number, x: number, y: number): boolean {
+  for (const o of obstacles) {
+    if (o.kind === 'rect') {
+      const w2 = o.w / 2 + agentR, h2 = o.h / 2 + agentR
+      if (x >= o.x - w2 && x <= o.x + w2 && y >= o.y - h2 && y <= o.y + h2) return true
+    } else if (Math.hypot(x - o.x, y - o.y) < o.r + agentR) {
+      return true
+    }
+  }
+  return false
+}
+
+// True when the segment touches any inflated obstacle (including starting or ending inside one)
+export function segmentBlocked(obstacles: readonly Obstacle[], agentR: number, x1: number, y1: number, x2: number, y2: number): boolean {
+  const dx = x2 - x1, dy = y2 - y1
+  for (const o of obstacles) {
+    if (o.kind === 'rect') {
+      // Liang–Barsky clip against the inflated box
+      const w2 = o.w / 2 + agentR, h2 = o.h / 2 + agentR
+      let t0 = 0, t1 = 1
+      const clip = (p: number, q: number): boolean => {
+        if (p === 0) return q >= 0
+        const t = q / p
+        if (p < 0) { if (t > t1) return false; if (t > t0) t0 = t }
+        else { if (t < t0) return false; if (t < t1) t1 = t }
+        return true
+      }
+      if (clip(-dx, x1 - (o.x - w2)) && clip(dx, o.x + w2 - x1) && clip(-dy, y1 - (o.y - h2)) && clip(dy, o.y + h2 - y1)) return true
+    } else {
+      const R = o.r + agentR
+      const len2 = dx * dx + dy * dy
+      const t = len2 > 0 ? Math.max(0, Math.min(1, ((o.x - x1) * dx + (o.y - y1) * dy) / len2)) : 0
+      const cx = x1 + dx * t - o.x, cy = y1 + dy * t - o.y
+      if (cx * cx + cy * cy <= R * R) return true
+    }
+  }
+  return false
+}
+
+// First obstacle surface crossed going from start to end (exclusive), with its outward normal
+export function raycast(obstacles: readonly Obstacle[], agentR: number, sx: number, sy: number, tx: number, ty: number): RayHit | null {
+  const dx = tx - sx
+  const dy = ty - sy
+  let bestT = Infinity
+  let out: RayHit | null = null
+  for (const o of obstacles) {
+    if (o.kind === 'rect') {
+      const w2 = o.w / 2 + agentR
+      const h2 = o.h / 2 + agentR
+      const invDx = dx !== 0 ? 1 / dx : Number.POSITIVE_INFINITY
+      const invDy = dy !== 0 ? 1 / dy : Number.POSITIVE_INFINITY
+      const t1 = (o.x - w2 - sx) * invDx
+      const t2 = (o.x + w2 - sx) * invDx
+      const t3 = (o.y - h2 - sy) * invDy
+      const t4 = (o.y + h2 - sy) * invDy
+      const tNearX = Math.min(t1, t2)
+      const tNearY = Math.min(t3, t4)
+      const tNear = Math.max(tNearX, tNearY)
+      const tFar = Math.min(Math.max(t1, t2), Math.max(t3, t4))
+      if (tFar < 0 || tNear > tFar || tNear <= 0 || tNear >= 1) continue
+      let nx = 0, ny = 0
+      if (tNearX > tNearY) nx = (dx > 0 ? -1 : 1)
+      else ny = (dy > 0 ? -1 : 1)
+      if (tNear < bestT) { bestT = tNear; out = { x: sx + dx * tNear, y: sy + dy * tNear, nx, ny } }
+    } else {
+      const R = o.r + agentR
+      const ox = sx - o.x
+      const oy = sy - o.y
+      const a = dx * dx + dy * dy
+      const b = 2 * (ox * dx + oy * dy)
+      const c = ox * ox + oy * oy - R * R
+      const disc = b * b - 4 * a * c
+      if (disc < 0 || a === 0) continue
+      const sqrt = Math.sqrt(disc)
+      const t0 = (-b - sqrt) / (2 * a)
+      const tHit = t0 > 0 ? t0 : (-b + sqrt) / (2 * a)
+      if (tHit <= 0 || tHit >= 1) continue
+      const hx = sx + dx * tHit
+      const hy = sy + dy * tHit
+      if (tHit < bestT) { bestT = tHit; out = { x: hx, y: hy, nx: (hx - o.x) / (R || 1), ny: (hy - o.y) / (R || 1) } }
+    }
+  }
+  return out
+}
+
+// Push a point out of any overlapping obstacle along the shallowest axis
+export function resolveOverlap(obstacles: readonly Obstacle[], agentR: number, x: number, y: number, push = 6): { x: number; y: number; moved: boolean } {
+  let px = x, py = y
+  let moved = false
+  for (const o of obstacles) {
+    if (!pointBlocked([o], agentR, px, py)) continue
+    moved = true
+    const dx = px - o.x
+    const dy = py - o.y
+    if (o.kind === 'rect') {
+      const w2 = o.w / 2 + agentR
+      const h2 = o.h / 2 + agentR
+      if (Math.abs(w2 - Math.abs(dx)) < Math.abs(h2 - Math.abs(dy))) px = o.x + (dx >= 0 ? 1 : -1) * (w2 + push)
+      else py = o.y + (dy >= 0 ? 1 : -1) * (h2 + push)
+    } else {
+      const R = o.r + agentR
+      const dist = Math.hypot(dx, dy)
+      px = o.x + ((dx || 1) / (dist || 1)) * (R + push)
+      py = o.y + ((dy || 0) / (dist || 1)) * (R + push)
+    }
+  }
+  return { x: px, y: py, moved }
+}
+
+// Grid over the given area; a cell is blocked when its center is inside an inflated obstacle
+export function buildNavGrid(area: { x: number; y: number; w: number; h: number }, cell: number, obstacles: readonly Obstacle[], agentR: number): NavGrid {
+  const cols = Math.max(2, Math.floor(area.w / cell))
+  const rows = Math.max(2, Math.floor(area.h / cell))
+  const block = new Uint8Array(cols * rows)
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      block[r * cols + c] = pointBlocked(obstacles, agentR, area.x + c * cell + cell / 2, area.y + r * cell + cell / 2) ? 1 : 0
+    }
+  }
+  return { originX: area.x, originY: area.y, cols, rows, cell, block }
+}
+
+export function worldToCell(g: NavGrid, x: number, y: number): { c: number; r: number } | null {
+  const c = Math.floor((x - g.originX) / g.cell)
+  const r = Math.floor((y - g.originY) / g.cell)
+  if (c < 0 || r < 0 || c >= g.cols || r >= g.rows) return null
+  return { c, r }
+}
+
+export function cellToWorld(g: NavGrid, c: number, r: number): Point {
+  return { x: g.originX + c * g.cell + g.cell / 2, y: g.originY + r * g.cell + g.cell / 2 }
+}
+
+export function isCellFree(g: NavGrid, c: number, r: number): boolean {
+  return g.block[r * g.cols + c] === 0
+}
+
+// A* over the grid (8-way, no corner cutting); blocked goals snap to the nearest free cell.
+// segmentClear is used to drop waypoints the agent can walk past in a straight line.
+export function findPath(g: NavGrid, sx: number, sy: number, tx: number, ty: number, segmentClear?: (x1: number, y1: number, x2: number, y2: number) => boolean): Point[] | null {
+  const start = worldToCell(g, sx, sy)
+  let goal = worldToCell(g, tx, ty)
+  if (!start || !goal) return null
+
+  if (!isCellFree(g, goal.c, goal.r)) {
+    let found = false
+    for (let rad = 1; rad < Math.max(g.cols, g.rows) && !found; rad++) {
+      for (let dr = -rad; dr <= rad && !found; dr++) {
+        for (let dc = -rad; dc <= rad; dc++) {
+          const nc: number = goal.c + dc
+          const nr: number = goal.r + dr
+          if (nc < 0 || nr < 0 || nc >= g.cols || nr >= g.rows) continue
+          if (isCellFree(g, nc, nr)) { goal = { c: nc, r: nr }; found = true; break }
+        }
+      }
+    }
+    if (!found) return null
+  }
+  const target = goal
+
+  const { cols, rows } = g
+  const open: number[] = []
+  const came = new Int32Array(cols * rows).fill(-1)
+  const gScore = new Float32Array(cols * rows).fill(Infinity)
+  const fScore = new Float32Array(cols * rows).fill(Infinity)
+  const idx = (c: number, r: number) => r * cols + c
+  const h = (c: number, r: number) => Math.hypot(c - target.c, r - target.r)
+  const popLowest = () => {
+    let bi = 0, bv = Infinity
+    for (let i = 0; i < open.length; i++) { const v = fScore[open[i]]; if (v < bv) { bv = v; bi = i } }
+    return open.splice(bi, 1)[0]
+  }
+
+  const sIdx = idx(start.c, start.r)
+  gScore[sIdx] = 0
+  fScore[sIdx] = h(start.c, start.r)
+  open.push(sIdx)
+
+  const dirs = [[1, 0], [-1, 0], [0, 1], [0, -1], [1, 1], [1, -1], [-1, 1], [-1, -1]] as const
+
+  while (open.length > 0) {
+    const current = popLowest()
+    const cr = Math.floor(current / cols)
+    const cc = current % cols
+    if (cc === target.c && cr === target.r) {
+      const path: Point[] = []
+      for (let cur = current; cur !== -1; cur = came[cur]) path.push(cellToWorld(g, cur % cols, Math.floor(cur / cols)))
+      path.reverse()
+      return segmentClear ? smoothPath(path, segmentClear) : path
+    }
+    for (const [dc, dr] of dirs) {
+      const nc = cc + dc, nr = cr + dr
+      if (nc < 0 || nr < 0 || nc >= cols || nr >= rows) continue
+      if (g.block[idx(nc, nr)] === 1) continue
+      if (dc !== 0 && dr !== 0 && (g.block[idx(cc + dc, cr)] === 1 || g.block[idx(cc, cr + dr)] === 1)) continue
+      const nid = idx(nc, nr)
+      const tentative = gScore[current] + Math.hypot(dc, dr)
+      if (tentative < gScore[nid]) {
+        came[nid] = current
+        gScore[nid] = tentative
+        fScore[nid] = tentative + h(nc, nr)
+        if (open.indexOf(nid) < 0) open.push(nid)
+      }
+    }
+  }
+  return null
+}
+
+// Greedy string-pulling: from each kept point jump to the farthest visible one
+export function smoothPath(path: Point[], segmentClear: (x1: number, y1: number, x2: number, y2: number) => boolean): Point[] {
+  if (path.length <= 2) return path
+  const out: Point[] = [path[0]]
+  let i = 0
+  while (i < path.length - 1) {
+    let j = path.length - 1
+    const from = out[out.length - 1]
+    for (; j > i + 1; j--) {
+      if (segmentClear(from.x, from.y, path[j].x, path[j].y)) break
+    }
+    out.push(path[j])
+    i = j
+  }
+  return out
+}
@@ -0,0 +1,62 @@
+import type { PlayerStats } from '../data/upgrades'
+import { perkStacks, type PerkStacks } from '../data/perks'
+
+export const DASH_SPEED = 1400 // px/s — snappy/powerful feel
+export const PLAYER_RADIUS = 16
+export const PLAYER_MAX_HP = 5
+
+// Combat prototype constants (Level 1)
+export const BULLET_SPEED = 1100
+export const BULLET_RADIUS = 4
+export const BULLET_LIFETIME_MS = 900
+export const FIRE_COOLDOWN_MS = 90 // ms, cap very-fast spam to avoid stacked start frames
+export const BULLET_SPAWN_OFFSET = PLAYER_RADIUS + BULLET_RADIUS + 2
+
+// Run perk tuning (data/perks.ts)
+export const MULTISHOT_SPREAD = 0.16 // rad between bullets of one shot
+export const HOMING_TURN_PER_STACK = 3 // rad/s
+export const BLAST_RADIUS = 48
+export const BLAST_RADIUS_PER_STACK = 16
+
+// Concrete numbers the simulation uses once upgrade bonuses and run perks are applied
+export interface CombatStats {
+  maxHp: number
+  bulletSpeed: number
+  dashSpeed: number
+  fireCooldownMs: number
+  pierce: number
+  healOnClear: number
+  // Bullets per shot, fanned MULTISHOT_SPREAD apart
+  shots: number
+  bulletRadius: number
+  // How fast bullets turn toward the nearest enemy (rad/s); 0 flies straight
+  homingTurn: number
+  // Explosion when a bullet kills an enemy; radius 0 means none
+  blastRadius: number
+  blastDamage: number
+  // Damage dealt once per dash to every enemy the player passes through
+  dashDamage: number
+  // Kills per 1 HP healed; 0 means no lifesteal
+  lifestealKills: number
+}
+
+export function combatStats(stats: PlayerStats, perks: PerkStacks = {}): CombatStats {
+  const fireMult = 1 + (stats.fireRatePct || 0) / 100
+  const blast = perkStacks(perks, 'blast')
+  const lifesteal = perkStacks(perks, 'lifesteal')
+  return {
+    maxHp: PLAYER_MAX_HP + (stats.maxHp || 0),
+    bulletSpeed: BULLET_SPEED * (1 + (stats.bulletSpeedPct || 0) / 100),
+    dashSpeed: DASH_SPEED * (1 + (stats.dashSpeedPct || 0) / 100),
+    fireCooldownMs: Math.max(20, Math.round(FIRE_COOLDOWN_MS / fireMult)),
+    pierce: stats.pierce || 0,
+    healOnClear: stats.healOnClear || 0,
+    shots: 1 + perkStacks(perks, 'multishot'),
+    bulletRadius: BULLET_RADIUS * (1 + 0.5 * perkStacks(perks, 'bigShots')),
+    homingTurn: HOMING_TURN_PER_STACK * perkStacks(perks, 'homing'),
+    blastRadius: blast > 0 ? BLAST_RADIUS + BLAST_RADIUS_PER_STACK * (blast - 1) : 0,
+    blastDamage: blast > 0 ? 1 : 0,
+    dashDamage: perkStacks(perks, 'dashStrike'),
+    lifestealKills: lifesteal > 0 ? Math.max(2, 11 - 3 * lifesteal) : 0
+  }
+}
@@ -0,0 +1,130 @@
+import type { UpgradeLevels } from '../state/save'
+
+// Player inputs that affect a run; everything else is derived from the seed
+export type InputEvent =
+  | { k: 'dash'; x: number; y: number; direct: boolean }
+  | { k: 'shoot'; x: number; y: number }
+  | { k: 'next' }
+  | { k: 'restart' }
+  // Keyboard movement mode: held direction (-1/0/1 per axis) and a directional dash burst
+  | { k: 'move'; x: number; y: number }
+  | { k: 'burst'; x: number; y: number }
+  // Choice from the between-level perk draft, by its position in the offer
+  | { k: 'perk'; i: number }
+
+export interface TimedInput { tick: number; input: InputEvent }
+
+export interface Replay {
+  version: 1
+  seed: number
+  createdAt: number
+  name?: string
+  // Spawn positions scale with the arena, so playback warns when sizes differ
+  arena: { w: number; h: number }
+  upgrades: UpgradeLevels
+  ticks: number
+  events: TimedInput[]
+}
+
+// Compact wire format: events are [tick, code, x?, y?] with coordinates in tenths of a pixel;
+// perk picks are [tick, 'p', index]
+type PackedEvent = [number, string] | [number, string, number] | [number, string, number, number]
+
+// Coordinates are quantized before use so live play and playback see identical values
+export function quantize(v: number): number {
+  return Math.round(v * 10) / 10
+}
+
+function pack(e: TimedInput): PackedEvent {
+  const i = e.input
+  if (i.k === 'dash') return [e.tick, i.direct ? 'D' : 'd', Math.round(i.x * 10), Math.round(i.y * 10)]
+  if (i.k === 'shoot') return [e.tick, 's', Math.round(i.x * 10), Math.round(i.y * 10)]
+  if (i.k === 'move') return [e.tick, 'm', Math.round(i.x * 10), Math.round(i.y * 10)]
+  if (i.k === 'burst') return [e.tick, 'b', Math.round(i.x * 10), Math.round(i.y * 10)]
+  if (i.k === 'perk') return [e.tick, 'p', i.i]
+  return [e.tick, i.k === 'next' ? 'n' : 'r']
+}
+
+function unpack(p: unknown): TimedInput {
+  if (!Array.isArray(p) || typeof p[0] !== 'number' || typeof p[1] !== 'string') throw new Error('Malformed replay event')
+  const [tick, code, x, y] = p as [number, string, number?, number?]
+  const pt = () => {
+    if (typeof x !== 'number' || typeof y !== 'number') throw new Error(`Replay event at tick ${tick} is missing coordinates`)
+    return { x: x / 10, y: y / 10 }
+  }
+  if (code === 'd' || code === 'D') return { tick, input: { k: 'dash', ...pt(), direct: code === 'D' } }
+  if (code === 's') return { tick, input: { k: 'shoot', ...pt() } }
+  if (code === 'm') return { tick, input: { k: 'move', ...pt() } }
+  if (code === 'b') return { tick, input: { k: 'burst', ...pt() } }
+  if (code === 'p') {
+    if (typeof x !== 'number') throw new Error(`Replay event at tick ${tick} is missing its perk`)
+    return { tick, input: { k: 'perk', i: x } }
+  }
+  if (code === 'n') return { tick, input: { k: 'next' } }
+  if (code === 'r') return { tick, input: { k: 'restart' } }
+  throw new Error(`Unknown replay event "${code}"`)
+}
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v)
+
+// Keeps every numeric level, including catalog nodes stored by id; missing ones read as 0
+function readUpgrades(raw: unknown): UpgradeLevels {
+  const out: UpgradeLevels = { maxHp: 0, bulletSpeedPct: 0, dashSpeedPct: 0, fireRatePct: 0, pierce: 0, healOnClear: 0 }
+  if (!isObject(raw)) return out
+  for (const [id, v] of Object.entries(raw)) if (typeof v === 'number' && Number.isFinite(v)) out[id] = v
+  return out
+}
+
+export function serializeReplay(r: Replay): string {
+  return JSON.stringify({ ...r, events: r.events.map(pack) })
+}
+
+// Throws with a readable message when the text is not a replay this build understands
+export function parseReplay(text: string): Replay {
+  let raw: unknown
+  try { raw = JSON.parse(text) } catch { throw new Error('Replay file is not valid JSON') }
+  if (!isObject(raw)) throw new Error('Replay file is empty')
+  if (raw.version !== 1) throw new Error(`Unsupported replay version: ${String(raw.version)}`)
+  if (typeof raw.seed !== 'number') throw new Error('Replay is missing its seed')
+  if (!Array.isArray(raw.events)) throw new Error('Replay is missing its events')
+  return {
+    version: 1,
+    seed: raw.seed >>> 0,
+    createdAt: typeof raw.createdAt === 'number' ? raw.createdAt : 0,
+    name: typeof raw.name === 'string' ? raw.name : undefined,
+    arena: isObject(raw.arena) ? { w: Number(raw.arena.w) || 0, h: Number(raw.arena.h) || 0 } : { w: 0, h: 0 },
+    upgrades: readUpgrades(raw.upgrades),
+    ticks: Number(raw.ticks) || 0,
+    events: raw.events.map(unpack)
+  }
+}
+
+export class ReplayRecorder {
+  private events: TimedInput[] = []
+
+  constructor(private readonly header: Omit<Replay, 'version' | 'createdAt' | 'ticks' | 'events'>) {}
+
+  record(tick: number, input: InputEvent): void {
+    this.events.push({ tick, input })
+  }
+
+  finish(ticks: number): Replay {
+    return { version: 1, createdAt: Date.now(), ...this.header, ticks, events: this.events.slice() }
+  }
+}
+
+// Hands back the recorded inputs tick by tick
+export class ReplayPlayer {
+  private cursor = 0
+
+  constructor(readonly replay: Replay) {}
+
+  get done(): boolean { return this.cursor >= this.replay.events.length }
+
+  take(tick: number): InputEvent[] {
+    const out: InputEvent[] = []
+    const events = this.replay.events
+    while (this.cursor < events.length && events[this.cursor].tick <= tick) out.push(events[this.cursor++].input)
+    return out
+  }
+}
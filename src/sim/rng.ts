@@ -0,0 +1,56 @@
+// Small seedable PRNG (mulberry32) so runs can be replayed from a seed
+export class Rng {
+  private state: number
+
+  constructor(seed: number) {
+    this.state = seed >>> 0
+  }
+
+  // Uniform float in [0, 1)
+  next(): number {
+    let t = (this.state = (this.state + 0x6d2b79f5) >>> 0)
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+
+  // Integer in [min, max] inclusive
+  int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1))
+  }
+
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min)
+  }
+
+  pick<T>(items: readonly T[]): T {
+    return items[Math.floor(this.next() * items.length)]
+  }
+
+  // Bound next() for APIs that take a plain () => number
+  get fn(): () => number {
+    return () => this.next()
+  }
+}
+
+export function randomSeed(): number {
+  return (Math.random() * 4294967296) >>> 0
+}
+
+// Derive an independent stream (e.g. per level) from a run seed
+export function deriveSeed(seed: number, salt: number): number {
+  let h = (seed ^ Math.imul(salt + 0x9e3779b9, 0x85ebca6b)) >>> 0
+  h = Math.imul(h ^ (h >>> 16), 0x7feb352d)
+  h = Math.imul(h ^ (h >>> 15), 0x846ca68b)
+  return (h ^ (h >>> 16)) >>> 0
+}
+
+// Seeds are shown and typed as short base-36 strings
+export function formatSeed(seed: number): string {
+  return (seed >>> 0).toString(36).toUpperCase()
+}
+
+export function parseSeed(text: string): number | null {
+  const v = parseInt(text.trim(), 36)
+  return Number.isFinite(v) ? v >>> 0 : null
+}
@@ -0,0 +1,97 @@
+import type { EnemyTypeId } from '../data/enemies'
+import type { LevelDef, SpawnGroup, WaveDef } from '../data/levels'
+
+export interface SpawnRequest {
+  type: EnemyTypeId
+  edge: NonNullable<SpawnGroup['edge']>
+  at?: { x: number; y: number }
+}
+
+// Hooks the runner needs from whoever owns the enemies
+export interface WaveHost {
+  spawn(req: SpawnRequest): void
+  // Alive enemy count, optionally filtered by type
+  countAlive(type?: EnemyTypeId): number
+}
+
+// Plays a LevelDef wave by wave; advance it with update() from the game loop
+export class WaveRunner {
+  private waveIndex = 0
+  private waveMs = 0
+  private delayMs = 0
+  private spawned: number[] = []
+  private finished = false
+
+  constructor(private readonly def: LevelDef) {
+    this.beginWave(0)
+  }
+
+  get done(): boolean { return this.finished }
+  get waveNumber(): number { return Math.min(this.waveIndex + 1, this.def.waves.length) }
+  get waveCount(): number { return this.def.waves.length }
+  get name(): string | undefined { return this.def.name }
+  // True while waiting out a wave's delayMs
+  get betweenWaves(): boolean { return !this.finished && this.delayMs > 0 }
+
+  private get wave(): WaveDef { return this.def.waves[this.waveIndex] }
+
+  private beginWave(index: number): void {
+    this.waveIndex = index
+    this.waveMs = 0
+    this.delayMs = this.def.waves[index].delayMs ?? 0
+    this.spawned = this.def.waves[index].spawns.map(() => 0)
+  }
+
+  update(dtMs: number, host: WaveHost): void {
+    if (this.finished) return
+    if (this.delayMs > 0) {
+      this.delayMs -= dtMs
+      if (this.delayMs > 0) return
+      dtMs = -this.delayMs
+      this.delayMs = 0
+    }
+    this.waveMs += dtMs
+    const wave = this.wave
+    wave.spawns.forEach((g, i) => {
+      // Catch up on every spawn that is due (large frames can owe more than one)
+      while (this.spawned[i] < g.count && this.waveMs >= (g.afterMs ?? 0) + this.spawned[i] * g.everyMs) {
+        host.spawn({ type: g.type, edge: g.edge ?? 'any', at: g.at })
+        this.spawned[i]++
+      }
+    })
+    if (this.isWaveCleared(host)) {
+      if (this.waveIndex + 1 < this.def.waves.length) this.beginWave(this.waveIndex + 1)
+      else this.finished = true
+    }
+  }
+
+  // Every spawn group (or only those of one type) has been fully spawned
+  private allSpawned(type?: EnemyTypeId): boolean {
+    return this.wave.spawns.every((g, i) => (type !== undefined && g.type !== type) || this.spawned[i] >= g.count)
+  }
+
+  private isWaveCleared(host: WaveHost): boolean {
+    const clear = this.wave.clear
+    if (clear.kind === 'survive') return this.waveMs >= clear.seconds * 1000
+    // Only the boss counts; adds still queued are dropped once it dies
+    if (clear.kind === 'defeatBoss') return this.allSpawned(clear.boss) && host.countAlive(clear.boss) === 0
+    return this.allSpawned() && host.countAlive() === 0
+  }
+
+  // Enemies of the current wave still to come (not counting those alive)
+  pendingSpawns(): number {
+    if (this.finished) return 0
+    return this.wave.spawns.reduce((s, g, i) => s + (g.count - this.spawned[i]), 0)
+  }
+
+  // HUD line describing the current objective
+  describe(alive: number): string {
+    if (this.finished) return 'Cleared'
+    const prefix = `Wave ${this.waveNumber}/${this.waveCount}`
+    if (this.delayMs > 0) return `${prefix} • incoming in ${Math.ceil(this.delayMs / 1000)}s`
+    const clear = this.wave.clear
+    if (clear.kind === 'survive') return `${prefix} • Survive: ${Math.max(0, Math.ceil(clear.seconds - this.waveMs / 1000))}s`
+    if (clear.kind === 'defeatBoss') return `${prefix} • Defeat the boss`
+    return `${prefix} • Enemies left: ${this.pendingSpawns() + alive}`
+  }
+}
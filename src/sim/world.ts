@@ -0,0 +1,429 @@
+import type { BossSpec } from '../data/bosses'
+import { getArchetype, pickArchetype, type EnemyArchetype } from '../data/enemies'
+import { BOSS_LEVEL_EVERY, getLevelDef, type SpawnEdge } from '../data/levels'
+import { HOSTILE_KINDS, type HostileKind } from '../data/projectiles'
+import { BossBrain } from './boss'
+import { BULLET_LIFETIME_MS, BULLET_RADIUS } from './player'
+import { Rng, deriveSeed } from './rng'
+import { WaveRunner, type WaveHost } from './waves'
+
+// Simulated entities keep their own position (x/y) plus the previous step's (px/py);
+// views are placed between the two when rendering
+// Bullets carry their own radius and homing turn rate (run perks) so a shot keeps what it was fired with
+export interface SimBullet { x: number; y: number; px: number; py: number; vx: number; vy: number; life: number; pierce: number; r: number; homing: number; hits?: Set<SimEnemy> }
+export interface SimEnemy {
+  x: number
+  y: number
+  px: number
+  py: number
+  def: EnemyArchetype
+  hp: number
+  speed: number
+  // Knockback velocity (px/s), decays over time
+  kbx: number
+  kby: number
+  // Behaviour state: 'move' for chase/ranged; charger cycles windup → dash → recover
+  phase: 'move' | 'windup' | 'dash' | 'recover'
+  phaseMs: number
+  dirX: number
+  dirY: number
+  strafe: number
+  // Remaining hit-flash time for the renderer
+  flashMs: number
+}
+
+// Enemy and boss shots; they only collide with the player
+export interface SimHostile { kind: HostileKind; x: number; y: number; px: number; py: number; vx: number; vy: number; life: number; damage: number }
+
+export interface SimBoss { e: SimEnemy; brain: BossBrain; maxHp: number }
+
+// dashing: touching a hostile shot mid-dash grazes it (destroying it) instead of taking a hit
+export interface PlayerProbe { x: number; y: number; r: number; vulnerable: boolean; dashing?: boolean }
+
+// Side effects the world can't perform itself: damage, rewards and presentation
+export interface WorldHost {
+  playerHit(damage: number): void
+  dashGraze?(): void
+  enemyKilled(e: SimEnemy): void
+  bossStarted?(boss: SimBoss): void
+  bossPhase?(spec: BossSpec, phaseIndex: number): void
+  bossDefeated?(e: SimEnemy): void
+  blast?(x: number, y: number, radius: number): void
+}
+
+export interface BulletMods { radius?: number; homing?: number }
+
+const KNOCKBACK_SPEED = 260
+const KNOCKBACK_DECAY = 8 // per second
+const HIT_FLASH_MS = 60
+
+// Combat state for one level: bullets, enemies, the boss and the wave script.
+// Pure TypeScript so it can be stepped headless; MainScene renders from it.
+export class CombatWorld {
+  bullets: SimBullet[] = []
+  hostiles: SimHostile[] = []
+  enemies: SimEnemy[] = []
+  boss?: SimBoss
+  waves?: WaveRunner
+  level = 1
+  bounds = { width: 0, height: 0 }
+  // Enemies killed by a bullet explode with this radius and damage (Volatile perk); radius 0 disables it
+  killBlast = { radius: 0, damage: 0 }
+  private rng = new Rng(0)
+  private player: PlayerProbe = { x: 0, y: 0, r: 0, vulnerable: false }
+  private readonly waveHost: WaveHost = {
+    spawn: req => {
+      const at = req.at ? { x: req.at.x * this.bounds.width, y: req.at.y * this.bounds.height } : undefined
+      this.spawnEnemy(getArchetype(req.type), { edge: req.edge, at })
+    },
+    countAlive: type => type ? this.enemies.filter(e => e.def.id === type).length : this.enemies.length
+  }
+
+  constructor(private readonly host: WorldHost) {}
+
+  // Each level draws from its own stream so a level replays identically from the run seed
+  startLevel(level: number, runSeed: number): void {
+    this.level = level
+    this.rng = new Rng(deriveSeed(runSeed, level))
+    this.waves = new WaveRunner(getLevelDef(level, this.rng.fn))
+    this.clear()
+  }
+
+  // Stops the wave script and boss patterns; entities stay until cleared
+  stopLevel(): void {
+    this.waves = undefined
+  }
+
+  // Boss levels stay locked until the boss is dead
+  get levelComplete(): boolean {
+    return !!this.waves?.done && !this.boss
+  }
+
+  clear(): void {
+    this.clearEnemies()
+    this.clearHostiles()
+    this.bullets = []
+  }
+
+  clearHostiles(): void {
+    this.hostiles = []
+  }
+
+  clearEnemies(): void {
+    this.enemies = []
+    this.boss = undefined
+  }
+
+  fireBullet(x: number, y: number, vx: number, vy: number, pierce: number, mods: BulletMods = {}): SimBullet {
+    const b: SimBullet = { x, y, px: x, py: y, vx, vy, life: BULLET_LIFETIME_MS, pierce, r: mods.radius ?? BULLET_RADIUS, homing: mods.homing ?? 0 }
+    this.bullets.push(b)
+    return b
+  }
+
+  fireHostile(kind: HostileKind, x: number, y: number, dirX: number, dirY: number, damage: number, speed?: number): SimHostile {
+    const def = HOSTILE_KINDS[kind]
+    const len = Math.hypot(dirX, dirY) || 1
+    const sp = speed ?? def.speed
+    const s: SimHostile = { kind, x, y, px: x, py: y, vx: (dirX / len) * sp, vy: (dirY / len) * sp, life: def.lifeMs, damage }
+    this.hostiles.push(s)
+    return s
+  }
+
+  spawnEnemy(def: EnemyArchetype = pickArchetype(this.level, this.rng.fn), place: { edge?: SpawnEdge; at?: { x: number; y: number } } = {}): SimEnemy {
+    const { width, height } = this.bounds
+    const r = def.radius
+    let x = 0, y = 0
+    if (place.at) {
+      ({ x, y } = this.clamp(place.at.x, place.at.y, r))
+    } else {
+      // Spawn along edges
+      const edges: SpawnEdge[] = ['top', 'bottom', 'left', 'right']
+      const edge = !place.edge || place.edge === 'any' ? this.rng.pick(edges) : place.edge
+      const side = edges.indexOf(edge) // 0:top,1:bottom,2:left,3:right
+      if (side === 0) { x = this.rng.int(r, width - r); y = r }
+      else if (side === 1) { x = this.rng.int(r, width - r); y = height - r }
+      else if (side === 2) { x = r; y = this.rng.int(r, height - r) }
+      else { x = width - r; y = this.rng.int(r, height - r) }
+    }
+    // Bosses get tougher each time they come around
+    const hp = def.boss ? Math.round(def.hp * (1 + (Math.floor(this.level / BOSS_LEVEL_EVERY) - 1) * 0.5)) : def.hp
+    const e: SimEnemy = { x, y, px: x, py: y, def, hp, speed: def.speed, kbx: 0, kby: 0, phase: 'move', phaseMs: def.ranged?.fireIntervalMs ?? 0, dirX: 0, dirY: 0, strafe: this.rng.next() < 0.5 ? -1 : 1, flashMs: 0 }
+    this.enemies.push(e)
+    if (def.boss) {
+      this.boss = { e, brain: new BossBrain(def.boss, this.rng.fn), maxHp: e.hp }
+      this.host.bossStarted?.(this.boss)
+    }
+    return e
+  }
+
+  // One fixed simulation step
+  step(dtMs: number, player: PlayerProbe): void {
+    const dt = dtMs / 1000
+    this.player = player
+
+    for (const b of this.bullets) {
+      if (b.homing > 0) this.steerBullet(b, dt)
+      b.px = b.x; b.py = b.y
+      b.x += b.vx * dt
+      b.y += b.vy * dt
+      b.life -= dtMs
+    }
+    const { width: w, height: h } = this.bounds
+    this.bullets = this.bullets.filter(b => b.life > 0 && b.x >= -20 && b.x <= w + 20 && b.y >= -20 && b.y <= h + 20)
+
+    for (const e of this.enemies) this.updateEnemy(e, dt, dtMs)
+    if (this.waves) this.updateBoss(dtMs)
+    this.collideEnemies()
+
+    // Enemy-player contact damage; a hit leaves the player invulnerable for the rest of the step
+    let vulnerable = player.vulnerable
+    if (vulnerable) {
+      for (const e of this.enemies) {
+        const dx = e.x - player.x
+        const dy = e.y - player.y
+        const r = e.def.radius + player.r
+        if (dx * dx + dy * dy <= r * r) {
+          this.host.playerHit(e.def.contactDamage)
+          vulnerable = false
+          break
+        }
+      }
+    }
+    this.stepHostiles(dtMs, vulnerable)
+
+    // Advance the wave script; it decides when the level is complete
+    this.waves?.update(dtMs, this.waveHost)
+  }
+
+  // Bullets against static targets (Safe Room dummies); pierce applies as with enemies
+  collideTargets(targets: ReadonlyArray<{ x: number; y: number; r: number }>, onHit: (index: number) => void): void {
+    if (targets.length === 0) return
+    this.bullets = this.bullets.filter(b => {
+      for (let i = 0; i < targets.length; i++) {
+        const t = targets[i]
+        const dx = t.x - b.x
+        const dy = t.y - b.y
+        const r = t.r + b.r
+        if (dx * dx + dy * dy <= r * r) {
+          onHit(i)
+          if (b.pierce > 0) { b.pierce -= 1; return true }
+          return false
+        }
+      }
+      return true
+    })
+  }
+
+  // Dash Strike: damages enemies touching the player's circle, each at most once per dash (tracked in hits)
+  strike(x: number, y: number, r: number, damage: number, hits: Set<SimEnemy>): void {
+    const killed: SimEnemy[] = []
+    for (const e of this.enemies) {
+      if (e.hp <= 0 || hits.has(e)) continue
+      const dx = e.x - x
+      const dy = e.y - y
+      const rr = r + e.def.radius
+      if (dx * dx + dy * dy > rr * rr) continue
+      hits.add(e)
+      this.damageEnemy(e, damage, dx, dy)
+      if (e.hp <= 0) killed.push(e)
+    }
+    for (const e of killed) this.killEnemy(e)
+  }
+
+  // Hostile shots fly straight until they expire or leave the arena; touching the player is a hit,
+  // or a graze while dashing. Shots pass through a player who can't be hurt right now.
+  private stepHostiles(dtMs: number, vulnerable: boolean): void {
+    const dt = dtMs / 1000
+    const { width: w, height: h } = this.bounds
+    const p = this.player
+    this.hostiles = this.hostiles.filter(s => {
+      s.px = s.x; s.py = s.y
+      s.x += s.vx * dt
+      s.y += s.vy * dt
+      s.life -= dtMs
+      if (s.life <= 0 || s.x < -20 || s.x > w + 20 || s.y < -20 || s.y > h + 20) return false
+      const dx = s.x - p.x
+      const dy = s.y - p.y
+      const r = HOSTILE_KINDS[s.kind].radius + p.r
+      if (dx * dx + dy * dy > r * r) return true
+      if (p.dashing) { this.host.dashGraze?.(); return false }
+      if (vulnerable) { this.host.playerHit(s.damage); vulnerable = false; return false }
+      return true
+    })
+  }
+
+  private collideEnemies(): void {
+    const killed: SimEnemy[] = []
+    const dead = new Set<SimBullet>()
+    for (const b of this.bullets) {
+      for (const e of this.enemies) {
+        if (e.hp <= 0 || b.hits?.has(e)) continue
+        const dx = e.x - b.x
+        const dy = e.y - b.y
+        const r = e.def.radius + b.r
+        if (dx * dx + dy * dy <= r * r) {
+          // Hit; a piercing bullet never hits the same enemy twice
+          if (!b.hits) b.hits = new Set()
+          b.hits.add(e)
+          this.damageEnemy(e, 1, b.vx, b.vy)
+          if (e.hp <= 0) killed.push(e)
+          if (b.pierce > 0) {
+            b.pierce -= 1
+          } else {
+            dead.add(b)
+            break
+          }
+        }
+      }
+    }
+    if (dead.size > 0) this.bullets = this.bullets.filter(b => !dead.has(b))
+    // Blasts go off where the bullet kills were; enemies a blast kills don't explode in turn
+    const blasted: SimEnemy[] = []
+    if (this.killBlast.radius > 0) {
+      for (const e of killed) this.explode(e.x, e.y, blasted)
+    }
+    for (const e of [...killed, ...blasted]) this.killEnemy(e)
+  }
+
+  // Turns the bullet toward the nearest enemy by at most its turn rate, keeping its speed
+  private steerBullet(b: SimBullet, dt: number): void {
+    let target: SimEnemy | undefined
+    let best = Infinity
+    for (const e of this.enemies) {
+      if (e.hp <= 0 || b.hits?.has(e)) continue
+      const d = (e.x - b.x) ** 2 + (e.y - b.y) ** 2
+      if (d < best) { best = d; target = e }
+    }
+    if (!target) return
+    const heading = Math.atan2(b.vy, b.vx)
+    let turn = Math.atan2(target.y - b.y, target.x - b.x) - heading
+    turn = Math.atan2(Math.sin(turn), Math.cos(turn))
+    const max = b.homing * dt
+    const next = heading + Math.max(-max, Math.min(max, turn))
+    const speed = Math.hypot(b.vx, b.vy)
+    b.vx = Math.cos(next) * speed
+    b.vy = Math.sin(next) * speed
+  }
+
+  private explode(x: number, y: number, killed: SimEnemy[]): void {
+    const { radius, damage } = this.killBlast
+    this.host.blast?.(x, y, radius)
+    for (const e of this.enemies) {
+      if (e.hp <= 0) continue
+      const dx = e.x - x
+      const dy = e.y - y
+      const r = radius + e.def.radius
+      if (dx * dx + dy * dy > r * r) continue
+      this.damageEnemy(e, damage, dx, dy)
+      if (e.hp <= 0) killed.push(e)
+    }
+  }
+
+  private updateEnemy(e: SimEnemy, dt: number, deltaMs: number): void {
+    const def = e.def
+    const dx = this.player.x - e.x
+    const dy = this.player.y - e.y
+    const dist = Math.hypot(dx, dy) || 1
+    const nx = dx / dist
+    const ny = dy / dist
+    let mx = 0, my = 0, speed = e.speed
+    if (e.flashMs > 0) e.flashMs -= deltaMs
+
+    if (def.behaviour === 'boss' && def.boss) {
+      // Hold range and circle the player; patterns are fired by updateBoss()
+      const band = 30
+      speed *= this.boss?.e === e ? this.boss.brain.phase.speedMult : 1
+      if (dist > def.boss.holdRange + band) { mx = nx; my = ny }
+      else if (dist < def.boss.holdRange - band) { mx = -nx; my = -ny }
+      else { mx = -ny * e.strafe; my = nx * e.strafe }
+    } else if (def.behaviour === 'ranged' && def.ranged) {
+      // Hold a distance band around preferred range, strafing while inside it
+      const band = 40
+      if (dist > def.ranged.preferredRange + band) { mx = nx; my = ny }
+      else if (dist < def.ranged.preferredRange - band) { mx = -nx; my = -ny }
+      else { mx = -ny * e.strafe; my = nx * e.strafe }
+      e.phaseMs -= deltaMs
+      if (e.phaseMs <= 0 && dist < def.ranged.preferredRange * 1.6) {
+        const kind = def.ranged.projectile
+        const off = def.radius + HOSTILE_KINDS[kind].radius
+        this.fireHostile(kind, e.x + nx * off, e.y + ny * off, nx, ny, def.ranged.projectileDamage, def.ranged.projectileSpeed)
+        e.phaseMs = def.ranged.fireIntervalMs
+      }
+    } else if (def.behaviour === 'charge' && def.charge) {
+      const c = def.charge
+      e.phaseMs -= deltaMs
+      if (e.phase === 'move') {
+        mx = nx; my = ny
+        if (dist <= c.triggerRange) {
+          // Telegraph: lock direction before dashing
+          e.phase = 'windup'; e.phaseMs = c.windupMs
+          e.dirX = nx; e.dirY = ny
+        }
+      } else if (e.phase === 'windup') {
+        if (e.phaseMs <= 0) { e.phase = 'dash'; e.phaseMs = c.dashMs }
+      } else if (e.phase === 'dash') {
+        mx = e.dirX; my = e.dirY; speed = c.dashSpeed
+        if (e.phaseMs <= 0) { e.phase = 'recover'; e.phaseMs = c.recoverMs }
+      } else if (e.phaseMs <= 0) {
+        e.phase = 'move'
+      }
+    } else {
+      mx = nx; my = ny
+    }
+
+    e.px = e.x; e.py = e.y
+    const decay = Math.exp(-KNOCKBACK_DECAY * dt)
+    e.kbx *= decay; e.kby *= decay
+    // Keep fully on screen
+    const clamped = this.clamp(e.x + (mx * speed + e.kbx) * dt, e.y + (my * speed + e.kby) * dt, def.radius)
+    e.x = clamped.x; e.y = clamped.y
+  }
+
+  private updateBoss(dtMs: number): void {
+    const boss = this.boss
+    if (!boss) return
+    const { e, brain, maxHp } = boss
+    const spec = e.def.boss!
+    const changed = brain.update(dtMs, Math.max(0, e.hp) / maxHp, { x: e.x, y: e.y, r: e.def.radius }, this.player,
+      s => this.fireHostile('boss', s.x, s.y, s.vx, s.vy, spec.shotDamage, Math.hypot(s.vx, s.vy)))
+    if (changed) this.host.bossPhase?.(spec, brain.phaseIndex)
+  }
+
+  private damageEnemy(e: SimEnemy, amount: number, fromVx: number, fromVy: number): void {
+    e.hp -= amount
+    const sp = Math.hypot(fromVx, fromVy) || 1
+    const kb = KNOCKBACK_SPEED * (1 - e.def.knockbackResist)
+    e.kbx += (fromVx / sp) * kb
+    e.kby += (fromVy / sp) * kb
+    if (e.hp > 0) e.flashMs = HIT_FLASH_MS
+  }
+
+  private killEnemy(e: SimEnemy): void {
+    const idx = this.enemies.indexOf(e)
+    if (idx < 0) return
+    this.enemies.splice(idx, 1)
+    this.host.enemyKilled(e)
+    if (this.boss?.e === e) {
+      this.boss = undefined
+      this.host.bossDefeated?.(e)
+    }
+    const split = e.def.split
+    if (split) {
+      const child = getArchetype(split.into)
+      for (let i = 0; i < split.count; i++) {
+        const a = (i / split.count) * Math.PI * 2 + this.rng.next() * 0.5
+        const off = e.def.radius + child.radius
+        const c = this.spawnEnemy(child, { at: { x: e.x + Math.cos(a) * off, y: e.y + Math.sin(a) * off } })
+        c.kbx = Math.cos(a) * KNOCKBACK_SPEED
+        c.kby = Math.sin(a) * KNOCKBACK_SPEED
+      }
+    }
+  }
+
+  private clamp(x: number, y: number, r: number): { x: number; y: number } {
+    return {
+      x: Math.min(Math.max(x, r), Math.max(r, this.bounds.width - r)),
+      y: Math.min(Math.max(y, r), Math.max(r, this.bounds.height - r))
+    }
+  }
+}
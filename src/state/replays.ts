@@ -0,0 +1,23 @@
+import { parseReplay, serializeReplay, type Replay } from '../sim/replay'
+import * as store from './storage'
+
+// Last recorded run per save slot
+const REPLAY_PREFIX = 'mfg:replay:'
+
+export function saveLastReplay(slotId: string, replay: Replay): void {
+  store.setItem(REPLAY_PREFIX + slotId, serializeReplay(replay))
+}
+
+export function loadLastReplayText(slotId: string): string | null {
+  return store.getItem(REPLAY_PREFIX + slotId)
+}
+
+export function loadLastReplay(slotId: string): Replay | null {
+  const raw = loadLastReplayText(slotId)
+  if (!raw) return null
+  try { return parseReplay(raw) } catch { return null }
+}
+
+export function deleteLastReplay(slotId: string): void {
+  store.removeItem(REPLAY_PREFIX + slotId)
+}
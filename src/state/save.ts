@@ -1,5 +1,9 @@
-export type HairStyle = 'none' | 'spike' | 'bob'
-export type OutfitStyle = 'suit' | 'robe' | 'armor'
+import * as store from './storage'
+
+export type HairStyle = 'none' | 'spike' | 'bob' | 'mohawk' | 'long'
+export type OutfitStyle = 'suit' | 'robe' | 'armor' | 'coat' | 'hoodie'
+export type FaceStyle = 'blank' | 'dots' | 'wide' | 'sleepy'
+export type AccessoryStyle = 'none' | 'hat' | 'cape' | 'visor'
 
 export interface AppearanceV2 {
   hair: HairStyle
@@ -8,23 +12,40 @@ export interface AppearanceV2 {
   outfit: OutfitStyle
 }
 
-export type Appearance = AppearanceV2
+export interface AppearanceV3 {
+  hair: HairStyle
+  face: FaceStyle
+  outfit: OutfitStyle
+  accessory: AccessoryStyle
+  bodyColor: number
+  hairColor: number
+  outfitColor: number
+}
+
+export type Appearance = AppearanceV3
+
+// Outfits were always this grey before they had their own color
+export const DEFAULT_OUTFIT_COLOR = 0x9097a5
 
 export interface SaveDataV1 {
   version: 1
   appearance: { hair: HairStyle; color: number; outfit: OutfitStyle }
 }
 
+export interface UpgradeLevels {
+  maxHp: number
+  bulletSpeedPct: number
+  dashSpeedPct: number
+  fireRatePct: number
+  pierce: number
+  healOnClear: number
+  // Nodes added to the upgrade catalog later are stored under their id
+  [id: string]: number
+}
+
 export interface MetaProgress {
   cores: number
-  upgrades: {
-    maxHp: number
-    bulletSpeedPct: number
-    dashSpeedPct: number
-    fireRatePct: number
-    pierce: number
-    healOnClear: number
-  }
+  upgrades: UpgradeLevels
 }
 
 export interface SaveDataV2 {
@@ -34,116 +55,554 @@ export interface SaveDataV2 {
   meta: MetaProgress
 }
 
-export type SaveData = SaveDataV2
+// What v2 validation lets through: early v2 saves predate name, hairColor and meta, and kept v1's color
+type SaveDataV2Early = Omit<SaveDataV2, 'name' | 'appearance' | 'meta'> & {
+  name?: string
+  appearance: Pick<AppearanceV2, 'hair' | 'outfit'> & { bodyColor?: number; color?: number; hairColor?: number }
+  meta?: Partial<MetaProgress>
+}
+
+// Lifetime totals across every run of this character
+export interface RunStatistics {
+  runs: number
+  deaths: number
+  bestLevel: number
+  kills: number
+  bossKills: number
+  coresEarned: number
+  playTimeMs: number
+}
+
+// 'dash': click to dash (the original model); 'wasd': walk with the movement keys, dash is a short burst
+export type MovementMode = 'dash' | 'wasd'
+
+export interface Settings {
+  masterVolume: number
+  musicVolume: number
+  sfxVolume: number
+  // Control remaps as action id -> inputs; only actions changed from the defaults are stored
+  keyBindings: Record<string, string[]>
+  movement: MovementMode
+}
+
+export interface Unlocks {
+  // Cosmetic ids (data/cosmetics.ts) this slot has earned or bought for the character builder
+  cosmetics: string[]
+}
+
+export interface SaveDataV3 {
+  version: 3
+  name: string
+  appearance: AppearanceV2
+  meta: MetaProgress
+  stats: RunStatistics
+  settings: Settings
+  unlocks: Unlocks
+}
+
+export interface SaveDataV4 {
+  version: 4
+  name: string
+  appearance: AppearanceV3
+  meta: MetaProgress
+  stats: RunStatistics
+  settings: Settings
+  unlocks: Unlocks
+}
+
+export type SaveData = SaveDataV4
+
+export const SAVE_VERSION = 4
 
 export interface SlotMeta {
   id: string
   createdAt: number
   name?: string
+  lastPlayedAt?: number
+  // Set when the payload failed validation; the raw text is kept under the quarantine key
+  quarantined?: { at: number; reason: string }
 }
 
+// What a slot holds right now; only 'ok' slots are playable
+export type SlotStatus =
+  | { kind: 'ok'; data: SaveData }
+  | { kind: 'missing' }
+  | { kind: 'future'; version: number }
+  | { kind: 'corrupt'; errors: string[] }
+
 const INDEX_KEY = 'mfg:slots:index'
+// Index entries that failed validation (or the whole index text when it isn't JSON), kept for recovery
+const INDEX_QUARANTINE_KEY = 'mfg:slots:index:bad'
 const SLOT_PREFIX = 'mfg:slot:'
+const QUARANTINE_PREFIX = 'mfg:quarantine:'
+const TEMP_PREFIX = 'mfg:tmp:'
+const BACKUP_PREFIX = 'mfg:backup:'
 const CURRENT_KEY = 'mfg:currentSlot'
+const SORT_KEY = 'mfg:slots:sort'
+const PALETTES_KEY = 'mfg:palettes'
+
+// How many earlier payloads each slot keeps for "Restore backup"
+export const BACKUP_COUNT = 3
+
+export interface SlotBackup {
+  savedAt: number
+  raw: string
+}
+
+export function emptyUpgrades(): UpgradeLevels {
+  return { maxHp: 0, bulletSpeedPct: 0, dashSpeedPct: 0, fireRatePct: 0, pierce: 0, healOnClear: 0 }
+}
+
+export function emptyStatistics(): RunStatistics {
+  return { runs: 0, deaths: 0, bestLevel: 0, kills: 0, bossKills: 0, coresEarned: 0, playTimeMs: 0 }
+}
+
+export function defaultSettings(): Settings {
+  return { masterVolume: 0.8, musicVolume: 0.6, sfxVolume: 0.8, keyBindings: {}, movement: 'dash' }
+}
+
+export function defaultUnlocks(): Unlocks {
+  return { cosmetics: [] }
+}
+
+// ===== Versioned schema =====
+// Each version validates its own shape and knows how to lift data to the next one.
+// loadSlot runs the chain from whatever version is stored up to SAVE_VERSION.
+interface SaveSchema<T = unknown, Next = unknown> {
+  validate(raw: Record<string, unknown>): string[]
+  // Only called with data this version's validate accepted
+  migrate?(data: T): Next
+}
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v)
+const isNum = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v)
+
+function checkAppearance(a: unknown, colorKeys: string[], errors: string[]): void {
+  if (!isObject(a)) { errors.push('appearance: missing'); return }
+  if (typeof a.hair !== 'string') errors.push('appearance.hair: expected string')
+  if (typeof a.outfit !== 'string') errors.push('appearance.outfit: expected string')
+  for (const k of colorKeys) if (!isNum(a[k])) errors.push(`appearance.${k}: expected number`)
+}
+
+function checkNumbers(obj: unknown, path: string, keys: string[], errors: string[]): void {
+  if (!isObject(obj)) { errors.push(`${path}: missing`); return }
+  for (const k of keys) if (!isNum(obj[k])) errors.push(`${path}.${k}: expected number`)
+}
+
+const SCHEMAS: {
+  1: SaveSchema<SaveDataV1, SaveDataV2>
+  2: SaveSchema<SaveDataV2Early, SaveDataV3>
+  3: SaveSchema<SaveDataV3, SaveDataV4>
+  4: SaveSchema<SaveDataV4, never>
+} = {
+  1: {
+    validate: raw => {
+      const errors: string[] = []
+      checkAppearance(raw.appearance, ['color'], errors)
+      return errors
+    },
+    migrate: (v1: SaveDataV1): SaveDataV2 => ({
+      version: 2,
+      name: 'Unnamed',
+      appearance: { hair: v1.appearance.hair, bodyColor: v1.appearance.color, hairColor: 0x2b2b2b, outfit: v1.appearance.outfit },
+      meta: { cores: 0, upgrades: emptyUpgrades() }
+    })
+  },
+  2: {
+    // Early v2 saves were written before name/hairColor/meta existed; the migration fills those in
+    validate: raw => {
+      const errors: string[] = []
+      if (raw.name !== undefined && typeof raw.name !== 'string') errors.push('name: expected string')
+      if (!isObject(raw.appearance)) errors.push('appearance: missing')
+      else checkAppearance({ hairColor: 0, bodyColor: raw.appearance.color ?? 0, ...raw.appearance }, ['bodyColor', 'hairColor'], errors)
+      if (raw.meta !== undefined && !isObject(raw.meta)) errors.push('meta: expected object')
+      return errors
+    },
+    migrate: (v2: SaveDataV2Early): SaveDataV3 => {
+      const a = v2.appearance
+      const cores = v2.meta?.cores
+      return {
+        version: 3,
+        name: v2.name || 'Unnamed',
+        appearance: { hair: a.hair, outfit: a.outfit, bodyColor: a.bodyColor ?? a.color ?? 0, hairColor: a.hairColor || 0x2b2b2b },
+        meta: { cores: isNum(cores) ? cores : 0, upgrades: { ...emptyUpgrades(), ...(v2.meta?.upgrades ?? {}) } },
+        stats: emptyStatistics(),
+        settings: defaultSettings(),
+        unlocks: defaultUnlocks()
+      }
+    }
+  },
+  3: {
+    validate: raw => {
+      const errors: string[] = []
+      checkAppearance(raw.appearance, ['bodyColor', 'hairColor'], errors)
+      checkProgress(raw, errors)
+      return errors
+    },
+    // Characters keep their look: no face or accessory, and the outfit stays grey
+    migrate: (v3: SaveDataV3): SaveDataV4 => ({
+      ...v3,
+      version: 4,
+      appearance: { ...v3.appearance, face: 'blank', accessory: 'none', outfitColor: DEFAULT_OUTFIT_COLOR }
+    })
+  },
+  4: {
+    validate: raw => {
+      const errors: string[] = []
+      checkAppearance(raw.appearance, ['bodyColor', 'hairColor', 'outfitColor'], errors)
+      if (isObject(raw.appearance)) {
+        if (typeof raw.appearance.face !== 'string') errors.push('appearance.face: expected string')
+        if (typeof raw.appearance.accessory !== 'string') errors.push('appearance.accessory: expected string')
+      }
+      checkProgress(raw, errors)
+      return errors
+    }
+  }
+}
+
+// Everything v3 and later store besides the appearance
+function checkProgress(raw: Record<string, unknown>, errors: string[]): void {
+  if (typeof raw.name !== 'string') errors.push('name: expected string')
+  checkNumbers(raw.meta, 'meta', ['cores'], errors)
+  if (isObject(raw.meta)) checkNumbers(raw.meta.upgrades, 'meta.upgrades', Object.keys(emptyUpgrades()), errors)
+  checkNumbers(raw.stats, 'stats', Object.keys(emptyStatistics()), errors)
+  if (!isObject(raw.settings)) errors.push('settings: missing')
+  if (!isObject(raw.unlocks) || !Array.isArray(raw.unlocks.cosmetics)) errors.push('unlocks.cosmetics: expected array')
+}
+
+// Runs the migration chain on parsed JSON without touching storage
+export function upgradeSave(parsed: unknown): SlotStatus {
+  if (!isObject(parsed)) return { kind: 'corrupt', errors: ['not an object'] }
+  const version = parsed.version
+  if (!isNum(version) || !Number.isInteger(version) || version < 1) return { kind: 'corrupt', errors: [`version: ${JSON.stringify(version)}`] }
+  // Written by a newer build: leave it alone so that build can still read it
+  if (version > SAVE_VERSION) return { kind: 'future', version }
+  // The chain is walked by number; each step's data is what the previous validate accepted
+  const chain: Partial<Record<number, SaveSchema>> = SCHEMAS
+  const check = (v: number, data: unknown): string[] => {
+    const schema = chain[v]
+    if (!schema) return [`no schema for version ${v}`]
+    return isObject(data) ? schema.validate(data) : ['not an object']
+  }
+  let errors = check(version, parsed)
+  if (errors.length) return { kind: 'corrupt', errors: errors.map(e => `v${version} ${e}`) }
+  let data: unknown = parsed
+  for (let v = version; v < SAVE_VERSION; v++) {
+    data = chain[v]!.migrate!(data)
+    errors = check(v + 1, data)
+    if (errors.length) return { kind: 'corrupt', errors: errors.map(e => `v${v + 1} ${e}`) }
+  }
+  const save = data as SaveData
+  save.settings = normalizeSettings(save.settings)
+  return { kind: 'ok', data: save }
+}
+
+// Settings were added within v3 without a version bump, so each field falls back to its default
+// when it is missing (older v3 saves) or unusable (imported or hand-edited files)
+function normalizeSettings(raw: unknown): Settings {
+  const s = isObject(raw) ? raw : {}
+  const d = defaultSettings()
+  const volume = (v: unknown, fallback: number) => isNum(v) ? Math.min(1, Math.max(0, v)) : fallback
+  const keyBindings: Record<string, string[]> = {}
+  if (isObject(s.keyBindings)) {
+    for (const [action, inputs] of Object.entries(s.keyBindings)) {
+      if (Array.isArray(inputs) && inputs.every(i => typeof i === 'string')) keyBindings[action] = inputs
+    }
+  }
+  return {
+    masterVolume: volume(s.masterVolume, d.masterVolume),
+    musicVolume: volume(s.musicVolume, d.musicVolume),
+    sfxVolume: volume(s.sfxVolume, d.sfxVolume),
+    keyBindings,
+    movement: s.movement === 'dash' || s.movement === 'wasd' ? s.movement : d.movement
+  }
+}
 
 export function getDefaultAppearance(): Appearance {
-  return { hair: 'none', bodyColor: 0x00d9ff, hairColor: 0x2b2b2b, outfit: 'suit' }
+  return { hair: 'none', face: 'dots', outfit: 'suit', accessory: 'none', bodyColor: 0x00d9ff, hairColor: 0x2b2b2b, outfitColor: DEFAULT_OUTFIT_COLOR }
+}
+
+// Returns the errors for one index entry; empty when it can be used as a SlotMeta
+function validateSlotMeta(raw: unknown, seen: Set<string>): string[] {
+  if (!isObject(raw)) return ['not an object']
+  const errors: string[] = []
+  if (typeof raw.id !== 'string' || raw.id === '') errors.push('id: missing')
+  else if (seen.has(raw.id)) errors.push(`id: duplicate ${raw.id}`)
+  if (!isNum(raw.createdAt)) errors.push('createdAt: not a number')
+  if (raw.name !== undefined && typeof raw.name !== 'string') errors.push('name: not a string')
+  if (raw.lastPlayedAt !== undefined && !isNum(raw.lastPlayedAt)) errors.push('lastPlayedAt: not a number')
+  const q = raw.quarantined
+  if (q !== undefined && (!isObject(q) || !isNum(q.at) || typeof q.reason !== 'string')) errors.push('quarantined: malformed')
+  return errors
 }
 
+// Bad entries are moved aside one by one. An index that isn't a JSON array is moved aside whole and
+// rebuilt from the slots in storage, so one broken write can't hide every save.
 function readIndex(): SlotMeta[] {
+  const raw = store.getItem(INDEX_KEY)
+  let parsed: unknown = []
+  if (raw) {
+    try { parsed = JSON.parse(raw) } catch { parsed = undefined }
+  }
+  let needsWrite = false
+  const bad: unknown[] = []
+  const list: SlotMeta[] = []
+  const seen = new Set<string>()
+  if (Array.isArray(parsed)) {
+    for (const entry of parsed) {
+      if (validateSlotMeta(entry, seen).length > 0) { bad.push(entry); continue }
+      const meta = entry as SlotMeta
+      seen.add(meta.id)
+      list.push(meta)
+    }
+  } else {
+    bad.push(raw)
+    for (const key of store.keysWithPrefix(SLOT_PREFIX)) list.push({ id: key.slice(SLOT_PREFIX.length), createdAt: 0 })
+  }
+  if (bad.length > 0) {
+    store.setItem(INDEX_QUARANTINE_KEY, JSON.stringify([...quarantinedIndexEntries(), ...bad]))
+    needsWrite = true
+  }
+  // Hydrate names if missing
+  const filled = list.map(meta => {
+    if (meta.name) return meta
+    needsWrite = true
+    return { ...meta, name: peekName(meta.id) ?? 'Unnamed' }
+  })
+  if (needsWrite) writeIndex(filled)
+  return filled
+}
+
+function quarantinedIndexEntries(): unknown[] {
   try {
-    const raw = localStorage.getItem(INDEX_KEY)
-    if (!raw) return []
-    let arr = JSON.parse(raw) as SlotMeta[]
-    if (!Array.isArray(arr)) arr = []
-    // Hydrate names if missing
-    let needsWrite = false
-    const filled = arr.map(meta => {
-      if (!meta.name) {
-        const s = loadSlot(meta.id)
-        const name = (s as any)?.name ?? 'Unnamed'
-        const withName = { ...meta, name }
-        needsWrite = true
-        return withName
-      }
-      return meta
-    })
-    if (needsWrite) writeIndex(filled as any)
-    return filled
+    const prev: unknown = JSON.parse(store.getItem(INDEX_QUARANTINE_KEY) ?? '[]')
+    return Array.isArray(prev) ? prev : []
   } catch { return [] }
 }
 
+function peekName(id: string): string | undefined {
+  try {
+    const name = JSON.parse(store.getItem(SLOT_PREFIX + id) ?? 'null')?.name
+    return typeof name === 'string' ? name : undefined
+  } catch { return undefined }
+}
+
 function writeIndex(list: SlotMeta[]): void {
-  localStorage.setItem(INDEX_KEY, JSON.stringify(list))
+  store.setItem(INDEX_KEY, JSON.stringify(list))
 }
 
 export function listSlots(): SlotMeta[] { return readIndex() }
 
-export function getCurrentSlotId(): string | null { try { return localStorage.getItem(CURRENT_KEY) } catch { return null } }
-export function setCurrentSlot(id: string | null): void { if (id === null) localStorage.removeItem(CURRENT_KEY); else localStorage.setItem(CURRENT_KEY, id) }
+export type SlotSort = 'played' | 'created' | 'name'
 
-export function loadSlot(id: string): SaveData | null {
+export const SLOT_SORTS: { id: SlotSort; label: string }[] = [
+  { id: 'played', label: 'Last played' },
+  { id: 'created', label: 'Created' },
+  { id: 'name', label: 'Name' }
+]
+
+// Newest first for the date orders; slots never played fall back to their creation time
+export function sortSlots(list: SlotMeta[], by: SlotSort): SlotMeta[] {
+  const played = (s: SlotMeta) => s.lastPlayedAt ?? s.createdAt
+  const out = [...list]
+  if (by === 'played') out.sort((a, b) => played(b) - played(a))
+  else if (by === 'created') out.sort((a, b) => b.createdAt - a.createdAt)
+  else out.sort((a, b) => (a.name ?? '').localeCompare(b.name ?? '', undefined, { sensitivity: 'base' }) || a.createdAt - b.createdAt)
+  return out
+}
+
+export function getSlotSort(): SlotSort {
+  const v = store.getItem(SORT_KEY)
+  return SLOT_SORTS.some(s => s.id === v) ? v as SlotSort : 'played'
+}
+
+export function setSlotSort(by: SlotSort): void { store.setItem(SORT_KEY, by) }
+
+// Color presets saved from the character builder; shared by every slot
+export interface Palette {
+  bodyColor: number
+  hairColor: number
+  outfitColor: number
+}
+
+export const MAX_SAVED_PALETTES = 4
+
+export function listSavedPalettes(): Palette[] {
   try {
-    const raw = localStorage.getItem(SLOT_PREFIX + id)
-    if (!raw) return null
-    const parsed = JSON.parse(raw) as any
-    if (parsed.version === 2) {
-      // Fill missing fields if older v2 structure
-      if (!parsed.name) parsed.name = 'Unnamed'
-      if (!parsed.appearance?.hairColor) parsed.appearance.hairColor = 0x2b2b2b
-      if (!parsed.appearance?.bodyColor && parsed.appearance?.color) parsed.appearance.bodyColor = parsed.appearance.color
-      if (!parsed.meta) parsed.meta = { cores: 0, upgrades: { maxHp: 0, bulletSpeedPct: 0, dashSpeedPct: 0, fireRatePct: 0, pierce: 0, healOnClear: 0 } }
-      // Fill newly added upgrade keys if missing
-      if (!parsed.meta.upgrades) parsed.meta.upgrades = { maxHp: 0, bulletSpeedPct: 0, dashSpeedPct: 0, fireRatePct: 0, pierce: 0, healOnClear: 0 }
-      if (parsed.meta.upgrades.fireRatePct === undefined) parsed.meta.upgrades.fireRatePct = 0
-      if (parsed.meta.upgrades.pierce === undefined) parsed.meta.upgrades.pierce = 0
-      if (parsed.meta.upgrades.healOnClear === undefined) parsed.meta.upgrades.healOnClear = 0
-      localStorage.setItem(SLOT_PREFIX + id, JSON.stringify(parsed))
-      return parsed as SaveDataV2
-    }
-    if (parsed.version === 1) {
-      const v1 = parsed as SaveDataV1
-      const up: SaveDataV2 = {
-        version: 2,
-        name: 'Unnamed',
-        appearance: {
-          hair: v1.appearance.hair,
-          bodyColor: v1.appearance.color,
-          hairColor: 0x2b2b2b,
-          outfit: v1.appearance.outfit
-        },
-        meta: { cores: 0, upgrades: { maxHp: 0, bulletSpeedPct: 0, dashSpeedPct: 0, fireRatePct: 0, pierce: 0, healOnClear: 0 } }
-      }
-      localStorage.setItem(SLOT_PREFIX + id, JSON.stringify(up))
-      return up
-    }
-    return null
-  } catch { return null }
+    const arr = JSON.parse(store.getItem(PALETTES_KEY) ?? '[]')
+    if (!Array.isArray(arr)) return []
+    return arr.filter(p => isObject(p) && isNum(p.bodyColor) && isNum(p.hairColor) && isNum(p.outfitColor))
+      .map(p => ({ bodyColor: p.bodyColor, hairColor: p.hairColor, outfitColor: p.outfitColor }))
+      .slice(0, MAX_SAVED_PALETTES)
+  } catch { return [] }
+}
+
+// Newest first: saving a palette that is already listed moves it to the front, and the oldest drops off when full
+export function savePalette(p: Palette): Palette[] {
+  const same = (q: Palette) => q.bodyColor === p.bodyColor && q.hairColor === p.hairColor && q.outfitColor === p.outfitColor
+  const list = [{ bodyColor: p.bodyColor, hairColor: p.hairColor, outfitColor: p.outfitColor }, ...listSavedPalettes().filter(q => !same(q))].slice(0, MAX_SAVED_PALETTES)
+  store.setItem(PALETTES_KEY, JSON.stringify(list))
+  return list
+}
+
+export function deleteSavedPalette(index: number): Palette[] {
+  const list = listSavedPalettes().filter((_, i) => i !== index)
+  store.setItem(PALETTES_KEY, JSON.stringify(list))
+  return list
+}
+
+export function markPlayed(id: string): void {
+  writeIndex(readIndex().map(s => s.id === id ? { ...s, lastPlayedAt: Date.now() } : s))
+}
+
+export function getCurrentSlotId(): string | null { return store.getItem(CURRENT_KEY) }
+export function setCurrentSlot(id: string | null): void { if (id === null) store.removeItem(CURRENT_KEY); else store.setItem(CURRENT_KEY, id) }
+
+// Reads, validates and migrates a slot. Older versions are written back upgraded;
+// corrupted payloads are moved to quarantine so they can't be played or overwritten.
+export function checkSlot(id: string): SlotStatus {
+  finishInterruptedWrite(id)
+  const raw = store.getItem(SLOT_PREFIX + id)
+  if (!raw) {
+    const q = readIndex().find(s => s.id === id)?.quarantined
+    return q ? { kind: 'corrupt', errors: [q.reason] } : { kind: 'missing' }
+  }
+  let parsed: unknown
+  try { parsed = JSON.parse(raw) } catch { parsed = undefined }
+  const status = parsed === undefined ? { kind: 'corrupt' as const, errors: ['not valid JSON'] } : upgradeSave(parsed)
+  if (status.kind === 'corrupt') quarantineSlot(id, raw, status.errors[0])
+  else if (status.kind === 'ok' && isObject(parsed) && parsed.version !== SAVE_VERSION) {
+    writeSlot(id, JSON.stringify(status.data))
+  }
+  return status
+}
+
+export function loadSlot(id: string): SaveData | null {
+  const status = checkSlot(id)
+  return status.kind === 'ok' ? status.data : null
+}
+
+function quarantineSlot(id: string, raw: string, reason: string): void {
+  store.setItem(QUARANTINE_PREFIX + id, raw)
+  store.removeItem(SLOT_PREFIX + id)
+  writeIndex(readIndex().map(s => s.id === id ? { ...s, quarantined: { at: Date.now(), reason } } : s))
 }
 
 export function loadCurrent(): SaveData | null { const id = getCurrentSlotId(); return id ? loadSlot(id) : null }
 
 export function createSlot(appearance: Appearance, name: string): string {
-  const id = 's-' + Date.now().toString(36)
-  const meta: SlotMeta = { id, createdAt: Date.now(), name }
-  const list = readIndex(); list.push(meta); writeIndex(list)
-  const data: SaveDataV2 = { version: 2, appearance, name, meta: { cores: 0, upgrades: { maxHp: 0, bulletSpeedPct: 0, dashSpeedPct: 0, fireRatePct: 0, pierce: 0, healOnClear: 0 } } }
-  localStorage.setItem(SLOT_PREFIX + id, JSON.stringify(data))
+  const list = readIndex()
+  const id = freshSlotId(list)
+  const data: SaveData = { version: SAVE_VERSION, appearance, name, meta: { cores: 0, upgrades: emptyUpgrades() }, stats: emptyStatistics(), settings: defaultSettings(), unlocks: defaultUnlocks() }
+  // Payload first: an index entry must never point at a slot that was never written
+  writeSlot(id, JSON.stringify(data))
+  list.push({ id, createdAt: Date.now(), name })
+  writeIndex(list)
   setCurrentSlot(id)
   return id
 }
 
+// Renames both the payload and the index entry; a name another slot already uses gets a " (2)" suffix
+export function renameSlot(id: string, name: string): string | null {
+  const list = readIndex()
+  const unique = uniqueName(name.trim() || 'Unnamed', list.filter(s => s.id !== id))
+  if (!updateSlot(id, d => { d.name = unique })) return null
+  writeIndex(list.map(s => s.id === id ? { ...s, name: unique } : s))
+  return unique
+}
+
+// Copies a playable slot (progress included) into a new slot; returns the new id
+export function duplicateSlot(id: string): string | null {
+  const data = loadSlot(id)
+  if (!data) return null
+  const list = readIndex()
+  const copy = freshSlotId(list)
+  const name = uniqueName(data.name, list)
+  writeSlot(copy, JSON.stringify({ ...data, name }))
+  list.push({ id: copy, createdAt: Date.now(), name })
+  writeIndex(list)
+  return copy
+}
+
 export function deleteSlot(id: string): void {
-  try {
-    const list = readIndex().filter(s => s.id !== id)
-    writeIndex(list)
-    localStorage.removeItem(SLOT_PREFIX + id)
-    if (getCurrentSlotId() === id) setCurrentSlot(list[0]?.id ?? null)
-  } catch {}
+  const list = readIndex().filter(s => s.id !== id)
+  writeIndex(list)
+  store.removeItem(SLOT_PREFIX + id)
+  store.removeItem(QUARANTINE_PREFIX + id)
+  store.removeItem(TEMP_PREFIX + id)
+  store.removeItem(BACKUP_PREFIX + id)
+  if (getCurrentSlotId() === id) setCurrentSlot(list[0]?.id ?? null)
 }
 
 export function hasAnySlots(): boolean { return readIndex().length > 0 }
 
+// ===== Portable save files =====
+// Exported files wrap the slot payload with a checksum so hand-edited or truncated files are rejected on import
+const EXPORT_FORMAT = 'mfg-save'
+
+export interface SaveFile {
+  format: typeof EXPORT_FORMAT
+  exportedAt: number
+  checksum: string
+  save: unknown
+}
+
+// FNV-1a over the serialized payload; enough to catch edits, not meant to stop a determined cheater
+export function saveChecksum(text: string): string {
+  let h = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i)
+    h = Math.imul(h, 0x01000193)
+  }
+  return (h >>> 0).toString(16).padStart(8, '0')
+}
+
+// Serialized save file for a playable slot, or null when the slot can't be loaded
+export function exportSlot(id: string): string | null {
+  const data = loadSlot(id)
+  if (!data) return null
+  const file: SaveFile = { format: EXPORT_FORMAT, exportedAt: Date.now(), checksum: saveChecksum(JSON.stringify(data)), save: data }
+  return JSON.stringify(file, null, 2)
+}
+
+// Validates an exported file, upgrades it to the current version and stores it under a fresh slot.
+// Throws an Error with a message meant for the player when the file can't be used.
+export function importSave(text: string): { id: string; name: string } {
+  let file: unknown
+  try { file = JSON.parse(text) } catch { throw new Error('Not a save file (invalid JSON)') }
+  if (!isObject(file) || file.format !== EXPORT_FORMAT || !('save' in file)) throw new Error('Not a save file')
+  if (typeof file.checksum !== 'string' || saveChecksum(JSON.stringify(file.save)) !== file.checksum) {
+    throw new Error('Save file was modified or damaged (checksum mismatch)')
+  }
+  const status = upgradeSave(file.save)
+  if (status.kind === 'future') throw new Error(`Save is from a newer version (v${status.version}); update the game to import it`)
+  if (status.kind !== 'ok') throw new Error(`Save file is invalid: ${status.kind === 'corrupt' ? status.errors[0] : 'no data'}`)
+  const list = readIndex()
+  const name = uniqueName(status.data.name, list)
+  const id = freshSlotId(list)
+  writeSlot(id, JSON.stringify({ ...status.data, name }))
+  list.push({ id, createdAt: Date.now(), name })
+  writeIndex(list)
+  return { id, name }
+}
+
+function freshSlotId(list: SlotMeta[]): string {
+  const base = 's-' + Date.now().toString(36)
+  let id = base
+  for (let n = 2; list.some(s => s.id === id); n++) id = `${base}-${n}`
+  return id
+}
+
+// "Ada" -> "Ada (2)" when another slot already uses the name; copies of "Ada (2)" count on from "Ada"
+function uniqueName(name: string, list: SlotMeta[]): string {
+  const taken = new Set(list.map(s => s.name))
+  if (!taken.has(name)) return name
+  const base = name.replace(/ \(\d+\)$/, '')
+  let n = 2
+  while (taken.has(`${base} (${n})`)) n++
+  return `${base} (${n})`
+}
+
 // Shims for earlier code
 export function hasSave(): boolean { return hasAnySlots() }
 export function loadSave(): SaveData | null { return loadCurrent() }
@@ -151,5 +610,67 @@ export function saveNew(appearance: Appearance, name: string): void { createSlot
 export function deleteSave(): void { const id = getCurrentSlotId(); if (id) deleteSlot(id) }
 
 export function saveSlot(id: string, data: SaveData): void {
-  localStorage.setItem(SLOT_PREFIX + id, JSON.stringify(data))
+  writeSlot(id, JSON.stringify(data))
+}
+
+// Load, change and write back as one step so a purchase or run payout is applied whole or not at all.
+// Returns the saved data, or null when the slot can't be loaded or the change returned false.
+export function updateSlot(id: string, change: (data: SaveData) => boolean | void): SaveData | null {
+  const data = loadSlot(id)
+  if (!data || change(data) === false) return null
+  writeSlot(id, JSON.stringify(data))
+  return data
+}
+
+// ===== Crash-safe writes =====
+// The new payload goes to a temp key first, the previous good payload is pushed onto the slot's
+// backups, and only then is the live key replaced. A crash at any point leaves either the old
+// payload or a complete temp copy that checkSlot finishes swapping in.
+function writeSlot(id: string, raw: string): void {
+  store.setItem(TEMP_PREFIX + id, raw)
+  const prev = store.getItem(SLOT_PREFIX + id)
+  if (prev && prev !== raw && isPlayable(prev)) pushBackup(id, prev)
+  store.setItem(SLOT_PREFIX + id, raw)
+  store.removeItem(TEMP_PREFIX + id)
+}
+
+function finishInterruptedWrite(id: string): void {
+  const tmp = store.getItem(TEMP_PREFIX + id)
+  if (tmp === null) return
+  if (isPlayable(tmp)) store.setItem(SLOT_PREFIX + id, tmp)
+  store.removeItem(TEMP_PREFIX + id)
+}
+
+function isPlayable(raw: string): boolean {
+  try { return upgradeSave(JSON.parse(raw)).kind === 'ok' } catch { return false }
+}
+
+function pushBackup(id: string, raw: string): void {
+  const backups = [{ savedAt: Date.now(), raw }, ...listBackups(id)].slice(0, BACKUP_COUNT)
+  store.setItem(BACKUP_PREFIX + id, JSON.stringify(backups))
+}
+
+// Newest first
+export function listBackups(id: string): SlotBackup[] {
+  try {
+    const list = JSON.parse(store.getItem(BACKUP_PREFIX + id) ?? '[]')
+    return Array.isArray(list) ? list.filter(b => typeof b?.raw === 'string' && typeof b.savedAt === 'number') : []
+  } catch { return [] }
+}
+
+// Replaces a broken or missing slot with its newest usable backup and lifts the quarantine mark.
+// Returns when that backup was taken, or null when none of them load.
+export function restoreBackup(id: string): number | null {
+  const backup = listBackups(id).find(b => isPlayable(b.raw))
+  if (!backup) return null
+  const status = upgradeSave(JSON.parse(backup.raw))
+  if (status.kind !== 'ok') return null
+  writeSlot(id, JSON.stringify(status.data))
+  store.removeItem(QUARANTINE_PREFIX + id)
+  writeIndex(readIndex().map(s => {
+    if (s.id !== id) return s
+    const { quarantined: _, ...rest } = s
+    return rest
+  }))
+  return backup.savedAt
 }
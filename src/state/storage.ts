@@ -0,0 +1,171 @@
+// Where save data physically lives. Backends are async so IndexedDB (or a desktop shell) can sit
+// behind the same interface; the game itself reads through a synchronous cache filled at boot.
+export interface SaveStorage {
+  readonly kind: StorageKind
+  readAll(): Promise<Map<string, string>>
+  write(key: string, value: string): Promise<void>
+  remove(key: string): Promise<void>
+}
+
+export type StorageKind = 'local' | 'indexeddb' | 'memory'
+
+// Reported when a write doesn't reach the backend; the cached value stays so the session can continue
+export interface StorageFailure {
+  key: string
+  quota: boolean
+  error: unknown
+}
+
+// Only our own keys are loaded from shared origins like localStorage
+const KEY_PREFIX = 'mfg:'
+
+export class LocalSaveStorage implements SaveStorage {
+  readonly kind = 'local'
+
+  async readAll(): Promise<Map<string, string>> {
+    const out = new Map<string, string>()
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i)
+      if (!key?.startsWith(KEY_PREFIX)) continue
+      const value = localStorage.getItem(key)
+      if (value !== null) out.set(key, value)
+    }
+    return out
+  }
+
+  async write(key: string, value: string): Promise<void> { localStorage.setItem(key, value) }
+  async remove(key: string): Promise<void> { localStorage.removeItem(key) }
+}
+
+export class MemorySaveStorage implements SaveStorage {
+  readonly kind = 'memory'
+  readonly data: Map<string, string>
+
+  constructor(initial: Record<string, string> = {}) { this.data = new Map(Object.entries(initial)) }
+
+  async readAll(): Promise<Map<string, string>> { return new Map(this.data) }
+  async write(key: string, value: string): Promise<void> { this.data.set(key, value) }
+  async remove(key: string): Promise<void> { this.data.delete(key) }
+}
+
+export class IndexedDbSaveStorage implements SaveStorage {
+  readonly kind = 'indexeddb'
+  private static readonly STORE = 'kv'
+
+  private constructor(private readonly db: IDBDatabase) {}
+
+  static open(name = 'mfg-saves'): Promise<IndexedDbSaveStorage> {
+    return new Promise((resolve, reject) => {
+      const req = indexedDB.open(name, 1)
+      req.onupgradeneeded = () => { req.result.createObjectStore(IndexedDbSaveStorage.STORE) }
+      req.onsuccess = () => resolve(new IndexedDbSaveStorage(req.result))
+      req.onerror = () => reject(req.error)
+      req.onblocked = () => reject(new Error('IndexedDB open blocked'))
+    })
+  }
+
+  readAll(): Promise<Map<string, string>> {
+    return new Promise((resolve, reject) => {
+      const out = new Map<string, string>()
+      const req = this.db.transaction(IndexedDbSaveStorage.STORE, 'readonly').objectStore(IndexedDbSaveStorage.STORE).openCursor()
+      req.onsuccess = () => {
+        const cursor = req.result
+        if (!cursor) { resolve(out); return }
+        if (typeof cursor.value === 'string') out.set(String(cursor.key), cursor.value)
+        cursor.continue()
+      }
+      req.onerror = () => reject(req.error)
+    })
+  }
+
+  write(key: string, value: string): Promise<void> { return this.run(store => store.put(value, key)) }
+  remove(key: string): Promise<void> { return this.run(store => store.delete(key)) }
+
+  // Resolves once the transaction commits; quota errors surface as a transaction abort
+  private run(op: (store: IDBObjectStore) => void): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const tx = this.db.transaction(IndexedDbSaveStorage.STORE, 'readwrite')
+      op(tx.objectStore(IndexedDbSaveStorage.STORE))
+      tx.oncomplete = () => resolve()
+      tx.onabort = () => reject(tx.error)
+      tx.onerror = () => reject(tx.error)
+    })
+  }
+}
+
+// ===== Synchronous cache over the active backend =====
+let backend: SaveStorage = new MemorySaveStorage()
+const cache = new Map<string, string>()
+const pending = new Set<Promise<unknown>>()
+const failureListeners = new Set<(failure: StorageFailure) => void>()
+
+// Swaps the backend and reloads the cache from it; must finish before any scene touches saves
+export async function installStorage(next: SaveStorage): Promise<void> {
+  await flushStorage()
+  const entries = await next.readAll()
+  backend = next
+  cache.clear()
+  entries.forEach((v, k) => cache.set(k, v))
+}
+
+// Opens the requested backend, falling back to localStorage and then memory when it isn't available
+export async function openStorage(kind: StorageKind = 'local'): Promise<SaveStorage> {
+  if (kind === 'indexeddb') {
+    try { return await IndexedDbSaveStorage.open() } catch { kind = 'local' }
+  }
+  if (kind === 'local') {
+    try {
+      const probe = KEY_PREFIX + 'probe'
+      localStorage.setItem(probe, '1')
+      localStorage.removeItem(probe)
+      return new LocalSaveStorage()
+    } catch {}
+  }
+  return new MemorySaveStorage()
+}
+
+export function storageKind(): StorageKind { return backend.kind }
+
+export function getItem(key: string): string | null { return cache.get(key) ?? null }
+
+export function keysWithPrefix(prefix: string): string[] {
+  return [...cache.keys()].filter(k => k.startsWith(prefix))
+}
+
+// Resolves to false when the backend rejected the write (listeners are told why)
+export function setItem(key: string, value: string): Promise<boolean> {
+  cache.set(key, value)
+  return track(key, backend.write(key, value))
+}
+
+export function removeItem(key: string): Promise<boolean> {
+  cache.delete(key)
+  return track(key, backend.remove(key))
+}
+
+// Waits for every write issued so far
+export async function flushStorage(): Promise<void> {
+  while (pending.size > 0) await Promise.all([...pending])
+}
+
+export function onStorageFailure(listener: (failure: StorageFailure) => void): () => void {
+  failureListeners.add(listener)
+  return () => { failureListeners.delete(listener) }
+}
+
+export function isQuotaError(err: unknown): boolean {
+  if (!(err instanceof Error) && !(typeof DOMException !== 'undefined' && err instanceof DOMException)) return false
+  const e = err as { name?: string; code?: number }
+  return e.name === 'QuotaExceededError' || e.name === 'NS_ERROR_DOM_QUOTA_REACHED' || e.code === 22 || e.code === 1014
+}
+
+function track(key: string, write: Promise<void>): Promise<boolean> {
+  const done = write.then(() => true, (error: unknown) => {
+    const failure: StorageFailure = { key, quota: isQuotaError(error), error }
+    failureListeners.forEach(fn => fn(failure))
+    return false
+  })
+  pending.add(done)
+  done.finally(() => pending.delete(done))
+  return done
+}
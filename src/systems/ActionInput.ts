@@ -0,0 +1,66 @@
+import Phaser from 'phaser'
+import { actionsFor, type ActionId, type Bindings } from '../data/controls'
+
+// Mouse-bound actions get the pointer that pressed; key-bound ones get nothing and use the cursor
+type ActionHandler = (pointer?: Phaser.Input.Pointer) => void
+
+// Turns raw key codes and mouse buttons into the profile's bound actions for one scene
+export class ActionMap {
+  private readonly handlers = new Map<ActionId, ActionHandler[]>()
+  private readonly held = new Set<string>()
+  private readonly onKeyDown = (e: KeyboardEvent) => {
+    this.held.add(e.code)
+    if (!e.repeat) this.fire(e.code)
+  }
+  private readonly onKeyUp = (e: KeyboardEvent) => { this.held.delete(e.code) }
+  private readonly onPointerDown = (p: Phaser.Input.Pointer) => {
+    this.held.add(`Mouse${p.button}`)
+    this.fire(`Mouse${p.button}`, p)
+  }
+  private readonly onPointerUp = (p: Phaser.Input.Pointer) => { this.held.delete(`Mouse${p.button}`) }
+  // Keyups are lost while the window is unfocused
+  private readonly onBlur = () => this.held.clear()
+
+  constructor(private readonly scene: Phaser.Scene, public bindings: Bindings) {
+    scene.input.keyboard?.on('keydown', this.onKeyDown)
+    scene.input.keyboard?.on('keyup', this.onKeyUp)
+    scene.input.on('pointerdown', this.onPointerDown)
+    scene.input.on('pointerup', this.onPointerUp)
+    scene.game.events.on(Phaser.Core.Events.BLUR, this.onBlur)
+    scene.events.once(Phaser.Scenes.Events.SHUTDOWN, () => this.destroy())
+  }
+
+  on(action: ActionId, handler: ActionHandler): this {
+    const list = this.handlers.get(action) ?? []
+    list.push(handler)
+    this.handlers.set(action, list)
+    return this
+  }
+
+  off(action: ActionId, handler: ActionHandler): this {
+    const list = this.handlers.get(action)
+    if (list) this.handlers.set(action, list.filter(h => h !== handler))
+    return this
+  }
+
+  // True while any input bound to the action is held (for modifiers like the straight dash)
+  isDown(action: ActionId): boolean {
+    return this.bindings[action].some(input => this.held.has(input))
+  }
+
+  destroy(): void {
+    this.scene.input.keyboard?.off('keydown', this.onKeyDown)
+    this.scene.input.keyboard?.off('keyup', this.onKeyUp)
+    this.scene.input.off('pointerdown', this.onPointerDown)
+    this.scene.input.off('pointerup', this.onPointerUp)
+    this.scene.game.events.off(Phaser.Core.Events.BLUR, this.onBlur)
+    this.handlers.clear()
+  }
+
+  private fire(input: string, pointer?: Phaser.Input.Pointer): void {
+    for (const action of actionsFor(this.bindings, input)) {
+      // Copy so handlers may unsubscribe themselves
+      for (const handler of [...(this.handlers.get(action) ?? [])]) handler(pointer)
+    }
+  }
+}
@@ -0,0 +1,207 @@
+import { MUSIC, SFX, channelVolume, noteFreq, type MusicId, type SfxId, type Tone, type Voice } from '../data/audio'
+
+type Volumes = { masterVolume: number; musicVolume: number; sfxVolume: number }
+
+// Notes are scheduled this far ahead of the audio clock by a coarse timer
+const LOOKAHEAD_S = 0.12
+const SCHEDULE_EVERY_MS = 30
+// The same effect retriggered faster than this is dropped (rapid fire, multi-kills)
+const SFX_MIN_GAP_MS = 35
+const DEFAULT_FADE_MS = 1200
+
+interface PlayingTrack {
+  id: MusicId
+  gain: GainNode
+  start: number
+  // Next step index per voice
+  next: number[]
+  stopAt?: number
+}
+
+// Synthesizes effects and loops music on one Web Audio graph that outlives scene changes.
+// Browsers keep the context suspended until a user gesture, so nothing sounds before unlock().
+export class AudioManager {
+  private ctx?: AudioContext
+  private music?: GainNode
+  private sfx?: GainNode
+  private noise?: AudioBuffer
+  private volumes: Volumes = { masterVolume: 0.8, musicVolume: 0.6, sfxVolume: 0.8 }
+  private tracks: PlayingTrack[] = []
+  private wanted?: MusicId
+  private timer?: ReturnType<typeof setInterval>
+  private lastSfx = new Map<SfxId, number>()
+  private gestureHooked = false
+
+  // Creates or resumes the context; call from inside an input handler
+  unlock(): void {
+    if (!this.ctx) {
+      const Ctor = window.AudioContext ?? (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext
+      if (!Ctor) return
+      const ctx = new Ctor()
+      this.ctx = ctx
+      this.music = ctx.createGain()
+      this.sfx = ctx.createGain()
+      this.music.connect(ctx.destination)
+      this.sfx.connect(ctx.destination)
+      this.applyVolumes()
+    }
+    if (this.ctx.state === 'suspended') void this.ctx.resume()
+    if (this.wanted && !this.tracks.some(t => t.id === this.wanted && t.stopAt === undefined)) this.playMusic(this.wanted, 400)
+  }
+
+  // Unlocks on the first pointer or key press anywhere on the page, like the fullscreen hook
+  unlockOnFirstGesture(): void {
+    if (this.gestureHooked) return
+    this.gestureHooked = true
+    const onGesture = () => {
+      this.unlock()
+      if (this.ctx?.state === 'running') return
+      // Some browsers only resume on a later gesture; keep listening until one works
+      window.addEventListener('pointerdown', onGesture, { once: true })
+      window.addEventListener('keydown', onGesture, { once: true })
+    }
+    window.addEventListener('pointerdown', onGesture, { once: true })
+    window.addEventListener('keydown', onGesture, { once: true })
+  }
+
+  setVolumes(v: Volumes): void {
+    this.volumes = { masterVolume: v.masterVolume, musicVolume: v.musicVolume, sfxVolume: v.sfxVolume }
+    this.applyVolumes()
+  }
+
+  play(id: SfxId): void {
+    const ctx = this.ctx
+    if (!ctx || ctx.state !== 'running' || !this.sfx) return
+    const now = performance.now()
+    if (now - (this.lastSfx.get(id) ?? -Infinity) < SFX_MIN_GAP_MS) return
+    this.lastSfx.set(id, now)
+    for (const tone of SFX[id]) this.playTone(tone, ctx.currentTime + (tone.delayMs ?? 0) / 1000)
+  }
+
+  // Crossfades to the track; a no-op when it is already playing. Remembered until audio unlocks.
+  playMusic(id: MusicId, fadeMs = DEFAULT_FADE_MS): void {
+    this.wanted = id
+    const ctx = this.ctx
+    if (!ctx || !this.music) return
+    if (this.tracks.some(t => t.id === id && t.stopAt === undefined)) return
+    const t0 = ctx.currentTime
+    const fade = fadeMs / 1000
+    this.fadeOutTracks(t0, fade)
+    const gain = ctx.createGain()
+    gain.gain.setValueAtTime(0, t0)
+    gain.gain.linearRampToValueAtTime(1, t0 + fade)
+    gain.connect(this.music)
+    this.tracks.push({ id, gain, start: t0 + 0.05, next: MUSIC[id].voices.map(() => 0) })
+    this.ensureScheduler()
+  }
+
+  stopMusic(fadeMs = DEFAULT_FADE_MS): void {
+    this.wanted = undefined
+    if (this.ctx) this.fadeOutTracks(this.ctx.currentTime, fadeMs / 1000)
+  }
+
+  private applyVolumes(): void {
+    if (!this.ctx || !this.music || !this.sfx) return
+    const t = this.ctx.currentTime
+    this.music.gain.setTargetAtTime(channelVolume(this.volumes, 'music'), t, 0.05)
+    this.sfx.gain.setTargetAtTime(channelVolume(this.volumes, 'sfx'), t, 0.05)
+  }
+
+  private fadeOutTracks(t0: number, fade: number): void {
+    for (const track of this.tracks) {
+      if (track.stopAt !== undefined) continue
+      const g = track.gain.gain
+      g.cancelScheduledValues(t0)
+      g.setValueAtTime(g.value, t0)
+      g.linearRampToValueAtTime(0, t0 + fade)
+      track.stopAt = t0 + fade
+    }
+  }
+
+  private ensureScheduler(): void {
+    if (this.timer !== undefined) return
+    this.timer = setInterval(() => this.schedule(), SCHEDULE_EVERY_MS)
+  }
+
+  // Queues every note that starts within the lookahead window and drops faded-out tracks
+  private schedule(): void {
+    const ctx = this.ctx
+    if (!ctx) return
+    const horizon = ctx.currentTime + LOOKAHEAD_S
+    for (const track of this.tracks) {
+      const spec = MUSIC[track.id]
+      const beat = 60 / spec.bpm
+      spec.voices.forEach((voice, vi) => {
+        const stepS = voice.stepBeats * beat
+        while (track.start + track.next[vi] * stepS < horizon) {
+          const at = track.start + track.next[vi] * stepS
+          const semis = voice.steps[track.next[vi] % voice.steps.length]
+          track.next[vi]++
+          if (semis === null || (track.stopAt !== undefined && at >= track.stopAt)) continue
+          if (at >= ctx.currentTime) this.playNote(voice, semis, at, stepS, track.gain)
+        }
+      })
+    }
+    const ended = this.tracks.filter(t => t.stopAt !== undefined && t.stopAt < ctx.currentTime)
+    for (const t of ended) t.gain.disconnect()
+    this.tracks = this.tracks.filter(t => !ended.includes(t))
+    if (this.tracks.length === 0 && this.timer !== undefined) { clearInterval(this.timer); this.timer = undefined }
+  }
+
+  private playNote(voice: Voice, semis: number, at: number, lengthS: number, out: GainNode): void {
+    const ctx = this.ctx!
+    const osc = ctx.createOscillator()
+    osc.type = voice.wave
+    osc.frequency.setValueAtTime(noteFreq(voice.root, semis), at)
+    const env = ctx.createGain()
+    env.gain.setValueAtTime(0, at)
+    env.gain.linearRampToValueAtTime(voice.gain, at + 0.01)
+    env.gain.exponentialRampToValueAtTime(0.0001, at + lengthS * 0.95)
+    osc.connect(env).connect(out)
+    osc.start(at)
+    osc.stop(at + lengthS)
+  }
+
+  private playTone(tone: Tone, at: number): void {
+    const ctx = this.ctx!
+    const dur = tone.durationMs / 1000
+    const env = ctx.createGain()
+    env.gain.setValueAtTime(0, at)
+    env.gain.linearRampToValueAtTime(tone.gain, at + 0.005)
+    env.gain.exponentialRampToValueAtTime(0.0001, at + dur)
+    env.connect(this.sfx!)
+    let src: AudioScheduledSourceNode
+    if (tone.wave === 'noise') {
+      // Noise is shaped by a band-pass that sweeps like an oscillator would
+      const buf = ctx.createBufferSource()
+      buf.buffer = this.noiseBuffer()
+      const filter = ctx.createBiquadFilter()
+      filter.type = 'bandpass'
+      filter.frequency.setValueAtTime(tone.freq, at)
+      if (tone.freqEnd) filter.frequency.exponentialRampToValueAtTime(tone.freqEnd, at + dur)
+      buf.connect(filter).connect(env)
+      src = buf
+    } else {
+      const osc = ctx.createOscillator()
+      osc.type = tone.wave
+      osc.frequency.setValueAtTime(tone.freq, at)
+      if (tone.freqEnd) osc.frequency.exponentialRampToValueAtTime(tone.freqEnd, at + dur)
+      osc.connect(env)
+      src = osc
+    }
+    src.start(at)
+    src.stop(at + dur + 0.02)
+  }
+
+  private noiseBuffer(): AudioBuffer {
+    if (this.noise) return this.noise
+    const ctx = this.ctx!
+    const buf = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate)
+    const data = buf.getChannelData(0)
+    for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1
+    this.noise = buf
+    return buf
+  }
+}
+
+export const audio = new AudioManager()
@@ -0,0 +1,82 @@
+import Phaser from 'phaser'
+
+// Standard-mapping button indices
+const BTN_A = 0
+const BTN_Y = 3
+const BTN_LB = 4
+const BTN_RT = 7
+const BTN_START = 9
+
+// Full left-stick tilt dashes this far; smaller tilts scale it down
+export const PAD_DASH_DISTANCE = 260
+const MOVE_THRESHOLD = 0.35
+const AIM_THRESHOLD = 0.3
+const TRIGGER_THRESHOLD = 0.5
+
+// One frame of combat-relevant gamepad state
+export interface PadFrame {
+  // Left stick direction (unit vector) and tilt 0..1, when outside the rest zone
+  move: { x: number; y: number; tilt: number } | null
+  // True on the frame the left stick leaves the rest zone
+  moveStarted: boolean
+  // Right stick direction (unit vector) when pushed
+  aim: { x: number; y: number } | null
+  fire: boolean
+  // LB edge: dash burst in the WASD movement mode
+  burst: boolean
+  // Edges: A/Start confirm (next level, close summary), Start/Y restart after game over
+  confirm: boolean
+  restart: boolean
+}
+
+// Polls the first connected pad each frame and reports hot-plugging through onChange
+export class GamepadControls {
+  private prev: boolean[] = []
+  private moving = false
+
+  constructor(private readonly scene: Phaser.Scene, onChange: (pad: Phaser.Input.Gamepad.Gamepad, connected: boolean) => void) {
+    const plugin = scene.input.gamepad
+    if (!plugin) return
+    const connected = (pad: Phaser.Input.Gamepad.Gamepad) => onChange(pad, true)
+    const disconnected = (pad: Phaser.Input.Gamepad.Gamepad) => { this.prev = []; this.moving = false; onChange(pad, false) }
+    plugin.on(Phaser.Input.Gamepad.Events.CONNECTED, connected)
+    plugin.on(Phaser.Input.Gamepad.Events.DISCONNECTED, disconnected)
+    scene.events.once(Phaser.Scenes.Events.SHUTDOWN, () => {
+      plugin.off(Phaser.Input.Gamepad.Events.CONNECTED, connected)
+      plugin.off(Phaser.Input.Gamepad.Events.DISCONNECTED, disconnected)
+    })
+    // Pads the browser already exposed before this scene started
+    if (this.pad) onChange(this.pad, true)
+  }
+
+  get pad(): Phaser.Input.Gamepad.Gamepad | undefined {
+    return this.scene.input.gamepad?.gamepads.find(p => p?.connected)
+  }
+
+  // Call once per rendered frame, even while input is ignored, so button edges stay accurate
+  poll(): PadFrame | null {
+    const pad = this.pad
+    if (!pad) return null
+    const pressed = pad.buttons.map(b => b.pressed)
+    const edge = (i: number) => !!pressed[i] && !this.prev[i]
+    this.prev = pressed
+
+    const lx = pad.leftStick.x, ly = pad.leftStick.y
+    const tilt = Math.min(1, Math.hypot(lx, ly))
+    const out = tilt > MOVE_THRESHOLD
+    const moveStarted = out && !this.moving
+    this.moving = out
+
+    const rx = pad.rightStick.x, ry = pad.rightStick.y
+    const aimLen = Math.hypot(rx, ry)
+    return {
+      move: out ? { x: lx / tilt, y: ly / tilt, tilt } : null,
+      moveStarted,
+      aim: aimLen > AIM_THRESHOLD ? { x: rx / aimLen, y: ry / aimLen } : null,
+      fire: (pad.buttons[BTN_RT]?.value ?? 0) > TRIGGER_THRESHOLD,
+      burst: edge(BTN_LB),
+      confirm: edge(BTN_A) || edge(BTN_START),
+      restart: edge(BTN_START) || edge(BTN_Y)
+    }
+  }
+}
@@ -0,0 +1,37 @@
+import Phaser from 'phaser'
+import type { HostileKind } from '../data/projectiles'
+import { hostileTexture } from '../data/assets'
+import type { SimHostile } from '../sim/world'
+
+// Pooled images for the world's enemy and boss shots (simulated in sim/world.ts), one pool per kind
+// so reused views keep their texture
+export class HostileViews {
+  private views = new Map<SimHostile, Phaser.GameObjects.Image>()
+  private pools: Partial<Record<HostileKind, Phaser.GameObjects.Image[]>> = {}
+
+  constructor(private readonly scene: Phaser.Scene) {}
+
+  // Syncs views with the live shots and places them between the last two steps (alpha in 0..1)
+  render(shots: readonly SimHostile[], alpha: number): void {
+    const live = new Set(shots)
+    for (const [s, g] of this.views) if (!live.has(s)) { this.release(s.kind, g); this.views.delete(s) }
+    for (const s of shots) {
+      let g = this.views.get(s)
+      if (!g) { g = this.acquire(s.kind); this.views.set(s, g) }
+      g.setPosition(s.px + (s.x - s.px) * alpha, s.py + (s.y - s.py) * alpha)
+    }
+  }
+
+  // ===== Pools =====
+  private acquire(kind: HostileKind): Phaser.GameObjects.Image {
+    const img = this.pools[kind]?.pop()
+    if (img) return img.setVisible(true).setActive(true)
+    return this.scene.add.image(0, 0, hostileTexture(kind))
+  }
+
+  private release(kind: HostileKind, img: Phaser.GameObjects.Image): void {
+    img.setVisible(false).setActive(false)
+    const pool = this.pools[kind] ?? (this.pools[kind] = [])
+    pool.push(img)
+  }
+}
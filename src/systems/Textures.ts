@@ -0,0 +1,33 @@
+import Phaser from 'phaser'
+import { generatedTextures, type AssetManifest, type CircleTexture } from '../data/assets'
+
+// Queues every file in the manifest on the scene's loader
+export function queueManifest(load: Phaser.Loader.LoaderPlugin, manifest: AssetManifest): void {
+  for (const a of manifest.atlases) load.atlas(a.key, a.textureURL, a.atlasURL)
+  for (const a of manifest.audio) load.audio(a.key, a.urls)
+  for (const f of manifest.fonts) load.font(f.family, f.url)
+}
+
+// Draws the procedural shapes into the texture manager once; later calls skip existing keys
+export function generateTextures(scene: Phaser.Scene): void {
+  const g = scene.make.graphics({}, false)
+  for (const tex of generatedTextures()) {
+    if (scene.textures.exists(tex.key)) continue
+    drawCircle(g, tex)
+  }
+  g.destroy()
+}
+
+function drawCircle(g: Phaser.GameObjects.Graphics, tex: CircleTexture): void {
+  // The outline is centred on the edge like Arc strokes, so it needs half its width of padding
+  const pad = Math.ceil((tex.stroke?.width ?? 0) / 2) + 1
+  const c = tex.radius + pad
+  g.clear()
+  g.fillStyle(tex.fill, 1)
+  g.fillCircle(c, c, tex.radius)
+  if (tex.stroke) {
+    g.lineStyle(tex.stroke.width, tex.stroke.color, tex.stroke.alpha)
+    g.strokeCircle(c, c, tex.radius)
+  }
+  g.generateTexture(tex.key, c * 2, c * 2)
+}
@@ -0,0 +1,174 @@
+import Phaser from 'phaser'
+import type { Appearance } from '../state/save'
+import {
+  CHARACTER_ANIMS, CHARACTER_FRAME, CHARACTER_HIT_COLOR,
+  characterAnimKey, characterFrames, characterTextureKey, type CharacterAnim, type CharacterAnimDef, type Pose
+} from '../data/character'
+
+// Sheets in use, by texture key; a sheet and its animations are dropped when the last sprite lets go
+const users = new Map<string, number>()
+
+// The player figure drawn from an appearance. Every scene that shows a character uses this,
+// so the builder preview, save rows and the in-game player always look the same.
+export class CharacterSprite extends Phaser.GameObjects.Sprite {
+  private sheet: string
+  private base: 'idle' | 'dash' = 'idle'
+  private oneShot?: CharacterAnim
+
+  constructor(scene: Phaser.Scene, x: number, y: number, appearance: Appearance) {
+    const sheet = bakeCharacter(scene, appearance)
+    super(scene, x, y, sheet, 'idle0')
+    this.sheet = sheet
+    this.setOrigin(CHARACTER_FRAME.originX / CHARACTER_FRAME.width, CHARACTER_FRAME.originY / CHARACTER_FRAME.height)
+    this.on(Phaser.Animations.Events.ANIMATION_COMPLETE, () => { this.oneShot = undefined; this.playBase() })
+    scene.add.existing(this)
+    this.playBase()
+  }
+
+  setAppearance(a: Appearance): this {
+    const old = this.sheet
+    this.sheet = bakeCharacter(this.scene, a)
+    this.oneShot = undefined
+    this.setTexture(this.sheet, 'idle0')
+    this.playBase()
+    releaseCharacter(this.scene, old)
+    return this
+  }
+
+  // Dashing (or bursting) holds the dash pose until it ends
+  setDashing(on: boolean): this {
+    const next = on ? 'dash' : 'idle'
+    if (next === this.base) return this
+    this.base = next
+    if (!this.oneShot) this.playBase()
+    return this
+  }
+
+  // Plays a one-off reaction, then returns to idle or dash. A shot doesn't cut a hit short.
+  trigger(anim: 'shoot' | 'hit'): this {
+    if (anim === 'shoot' && this.oneShot === 'hit') return this
+    this.oneShot = anim
+    this.play(characterAnimKey(this.sheet, anim))
+    return this
+  }
+
+  // The sheet faces right; anything pointing left mirrors it. Zero keeps the current facing.
+  face(dirX: number): this {
+    if (dirX !== 0) this.setFlipX(dirX < 0)
+    return this
+  }
+
+  destroy(fromScene?: boolean): void {
+    const scene = this.scene
+    super.destroy(fromScene)
+    if (scene) releaseCharacter(scene, this.sheet)
+  }
+
+  private playBase(): void {
+    this.play(characterAnimKey(this.sheet, this.base), true)
+  }
+}
+
+// Draws every frame of the appearance side by side into one texture and registers its animations
+function bakeCharacter(scene: Phaser.Scene, a: Appearance): string {
+  const key = characterTextureKey(a)
+  if (!scene.textures.exists(key)) {
+    const { width, height, originX, originY } = CHARACTER_FRAME
+    const frames = characterFrames()
+    const g = scene.make.graphics({}, false)
+    frames.forEach((f, i) => drawFigure(g, a, f.pose, i * width + originX, originY))
+    g.generateTexture(key, width * frames.length, height)
+    g.destroy()
+    const tex = scene.textures.get(key)
+    frames.forEach((f, i) => tex.add(f.name, 0, i * width, 0, width, height))
+    for (const [anim, def] of Object.entries(CHARACTER_ANIMS) as Array<[CharacterAnim, CharacterAnimDef]>) {
+      scene.anims.create({
+        key: characterAnimKey(key, anim),
+        frames: def.frames.map((_, i) => ({ key, frame: `${anim}${i}` })),
+        frameRate: def.frameRate,
+        repeat: def.loop ? -1 : 0
+      })
+    }
+  }
+  users.set(key, (users.get(key) ?? 0) + 1)
+  return key
+}
+
+function releaseCharacter(scene: Phaser.Scene, key: string): void {
+  const left = (users.get(key) ?? 1) - 1
+  if (left > 0) { users.set(key, left); return }
+  users.delete(key)
+  for (const anim of Object.keys(CHARACTER_ANIMS) as CharacterAnim[]) scene.anims.remove(characterAnimKey(key, anim))
+  if (scene.textures.exists(key)) scene.textures.remove(key)
+}
+
+const FACE_COLOR = 0x1f2937
+const VISOR_COLOR = 0x67e8f9
+
+// Front-facing figure (about 32×40 px standing) with its torso centre at x, y, facing right
+function drawFigure(g: Phaser.GameObjects.Graphics, a: Appearance, pose: Pose, x: number, y: number): void {
+  const body = pose.flash ? CHARACTER_HIT_COLOR : a.bodyColor
+  const hair = pose.flash ? CHARACTER_HIT_COLOR : a.hairColor
+  const outfit = pose.flash ? CHARACTER_HIT_COLOR : a.outfitColor
+  const cy = y + pose.bob
+  const hx = x + pose.lean
+
+  if (pose.streaks) {
+    g.lineStyle(2, body, 0.45)
+    for (const dy of [-6, 2, 10]) g.lineBetween(x - 27, cy + dy, x - 19, cy + dy)
+  }
+
+  // The cape hangs behind the body and trails further back while leaning into a dash
+  if (a.accessory === 'cape') {
+    g.fillStyle(Phaser.Display.Color.IntegerToColor(outfit).darken(25).color, 1)
+    g.fillRoundedRect(x - 19 - pose.lean, cy - 3, 30 + pose.lean, 25, 5)
+  }
+  // A hoodie's hood frames the head from behind
+  if (a.outfit === 'hoodie') {
+    g.fillStyle(outfit, 1)
+    g.fillCircle(hx, cy - 8, 12)
+  }
+
+  g.fillStyle(body, 1)
+  g.fillCircle(hx, cy - 8, 10)
+  g.fillRoundedRect(x - 14, cy - 2, 28, 22, 6)
+  g.fillRoundedRect(x - 16, cy - 4, 6, 16, 3)
+  if (pose.reach > 0) g.fillRoundedRect(x + 8, cy, pose.reach + 6, 6, 3)
+  else g.fillRoundedRect(x + 10, cy - 4, 6, 16, 3)
+
+  // Eyes sit a little towards the facing side
+  g.fillStyle(FACE_COLOR, 1)
+  if (a.face === 'dots') { g.fillCircle(hx - 3, cy - 9, 1.6); g.fillCircle(hx + 5, cy - 9, 1.6) }
+  else if (a.face === 'wide') {
+    g.fillStyle(0xffffff, 1); g.fillCircle(hx - 3, cy - 9, 3); g.fillCircle(hx + 5, cy - 9, 3)
+    g.fillStyle(FACE_COLOR, 1); g.fillCircle(hx - 2, cy - 9, 1.5); g.fillCircle(hx + 6, cy - 9, 1.5)
+  } else if (a.face === 'sleepy') { g.fillRect(hx - 5, cy - 9, 4, 1.5); g.fillRect(hx + 3, cy - 9, 4, 1.5) }
+
+  if (a.hair !== 'none') {
+    g.fillStyle(hair, 1)
+    if (a.hair === 'spike') { g.fillTriangle(hx - 12, cy - 12, hx - 4, cy - 18, hx + 4, cy - 12); g.fillTriangle(hx, cy - 12, hx + 8, cy - 18, hx + 14, cy - 12) }
+    else if (a.hair === 'bob') { g.fillRoundedRect(hx - 16, cy - 18, 32, 8, { tl: 6, tr: 6, bl: 0, br: 0 }) }
+    else if (a.hair === 'mohawk') { g.fillRoundedRect(hx - 3, cy - 24, 7, 10, 3) }
+    else if (a.hair === 'long') {
+      g.fillRoundedRect(hx - 16, cy - 18, 32, 8, { tl: 6, tr: 6, bl: 0, br: 0 })
+      g.fillRect(hx - 16, cy - 12, 5, 16)
+      g.fillRect(hx + 11, cy - 12, 5, 16)
+    }
+  }
+
+  g.fillStyle(outfit, 1)
+  if (a.outfit === 'suit') g.fillRect(x - 12, cy + 8, 24, 8)
+  else if (a.outfit === 'robe') g.fillRoundedRect(x - 14, cy + 2, 28, 18, 6)
+  else if (a.outfit === 'armor') g.fillTriangle(x - 12, cy + 8, x + 12, cy + 8, x, cy + 20)
+  else if (a.outfit === 'coat') { g.fillRect(x - 14, cy, 10, 21); g.fillRect(x + 4, cy, 10, 21) }
+  else if (a.outfit === 'hoodie') g.fillRoundedRect(x - 14, cy, 28, 20, 6)
+
+  if (a.accessory === 'hat') {
+    g.fillStyle(outfit, 1)
+    g.fillRect(hx - 13, cy - 18, 26, 3)
+    g.fillRoundedRect(hx - 8, cy - 26, 16, 9, { tl: 3, tr: 3, bl: 0, br: 0 })
+  } else if (a.accessory === 'visor') {
+    g.fillStyle(pose.flash ? CHARACTER_HIT_COLOR : VISOR_COLOR, 0.85)
+    g.fillRoundedRect(hx - 9, cy - 12, 20, 6, 2)
+  }
+}
@@ -0,0 +1,222 @@
+import Phaser from 'phaser'
+
+type Bounded = Phaser.GameObjects.GameObject & { visible: boolean; getBounds(): Phaser.Geom.Rectangle }
+
+export interface FocusItem {
+  target: Bounded
+  activate?(): void
+  // Left/right change the value (selectors); focus then only moves up/down from here
+  adjust?(dir: -1 | 1): void
+  // Free 2D control such as the color wheel: the right stick drives it while focused, and
+  // activating it "grabs" it so arrows/D-pad steer until Enter/Esc lets go. dx/dy are -1..1 per step.
+  steer?(dx: number, dy: number): void
+  // The item is a text field: letters, Space and Enter go to it instead of navigation
+  text?: boolean
+  // Focus is restored to the same key when a layer's items are rebuilt
+  key?: string
+  onFocus?(): void
+  onBlur?(): void
+}
+
+interface Layer {
+  items: FocusItem[]
+  index: number
+  onBack?: () => void
+}
+
+// Standard-mapping gamepad buttons
+const PAD_A = 0
+const PAD_B = 1
+const PAD_UP = 12
+const PAD_DOWN = 13
+const PAD_LEFT = 14
+const PAD_RIGHT = 15
+const STICK_THRESHOLD = 0.5
+const STICK_DELAY_MS = 320
+const STICK_REPEAT_MS = 130
+
+// Moves a focus highlight between menu items with arrows/WASD/D-pad/left stick; Enter/A activates
+// and Esc/B goes back. Enter/A only reveal the highlight until it shows, so a stray press never picks an item. Layers stack so a dialog can take over navigation and hand it back when closed.
+export class FocusNav {
+  enabled = true
+  private readonly layers: Layer[] = []
+  private readonly highlight: Phaser.GameObjects.Graphics
+  // Mouse-only players never see the highlight; the first nav input turns it on
+  private shown = false
+  private grabbed = false
+  private prevPad: boolean[] = []
+  private stickHeld = { x: 0, y: 0, next: 0 }
+  private readonly onKey = (e: KeyboardEvent) => this.handleKey(e)
+  private readonly onUpdate = (_t: number, dt: number) => this.update(dt)
+  private readonly onShutdown = () => this.destroy()
+
+  constructor(private readonly scene: Phaser.Scene) {
+    this.highlight = scene.add.graphics().setDepth(1000)
+    scene.input.keyboard?.on('keydown', this.onKey)
+    scene.events.on(Phaser.Scenes.Events.UPDATE, this.onUpdate)
+    scene.events.once(Phaser.Scenes.Events.SHUTDOWN, this.onShutdown)
+  }
+
+  get current(): FocusItem | undefined {
+    const layer = this.top
+    return layer?.items[layer.index]
+  }
+
+  push(items: FocusItem[], onBack?: () => void): void {
+    this.blur()
+    this.layers.push({ items, index: 0, onBack })
+    this.current?.onFocus?.()
+  }
+
+  pop(): void {
+    this.blur()
+    this.layers.pop()
+    this.current?.onFocus?.()
+  }
+
+  // Replaces the top layer's items (e.g. after a panel re-renders), keeping focus on the same key
+  setItems(items: FocusItem[]): void {
+    const layer = this.top
+    if (!layer) { this.push(items); return }
+    const key = this.current?.key
+    const keep = key !== undefined ? items.findIndex(it => it.key === key) : -1
+    layer.items = items
+    layer.index = keep >= 0 ? keep : Math.min(layer.index, Math.max(0, items.length - 1))
+  }
+
+  focus(item: FocusItem): void {
+    const layer = this.top
+    const i = layer ? layer.items.indexOf(item) : -1
+    if (!layer || i < 0 || i === layer.index) return
+    this.blur()
+    layer.index = i
+    this.current?.onFocus?.()
+  }
+
+  destroy(): void {
+    this.scene.input.keyboard?.off('keydown', this.onKey)
+    this.scene.events.off(Phaser.Scenes.Events.UPDATE, this.onUpdate)
+    this.scene.events.off(Phaser.Scenes.Events.SHUTDOWN, this.onShutdown)
+    this.highlight.destroy()
+    this.layers.length = 0
+  }
+
+  private get top(): Layer | undefined { return this.layers[this.layers.length - 1] }
+
+  private blur(): void {
+    this.grabbed = false
+    this.current?.onBlur?.()
+  }
+
+  private handleKey(e: KeyboardEvent): void {
+    if (!this.enabled || !this.current) return
+    const item = this.current
+    const k = e.key
+    const typing = item.text === true
+    if (k === 'ArrowUp' || (!typing && (k === 'w' || k === 'W'))) this.direction(0, -1)
+    else if (k === 'ArrowDown' || (!typing && (k === 's' || k === 'S'))) this.direction(0, 1)
+    else if (k === 'ArrowLeft' || (!typing && (k === 'a' || k === 'A'))) this.direction(-1, 0)
+    else if (k === 'ArrowRight' || (!typing && (k === 'd' || k === 'D'))) this.direction(1, 0)
+    else if (k === 'Enter' && !typing) { if (this.shown) this.activate() }
+    else if (k === 'Escape') this.back()
+    else return
+    this.shown = true
+  }
+
+  private direction(dx: number, dy: number): void {
+    const item = this.current
+    if (!item) return
+    if (this.grabbed && item.steer) { item.steer(dx, dy); return }
+    if (dx !== 0 && item.adjust) { item.adjust(dx < 0 ? -1 : 1); return }
+    this.move(dx, dy)
+  }
+
+  private activate(): void {
+    const item = this.current
+    if (!item) return
+    if (item.steer) { this.grabbed = !this.grabbed; return }
+    item.activate?.()
+  }
+
+  private back(): void {
+    if (this.grabbed) { this.grabbed = false; return }
+    this.top?.onBack?.()
+  }
+
+  // Picks the nearest visible item in the pressed direction, favouring ones in line with the current item
+  private move(dx: number, dy: number): void {
+    const layer = this.top
+    const from = this.current
+    if (!layer || !from) return
+    const a = from.target.getBounds()
+    let best = -1
+    let bestScore = Infinity
+    layer.items.forEach((it, i) => {
+      if (i === layer.index || !it.target.visible || !it.target.active) return
+      const b = it.target.getBounds()
+      const vx = b.centerX - a.centerX
+      const vy = b.centerY - a.centerY
+      const along = vx * dx + vy * dy
+      if (along <= 4) return
+      const across = Math.abs(vx * dy - vy * dx)
+      const score = along + across * 2
+      if (score < bestScore) { bestScore = score; best = i }
+    })
+    if (best < 0) return
+    this.blur()
+    layer.index = best
+    this.current?.onFocus?.()
+  }
+
+  private update(dt: number): void {
+    if (this.enabled) this.pollPads(dt)
+    this.highlight.clear()
+    const item = this.current
+    if (!this.shown || !item || !item.target.active || !item.target.visible) return
+    const b = item.target.getBounds()
+    this.highlight.lineStyle(2, this.grabbed ? 0xfde047 : 0xa7f3d0, 1)
+    this.highlight.strokeRoundedRect(b.x - 5, b.y - 3, b.width + 10, b.height + 6, 4)
+  }
+
+  private pollPads(dt: number): void {
+    const pads = this.scene.input.gamepad?.gamepads.filter(p => p?.connected) ?? []
+    if (pads.length === 0) return
+    const pressed: boolean[] = []
+    let lx = 0, ly = 0, rx = 0, ry = 0
+    for (const pad of pads) {
+      pad.buttons.forEach((b, i) => { pressed[i] = pressed[i] || b.pressed })
+      if (Math.abs(pad.leftStick.x) > Math.abs(lx)) lx = pad.leftStick.x
+      if (Math.abs(pad.leftStick.y) > Math.abs(ly)) ly = pad.leftStick.y
+      if (Math.abs(pad.rightStick.x) > Math.abs(rx)) rx = pad.rightStick.x
+      if (Math.abs(pad.rightStick.y) > Math.abs(ry)) ry = pad.rightStick.y
+    }
+    const prev = this.prevPad
+    this.prevPad = pressed
+    const edge = (i: number) => pressed[i] && !prev[i]
+    const wasShown = this.shown
+    if ([PAD_UP, PAD_DOWN, PAD_LEFT, PAD_RIGHT, PAD_A, PAD_B].some(edge)) this.shown = true
+    if (edge(PAD_UP)) this.direction(0, -1)
+    if (edge(PAD_DOWN)) this.direction(0, 1)
+    if (edge(PAD_LEFT)) this.direction(-1, 0)
+    if (edge(PAD_RIGHT)) this.direction(1, 0)
+    if (edge(PAD_A) && wasShown) this.activate()
+    if (edge(PAD_B)) this.back()
+
+    // Right stick steers a focused 2D control continuously (scaled to ~1 step per 16 ms at full tilt)
+    const item = this.current
+    if (item?.steer && Math.hypot(rx, ry) > 0.2) { item.steer(rx * dt / 16, ry * dt / 16); this.shown = true }
+
+    // Left stick acts like the D-pad with key-repeat style timing
+    const sx = Math.abs(lx) > STICK_THRESHOLD ? Math.sign(lx) : 0
+    const sy = Math.abs(ly) > STICK_THRESHOLD && Math.abs(ly) >= Math.abs(lx) ? Math.sign(ly) : 0
+    const dirX = sy !== 0 ? 0 : sx
+    const now = this.scene.time.now
+    if (dirX === 0 && sy === 0) { this.stickHeld = { x: 0, y: 0, next: 0 }; return }
+    const changed = dirX !== this.stickHeld.x || sy !== this.stickHeld.y
+    if (changed || now >= this.stickHeld.next) {
+      this.direction(dirX, sy)
+      this.stickHeld = { x: dirX, y: sy, next: now + (changed ? STICK_DELAY_MS : STICK_REPEAT_MS) }
+      this.shown = true
+    }
+  }
+}
@@ -0,0 +1,74 @@
+import Phaser from 'phaser'
+
+export interface TextFieldOptions {
+  width: number
+  maxLength?: number
+  // Characters accepted from the keyboard
+  allowed?: RegExp
+  style?: Phaser.Types.GameObjects.Text.TextStyle
+  onSubmit?: (value: string) => void
+  onCancel?: () => void
+}
+
+// Single-line text input drawn in the canvas (box, text and blinking caret); listens to the scene keyboard while focused
+export class TextField extends Phaser.GameObjects.Container {
+  value: string
+  focused = true
+
+  private readonly box: Phaser.GameObjects.Rectangle
+  private readonly label: Phaser.GameObjects.Text
+  private readonly caret: Phaser.GameObjects.Rectangle
+  private readonly blink: Phaser.Time.TimerEvent
+  private readonly opts: TextFieldOptions
+  private readonly onKey = (e: KeyboardEvent) => this.handleKey(e)
+
+  constructor(scene: Phaser.Scene, x: number, y: number, value: string, opts: TextFieldOptions) {
+    super(scene, x, y)
+    this.value = value
+    this.opts = opts
+    const style = { fontSize: '18px', fontFamily: 'monospace', color: '#e2e8f0', ...opts.style }
+    this.box = scene.add.rectangle(0, 0, opts.width, 26, 0x0b0f15, 1).setStrokeStyle(1, 0x64748b).setOrigin(0, 0.5).setInteractive({ useHandCursor: true })
+    this.label = scene.add.text(6, 0, value, style).setOrigin(0, 0.5)
+    this.caret = scene.add.rectangle(0, 0, 2, 18, 0xa7f3d0).setOrigin(0, 0.5)
+    this.add([this.box, this.label, this.caret])
+    this.box.on('pointerdown', () => { this.setFocused(true); this.emit('focus') })
+    this.blink = scene.time.addEvent({ delay: 480, loop: true, callback: () => this.caret.setVisible(this.focused && !this.caret.visible) })
+    scene.input.keyboard?.on('keydown', this.onKey)
+    this.once(Phaser.GameObjects.Events.DESTROY, () => {
+      this.blink.remove()
+      scene.input.keyboard?.off('keydown', this.onKey)
+    })
+    scene.add.existing(this)
+    this.sync()
+  }
+
+  setFocused(focused: boolean): this {
+    this.focused = focused
+    this.box.setStrokeStyle(1, focused ? 0xa7f3d0 : 0x64748b)
+    this.caret.setVisible(focused)
+    return this
+  }
+
+  setValue(value: string): this {
+    this.value = value
+    this.sync()
+    return this
+  }
+
+  private handleKey(e: KeyboardEvent): void {
+    if (!this.focused || !this.visible) return
+    if (e.ctrlKey || e.metaKey || e.altKey) return
+    const k = e.key
+    if (k === 'Enter') { this.opts.onSubmit?.(this.value); return }
+    if (k === 'Escape') { this.opts.onCancel?.(); return }
+    if (k === 'Backspace') { this.setValue(this.value.slice(0, -1)); return }
+    if (k.length === 1 && (this.opts.allowed ?? /[a-zA-Z0-9 _-]/).test(k)) {
+      if (this.value.length < (this.opts.maxLength ?? 16)) this.setValue(this.value + k)
+    }
+  }
+
+  private sync(): void {
+    this.label.setText(this.value)
+    this.caret.setPosition(this.label.x + this.label.width + 2, 0)
+  }
+}
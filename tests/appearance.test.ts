@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest'
+import { ACCESSORIES, FACES, HAIRS, OUTFITS, colorToHsv, formatHexColor, hsvToColor, parseHexColor, randomAppearance } from '../src/data/appearance'
+import { Rng } from '../src/sim/rng'
+
+describe('appearance colors', () => {
+  it('parses and formats hex colors', () => {
+    expect(parseHexColor('#1a2B3c')).toBe(0x1a2b3c)
+    expect(parseHexColor('ff8000')).toBe(0xff8000)
+    expect(parseHexColor('#f80')).toBe(0xff8800)
+    expect(parseHexColor('#12345')).toBeNull()
+    expect(parseHexColor('#gg0000')).toBeNull()
+    expect(formatHexColor(0x00d9ff)).toBe('#00d9ff')
+    expect(formatHexColor(0)).toBe('#000000')
+  })
+
+  it('round-trips colors through hsv, dark ones included', () => {
+    for (const c of [0x00d9ff, 0x2b2b2b, 0x7a4a1f, 0xffffff, 0x000000, 0x3b5b92]) {
+      const { h, s, v } = colorToHsv(c)
+      expect(hsvToColor(h, s, v)).toBe(c)
+    }
+    expect(hsvToColor(0, 1, 0.5)).toBe(0x800000)
+  })
+})
+
+describe('randomAppearance', () => {
+  it('only picks listed options and valid colors', () => {
+    const rand = new Rng(7).fn
+    for (let i = 0; i < 50; i++) {
+      const a = randomAppearance(rand)
+      expect(HAIRS).toContain(a.hair)
+      expect(FACES).toContain(a.face)
+      expect(OUTFITS).toContain(a.outfit)
+      expect(ACCESSORIES).toContain(a.accessory)
+      for (const c of [a.bodyColor, a.hairColor, a.outfitColor]) expect(c >= 0 && c <= 0xffffff).toBe(true)
+    }
+  })
+})
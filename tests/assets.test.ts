@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest'
+import { BULLET_TEXTURE, DUMMY_TEXTURE, enemyTexture, generatedTextures, hostileTexture } from '../src/data/assets'
+import { ENEMY_ARCHETYPES } from '../src/data/enemies'
+import { HOSTILE_KINDS, type HostileKind } from '../src/data/projectiles'
+
+describe('generated textures', () => {
+  const keys = generatedTextures().map(t => t.key)
+
+  it('uses each key once', () => {
+    expect(new Set(keys).size).toBe(keys.length)
+  })
+
+  it('covers every texture the scenes ask for', () => {
+    expect(keys).toContain(BULLET_TEXTURE)
+    expect(keys).toContain(DUMMY_TEXTURE)
+    for (const def of Object.values(ENEMY_ARCHETYPES)) {
+      expect(keys).toContain(enemyTexture(def.id))
+      expect(keys).toContain(enemyTexture(def.id, 'flash'))
+      if (def.charge) expect(keys).toContain(enemyTexture(def.id, 'charge'))
+    }
+    for (const kind of Object.keys(HOSTILE_KINDS) as HostileKind[]) expect(keys).toContain(hostileTexture(kind))
+  })
+})
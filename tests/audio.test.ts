@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest'
+import { MUSIC, SFX, channelVolume, noteFreq } from '../src/data/audio'
+
+describe('audio mixing', () => {
+  it('scales each channel by the master volume', () => {
+    const v = { masterVolume: 0.5, musicVolume: 0.6, sfxVolume: 1 }
+    expect(channelVolume(v, 'music')).toBeCloseTo(0.3)
+    expect(channelVolume(v, 'sfx')).toBeCloseTo(0.5)
+  })
+
+  it('clamps out-of-range and missing volumes', () => {
+    expect(channelVolume({ masterVolume: 2, musicVolume: 0.5, sfxVolume: -1 }, 'music')).toBe(0.5)
+    expect(channelVolume({ masterVolume: 1, musicVolume: NaN, sfxVolume: 1 }, 'music')).toBe(0)
+    expect(channelVolume({ masterVolume: 1, musicVolume: 1, sfxVolume: -1 }, 'sfx')).toBe(0)
+  })
+
+  it('tunes notes in equal temperament', () => {
+    expect(noteFreq(220, 12)).toBeCloseTo(440)
+    expect(noteFreq(440, -12)).toBeCloseTo(220)
+  })
+
+  it('has audible recipes for every effect and track', () => {
+    for (const tones of Object.values(SFX)) {
+      expect(tones.length).toBeGreaterThan(0)
+      for (const t of tones) expect(t.gain * t.durationMs).toBeGreaterThan(0)
+    }
+    for (const track of Object.values(MUSIC)) {
+      expect(track.bpm).toBeGreaterThan(0)
+      for (const v of track.voices) expect(v.steps.some(s => s !== null)).toBe(true)
+    }
+  })
+})
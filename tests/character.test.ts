@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest'
+import { CHARACTER_ANIMS, characterAnimKey, characterFrames, characterTextureKey } from '../src/data/character'
+import { getDefaultAppearance } from '../src/state/save'
+
+describe('character sheet', () => {
+  it('lays out every animation frame once, in order', () => {
+    const frames = characterFrames()
+    const total = Object.values(CHARACTER_ANIMS).reduce((n, def) => n + def.frames.length, 0)
+    expect(frames).toHaveLength(total)
+    expect(new Set(frames.map(f => f.name)).size).toBe(total)
+    expect(frames[0].name).toBe('idle0')
+    expect(frames.filter(f => f.anim === 'shoot').map(f => f.name)).toEqual(['shoot0', 'shoot1', 'shoot2'])
+  })
+
+  it('keys sheets by appearance', () => {
+    const a = getDefaultAppearance()
+    expect(characterTextureKey({ ...a })).toBe(characterTextureKey(a))
+    expect(characterTextureKey({ ...a, hairColor: 0xff0000 })).not.toBe(characterTextureKey(a))
+    expect(characterTextureKey({ ...a, outfit: 'robe' })).not.toBe(characterTextureKey(a))
+    expect(characterAnimKey(characterTextureKey(a), 'dash')).toBe(`${characterTextureKey(a)}:dash`)
+  })
+
+  it('only loops the base states', () => {
+    expect(CHARACTER_ANIMS.idle.loop && CHARACTER_ANIMS.dash.loop).toBe(true)
+    expect(CHARACTER_ANIMS.shoot.loop || CHARACTER_ANIMS.hit.loop).toBe(false)
+  })
+})
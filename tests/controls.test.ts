@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest'
+import { bindingOverrides, defaultBindings, describeControls, findConflict, inputLabel, rebind, resolveBindings, unbind } from '../src/data/controls'
+
+describe('control bindings', () => {
+  it('applies saved overrides on top of the defaults', () => {
+    const b = resolveBindings({ dash: ['Space', 'Mouse0'], bogus: ['KeyZ'], nextLevel: ['Enter', 'KeyJ'] })
+    expect(b.dash).toEqual(['Space', 'Mouse0'])
+    // Reserved menu keys are dropped
+    expect(b.nextLevel).toEqual(['KeyJ'])
+    expect(b.shoot).toEqual(['Mouse2'])
+    expect(bindingOverrides(b)).toEqual({ dash: ['Space', 'Mouse0'], nextLevel: ['KeyJ'] })
+    expect(bindingOverrides(defaultBindings())).toEqual({})
+  })
+
+  it('reports and resolves conflicts by moving the input', () => {
+    const b = defaultBindings()
+    expect(findConflict(b, 'nextLevel', 'KeyF')).toBe('toggleFullscreen')
+    expect(findConflict(b, 'toggleFullscreen', 'KeyF')).toBeUndefined()
+    const next = rebind(b, 'nextLevel', 0, 'KeyF')
+    expect(next.nextLevel).toEqual(['KeyF'])
+    expect(next.toggleFullscreen).toEqual([])
+    expect(b.toggleFullscreen).toEqual(['KeyF'])
+  })
+
+  it('fills the alternate slot and can clear it again', () => {
+    let b = rebind(defaultBindings(), 'shoot', 1, 'KeyQ')
+    expect(b.shoot).toEqual(['Mouse2', 'KeyQ'])
+    b = rebind(b, 'shoot', 1, 'KeyX')
+    expect(b.shoot).toEqual(['Mouse2', 'KeyX'])
+    expect(unbind(b, 'shoot', 0).shoot).toEqual(['KeyX'])
+    expect(rebind(b, 'shoot', 0, 'Escape')).toBe(b)
+  })
+
+  it('describes controls with readable input names', () => {
+    expect(inputLabel('KeyF')).toBe('F')
+    expect(inputLabel('Mouse2')).toBe('Right Click')
+    expect(inputLabel('Backquote')).toBe('`')
+    const rows = describeControls(unbind(defaultBindings(), 'restart', 0))
+    expect(rows.find(r => r.label === 'Straight dash (hold)')?.inputs).toBe('Left Shift / Right Shift')
+    expect(rows.find(r => r.label === 'Restart after game over')?.inputs).toBe('unbound')
+  })
+})
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest'
+import { COSMETICS, cosmeticFor, isUnlocked, lockedParts, milestoneUnlocks, unlockHint } from '../src/data/cosmetics'
+import { randomAppearance } from '../src/data/appearance'
+import { getDefaultAppearance } from '../src/state/save'
+import { Rng } from '../src/sim/rng'
+
+describe('cosmetics', () => {
+  it('leaves starter options unlocked and gates the rest', () => {
+    expect(isUnlocked(cosmeticFor('hair', 'spike'), [])).toBe(true)
+    expect(isUnlocked(cosmeticFor('hair', 'mohawk'), [])).toBe(false)
+    expect(isUnlocked(cosmeticFor('hair', 'mohawk'), ['hair:mohawk'])).toBe(true)
+    expect(new Set(COSMETICS.map(c => c.id)).size).toBe(COSMETICS.length)
+  })
+
+  it('grants each milestone only what the slot is missing', () => {
+    expect(milestoneUnlocks('bossKill', []).map(c => c.id)).toEqual(['hair:mohawk'])
+    expect(milestoneUnlocks('bossKill', ['hair:mohawk'])).toEqual([])
+    expect(milestoneUnlocks('flawlessClear', []).every(c => c.kind === 'palette')).toBe(true)
+  })
+
+  it('reports locked parts of a look and how to get them', () => {
+    const look = { ...getDefaultAppearance(), hair: 'long' as const, outfit: 'coat' as const }
+    expect(lockedParts(look, []).map(c => c.id)).toEqual(['hair:long', 'outfit:coat'])
+    expect(lockedParts(look, ['hair:long', 'outfit:coat'])).toEqual([])
+    expect(lockedParts(getDefaultAppearance(), [])).toEqual([])
+    expect(unlockHint(cosmeticFor('hair', 'long')!)).toBe('30 cores')
+    expect(unlockHint(cosmeticFor('outfit', 'coat')!)).toBe('Reach level 10')
+  })
+
+  it('randomizes only from owned options', () => {
+    const rand = new Rng(3).fn
+    for (let i = 0; i < 50; i++) expect(lockedParts(randomAppearance(rand), [])).toEqual([])
+    const owned = ['hair:mohawk']
+    for (let i = 0; i < 50; i++) expect(lockedParts(randomAppearance(rand, owned), owned)).toEqual([])
+  })
+})
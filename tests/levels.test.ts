@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest'
+import { LEVELS, getLevelDef, validateLevelDef } from '../src/data/levels'
+import { Rng } from '../src/sim/rng'
+
+describe('level validation', () => {
+  it('accepts the authored levels and every generated or boss level', () => {
+    for (const def of LEVELS) expect(validateLevelDef(def)).toEqual([])
+    const rng = new Rng(7)
+    for (let level = 1; level <= 40; level++) expect(validateLevelDef(getLevelDef(level, rng.fn))).toEqual([])
+  })
+
+  it('reports malformed spawns and clear conditions', () => {
+    const errors = validateLevelDef({
+      waves: [
+        { spawns: [{ type: 'dragon', count: 0, everyMs: -1, edge: 'middle' }], clear: { kind: 'killAll' } },
+        { spawns: [{ type: 'chaser', count: 2, everyMs: 500 }], clear: { kind: 'defeatBoss', boss: 'warden' } },
+        { spawns: [], clear: { kind: 'defeatBoss', boss: 7 } }
+      ]
+    })
+    expect(errors).toEqual([
+      'level: wave 1 spawn 1 unknown enemy type "dragon"',
+      'level: wave 1 spawn 1 count must be a positive integer',
+      'level: wave 1 spawn 1 everyMs must be >= 0',
+      'level: wave 1 spawn 1 edge must be one of top, bottom, left, right, any',
+      'level: wave 2 defeatBoss target "warden" is never spawned',
+      'level: wave 3 defeatBoss target "7" is not a boss'
+    ])
+  })
+})
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest'
+import { WALK_SPEED, stepWalk, walkSpeed } from '../src/sim/movement'
+import { DASH_SPEED } from '../src/sim/player'
+
+const STEP = 1000 / 60
+
+function run(steps: number, dirX: number, dirY: number, v = { x: 0, y: 0 }) {
+  for (let i = 0; i < steps; i++) v = stepWalk(v, dirX, dirY, STEP)
+  return v
+}
+
+describe('walk movement', () => {
+  it('accelerates up to top speed and no further', () => {
+    const early = run(3, 1, 0)
+    expect(early.x).toBeGreaterThan(0)
+    expect(early.x).toBeLessThan(WALK_SPEED)
+    expect(run(60, 1, 0)).toEqual({ x: WALK_SPEED, y: 0 })
+  })
+
+  it('keeps diagonal speed the same as straight speed', () => {
+    const v = run(60, 1, 1)
+    expect(Math.hypot(v.x, v.y)).toBeCloseTo(WALK_SPEED)
+  })
+
+  it('slows to a stop when no direction is held', () => {
+    const moving = run(60, 0, -1)
+    const coasting = run(3, 0, 0, moving)
+    expect(coasting.y).toBeLessThan(0)
+    expect(coasting.y).toBeGreaterThan(-WALK_SPEED)
+    expect(run(60, 0, 0, moving)).toEqual({ x: 0, y: 0 })
+  })
+
+  it('scales with the dash speed upgrade', () => {
+    expect(walkSpeed(DASH_SPEED)).toBe(WALK_SPEED)
+    expect(walkSpeed(DASH_SPEED * 1.5)).toBeCloseTo(WALK_SPEED * 1.5)
+  })
+})
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import { buildNavGrid, findPath, segmentBlocked, worldToCell, type Obstacle } from '../src/sim/navgrid'
+
+const AGENT = 16
+const AREA = { x: 0, y: 0, w: 640, h: 480 }
+// A wall across the middle with a gap at the bottom
+const WALL: Obstacle[] = [{ kind: 'rect', x: 320, y: 180, w: 32, h: 360 }]
+const clear = (obstacles: Obstacle[]) => (x1: number, y1: number, x2: number, y2: number) => !segmentBlocked(obstacles, AGENT, x1, y1, x2, y2)
+
+describe('nav grid', () => {
+  it('marks cells under inflated obstacles as blocked', () => {
+    const g = buildNavGrid(AREA, 32, WALL, AGENT)
+    const wall = worldToCell(g, 320, 100)!
+    const open = worldToCell(g, 320, 440)!
+    expect(g.block[wall.r * g.cols + wall.c]).toBe(1)
+    expect(g.block[open.r * g.cols + open.c]).toBe(0)
+  })
+
+  it('routes around a wall instead of through it', () => {
+    const g = buildNavGrid(AREA, 32, WALL, AGENT)
+    const path = findPath(g, 100, 100, 540, 100, clear(WALL))
+    expect(path).not.toBeNull()
+    expect(path!.length).toBeGreaterThan(2)
+    // Every leg of the smoothed path is walkable and it dips below the wall
+    for (let i = 1; i < path!.length; i++) {
+      expect(segmentBlocked(WALL, AGENT, path![i - 1].x, path![i - 1].y, path![i].x, path![i].y)).toBe(false)
+    }
+    expect(Math.max(...path!.map(p => p.y))).toBeGreaterThan(360)
+  })
+
+  it('goes straight when nothing is in the way', () => {
+    const g = buildNavGrid(AREA, 32, [], AGENT)
+    const path = findPath(g, 48, 48, 592, 432, clear([]))
+    expect(path).toHaveLength(2)
+  })
+
+  it('snaps a blocked goal to the nearest free cell', () => {
+    const g = buildNavGrid(AREA, 32, WALL, AGENT)
+    const path = findPath(g, 100, 100, 320, 100)
+    expect(path).not.toBeNull()
+    const end = path![path!.length - 1]
+    const cell = worldToCell(g, end.x, end.y)!
+    expect(g.block[cell.r * g.cols + cell.c]).toBe(0)
+  })
+
+  it('returns null when the goal is walled off or outside the grid', () => {
+    const box: Obstacle[] = [{ kind: 'rect', x: 320, y: 240, w: 700, h: 20 }]
+    const g = buildNavGrid(AREA, 32, box, AGENT)
+    expect(findPath(g, 100, 100, 100, 420)).toBeNull()
+    expect(findPath(g, 100, 100, 900, 100)).toBeNull()
+  })
+})
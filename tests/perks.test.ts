@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+import { PERKS, PERK_DRAFT_SIZE, draftPerks, type PerkStacks } from '../src/data/perks'
+import { emptyStats } from '../src/data/upgrades'
+import { BULLET_RADIUS, combatStats } from '../src/sim/player'
+import { Rng } from '../src/sim/rng'
+
+describe('perk draft', () => {
+  it('offers distinct perks and the same ones for the same seed', () => {
+    const a = draftPerks({}, new Rng(11).fn)
+    expect(a).toHaveLength(PERK_DRAFT_SIZE)
+    expect(new Set(a).size).toBe(a.length)
+    expect(draftPerks({}, new Rng(11).fn)).toEqual(a)
+  })
+
+  it('skips maxed perks', () => {
+    const stacks: PerkStacks = {}
+    for (const p of PERKS.slice(0, -2)) stacks[p.id] = p.maxStacks
+    const offer = draftPerks(stacks, new Rng(5).fn)
+    expect(offer.sort()).toEqual(PERKS.slice(-2).map(p => p.id).sort())
+  })
+})
+
+describe('combat stats with perks', () => {
+  it('stacks perks on top of upgrades', () => {
+    const upgrades = { ...emptyStats(), pierce: 2, fireRatePct: 20 }
+    const base = combatStats(upgrades)
+    const run = combatStats(upgrades, { multishot: 2, bigShots: 1, homing: 1, blast: 1 })
+    expect(base.shots).toBe(1)
+    expect(base.blastRadius).toBe(0)
+    expect(run.shots).toBe(3)
+    expect(run.bulletRadius).toBe(BULLET_RADIUS * 1.5)
+    expect(run.homingTurn).toBeGreaterThan(0)
+    expect(run.blastRadius).toBeGreaterThan(0)
+    expect(run.pierce).toBe(base.pierce)
+    expect(run.fireCooldownMs).toBe(base.fireCooldownMs)
+  })
+
+  it('heals more often with more lifesteal', () => {
+    const kills = [1, 2, 3].map(n => combatStats(emptyStats(), { lifesteal: n }).lifestealKills)
+    expect(kills[0]).toBeGreaterThan(kills[1])
+    expect(kills[1]).toBeGreaterThan(kills[2])
+    expect(kills[2]).toBeGreaterThan(0)
+  })
+})
@@ -0,0 +1,208 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { BACKUP_COUNT, DEFAULT_OUTFIT_COLOR, MAX_SAVED_PALETTES, SAVE_VERSION, checkSlot, createSlot, deleteSavedPalette, emptyStatistics, emptyUpgrades, listSavedPalettes, savePalette, duplicateSlot, exportSlot, getDefaultAppearance, importSave, listBackups, listSlots, loadSlot, renameSlot, restoreBackup, saveChecksum, sortSlots, updateSlot, upgradeSave, type SlotMeta } from '../src/state/save'
+import { getItem, installStorage, MemorySaveStorage, setItem } from '../src/state/storage'
+
+beforeEach(async () => {
+  await installStorage(new MemorySaveStorage())
+})
+
+describe('save migration', () => {
+  it('upgrades a v1 slot through every version and writes it back', () => {
+    setItem('mfg:slot:old', JSON.stringify({ version: 1, appearance: { hair: 'spike', color: 0xff0000, outfit: 'robe' } }))
+    const data = loadSlot('old')
+    expect(data).toMatchObject({
+      version: SAVE_VERSION,
+      name: 'Unnamed',
+      appearance: { hair: 'spike', bodyColor: 0xff0000, outfit: 'robe' },
+      meta: { cores: 0 },
+      stats: { runs: 0, bestLevel: 0 },
+      unlocks: { cosmetics: [] }
+    })
+    expect(JSON.parse(getItem('mfg:slot:old')!).version).toBe(SAVE_VERSION)
+  })
+
+  it('leaves saves from a newer version untouched', () => {
+    const raw = JSON.stringify({ version: SAVE_VERSION + 1, name: 'Future', somethingNew: true })
+    setItem('mfg:slot:next', raw)
+    expect(checkSlot('next')).toEqual({ kind: 'future', version: SAVE_VERSION + 1 })
+    expect(loadSlot('next')).toBeNull()
+    expect(getItem('mfg:slot:next')).toBe(raw)
+  })
+
+  it('rejects payloads that fail their version schema', () => {
+    expect(upgradeSave({ version: 1, appearance: { hair: 'spike' } }).kind).toBe('corrupt')
+    expect(upgradeSave({ version: 3, name: 'x', appearance: getDefaultAppearance() }).kind).toBe('corrupt')
+    expect(upgradeSave({ version: 'two' }).kind).toBe('corrupt')
+  })
+
+  it('fills upgrade keys missing from early v2 saves', () => {
+    setItem('mfg:slot:v2', JSON.stringify({ version: 2, name: 'Ada', appearance: getDefaultAppearance(), meta: { cores: 7, upgrades: { maxHp: 2, bulletSpeedPct: 0, dashSpeedPct: 0 } } }))
+    const data = loadSlot('v2')!
+    expect(data.meta.cores).toBe(7)
+    expect(data.meta.upgrades).toMatchObject({ maxHp: 2, fireRatePct: 0, pierce: 0, healOnClear: 0 })
+  })
+
+  it('keeps a v3 character looking the same in v4', () => {
+    const v3 = { version: 3, name: 'Ada', appearance: { hair: 'bob', bodyColor: 0x123456, hairColor: 0x654321, outfit: 'armor' }, meta: { cores: 3, upgrades: emptyUpgrades() }, stats: { ...emptyStatistics(), kills: 5 }, settings: {}, unlocks: { cosmetics: [] } }
+    const status = upgradeSave(v3)
+    expect(status.kind).toBe('ok')
+    if (status.kind !== 'ok') return
+    expect(status.data.appearance).toEqual({ hair: 'bob', face: 'blank', outfit: 'armor', accessory: 'none', bodyColor: 0x123456, hairColor: 0x654321, outfitColor: DEFAULT_OUTFIT_COLOR })
+    expect(status.data.stats.kills).toBe(5)
+    expect(upgradeSave({ ...v3, version: 4 }).kind).toBe('corrupt')
+  })
+
+  it('defaults settings added within v3', () => {
+    const id = createSlot(getDefaultAppearance(), 'Old')
+    setItem(`mfg:slot:${id}`, JSON.stringify({ ...loadSlot(id), settings: { masterVolume: 0.5 } }))
+    expect(loadSlot(id)!.settings).toEqual({ masterVolume: 0.5, musicVolume: 0.6, sfxVolume: 0.8, keyBindings: {}, movement: 'dash' })
+  })
+
+  it('replaces invalid settings with their defaults', () => {
+    const id = createSlot(getDefaultAppearance(), 'Edited')
+    const settings = { masterVolume: 'loud', musicVolume: 3, sfxVolume: 0.2, keyBindings: { dash: ['KeyQ'], shoot: 'KeyF' }, movement: 'x' }
+    setItem(`mfg:slot:${id}`, JSON.stringify({ ...loadSlot(id), settings }))
+    expect(loadSlot(id)!.settings).toEqual({ masterVolume: 0.8, musicVolume: 1, sfxVolume: 0.2, keyBindings: { dash: ['KeyQ'] }, movement: 'dash' })
+    setItem(`mfg:slot:${id}`, JSON.stringify({ ...loadSlot(id), settings: { keyBindings: ['KeyQ'] } }))
+    expect(loadSlot(id)!.settings.keyBindings).toEqual({})
+  })
+
+  it('quarantines corrupted slots instead of dropping them', () => {
+    expect(loadSlot('nope')).toBeNull()
+    const id = createSlot(getDefaultAppearance(), 'Broken')
+    setItem(`mfg:slot:${id}`, '{not json')
+    expect(loadSlot(id)).toBeNull()
+    expect(getItem(`mfg:slot:${id}`)).toBeNull()
+    expect(getItem(`mfg:quarantine:${id}`)).toBe('{not json')
+    expect(listSlots()[0].quarantined?.reason).toBe('not valid JSON')
+    expect(checkSlot(id).kind).toBe('corrupt')
+  })
+
+  it('lists created slots by name', () => {
+    const id = createSlot(getDefaultAppearance(), 'Mike')
+    expect(listSlots().map(s => [s.id, s.name])).toEqual([[id, 'Mike']])
+    expect(loadSlot(id)?.name).toBe('Mike')
+  })
+
+  it('sets aside a corrupt index entry and keeps the rest', () => {
+    const a = createSlot(getDefaultAppearance(), 'Ada')
+    const b = createSlot(getDefaultAppearance(), 'Bo')
+    const index = JSON.parse(getItem('mfg:slots:index')!)
+    setItem('mfg:slots:index', JSON.stringify([index[0], { id: 42, createdAt: 'soon' }, index[1]]))
+    expect(listSlots().map(s => [s.id, s.name])).toEqual([[a, 'Ada'], [b, 'Bo']])
+    expect(JSON.parse(getItem('mfg:slots:index:bad')!)).toEqual([{ id: 42, createdAt: 'soon' }])
+    expect(JSON.parse(getItem('mfg:slots:index')!)).toHaveLength(2)
+  })
+
+  it('rebuilds an unreadable index from the stored slots', () => {
+    const id = createSlot(getDefaultAppearance(), 'Ada')
+    setItem('mfg:slots:index', '[{"id":')
+    expect(listSlots().map(s => [s.id, s.name])).toEqual([[id, 'Ada']])
+    expect(JSON.parse(getItem('mfg:slots:index:bad')!)).toEqual(['[{"id":'])
+  })
+})
+
+describe('save files', () => {
+  it('round-trips a slot into a new slot with a unique name', () => {
+    const id = createSlot(getDefaultAppearance(), 'Ada')
+    const text = exportSlot(id)!
+    const imported = importSave(text)
+    expect(imported.id).not.toBe(id)
+    expect(imported.name).toBe('Ada (2)')
+    expect(importSave(text).name).toBe('Ada (3)')
+    expect(listSlots().map(s => s.name)).toEqual(['Ada', 'Ada (2)', 'Ada (3)'])
+    expect(loadSlot(imported.id)).toMatchObject({ name: 'Ada (2)', version: SAVE_VERSION })
+  })
+
+  it('rejects files whose payload was edited', () => {
+    const file = JSON.parse(exportSlot(createSlot(getDefaultAppearance(), 'Ada'))!)
+    file.save.meta.cores = 9999
+    expect(() => importSave(JSON.stringify(file))).toThrow(/checksum/)
+    expect(() => importSave('{"hello":1}')).toThrow(/Not a save file/)
+  })
+
+  it('migrates old payloads and refuses newer versions', () => {
+    const wrap = (save: unknown) => JSON.stringify({ format: 'mfg-save', exportedAt: 0, checksum: saveChecksum(JSON.stringify(save)), save })
+    const { id } = importSave(wrap({ version: 1, appearance: { hair: 'bob', color: 0x00ff00, outfit: 'suit' } }))
+    expect(loadSlot(id)).toMatchObject({ version: SAVE_VERSION, appearance: { bodyColor: 0x00ff00 } })
+    expect(() => importSave(wrap({ version: SAVE_VERSION + 1, name: 'Later' }))).toThrow(/newer version/)
+  })
+})
+
+describe('slot writes', () => {
+  it('keeps a rolling set of backups and restores a quarantined slot', () => {
+    const id = createSlot(getDefaultAppearance(), 'Ada')
+    for (let i = 1; i <= BACKUP_COUNT + 2; i++) updateSlot(id, d => { d.meta.cores = i })
+    const backups = listBackups(id)
+    expect(backups).toHaveLength(BACKUP_COUNT)
+    expect(JSON.parse(backups[0].raw).meta.cores).toBe(BACKUP_COUNT + 1)
+    setItem(`mfg:slot:${id}`, '{broken')
+    expect(checkSlot(id).kind).toBe('corrupt')
+    expect(restoreBackup(id)).toBe(backups[0].savedAt)
+    expect(loadSlot(id)?.meta.cores).toBe(BACKUP_COUNT + 1)
+    expect(listSlots()[0].quarantined).toBeUndefined()
+  })
+
+  it('finishes a write that was interrupted after the temp copy landed', () => {
+    const id = createSlot(getDefaultAppearance(), 'Ada')
+    const next = { ...loadSlot(id)!, meta: { cores: 42, upgrades: loadSlot(id)!.meta.upgrades } }
+    setItem(`mfg:tmp:${id}`, JSON.stringify(next))
+    expect(loadSlot(id)?.meta.cores).toBe(42)
+    expect(getItem(`mfg:tmp:${id}`)).toBeNull()
+  })
+
+  it('leaves the slot alone when an update is aborted', () => {
+    const id = createSlot(getDefaultAppearance(), 'Ada')
+    const before = getItem(`mfg:slot:${id}`)
+    expect(updateSlot(id, d => { d.meta.cores = 99; return false })).toBeNull()
+    expect(getItem(`mfg:slot:${id}`)).toBe(before)
+    expect(listBackups(id)).toEqual([])
+  })
+})
+
+describe('slot management', () => {
+  it('renames and duplicates slots without clashing names', () => {
+    const a = createSlot(getDefaultAppearance(), 'Ada')
+    createSlot(getDefaultAppearance(), 'Bo')
+    expect(renameSlot(a, 'Bo')).toBe('Bo (2)')
+    expect(loadSlot(a)?.name).toBe('Bo (2)')
+    updateSlot(a, d => { d.meta.cores = 5 })
+    const copy = duplicateSlot(a)!
+    expect(loadSlot(copy)).toMatchObject({ name: 'Bo (3)', meta: { cores: 5 } })
+    expect(listSlots().map(s => s.name)).toEqual(['Bo (2)', 'Bo', 'Bo (3)'])
+  })
+
+  it('sorts by last played, creation time or name', () => {
+    const slots: SlotMeta[] = [
+      { id: 'a', createdAt: 1, name: 'charlie', lastPlayedAt: 50 },
+      { id: 'b', createdAt: 3, name: 'Alpha' },
+      { id: 'c', createdAt: 2, name: 'bravo', lastPlayedAt: 10 }
+    ]
+    expect(sortSlots(slots, 'played').map(s => s.id)).toEqual(['a', 'c', 'b'])
+    expect(sortSlots(slots, 'created').map(s => s.id)).toEqual(['b', 'c', 'a'])
+    expect(sortSlots(slots, 'name').map(s => s.id)).toEqual(['b', 'c', 'a'])
+  })
+})
+
+describe('saved palettes', () => {
+  const pal = (n: number) => ({ bodyColor: n, hairColor: n + 1, outfitColor: n + 2 })
+
+  it('keeps the newest first without duplicates, up to the cap', () => {
+    for (let i = 0; i <= MAX_SAVED_PALETTES; i++) savePalette(pal(i * 10))
+    savePalette(pal(MAX_SAVED_PALETTES * 10 - 10))
+    const list = listSavedPalettes()
+    expect(list).toHaveLength(MAX_SAVED_PALETTES)
+    expect(list[0]).toEqual(pal(MAX_SAVED_PALETTES * 10 - 10))
+    expect(list[1]).toEqual(pal(MAX_SAVED_PALETTES * 10))
+    expect(list).not.toContainEqual(pal(0))
+  })
+
+  it('deletes by index and ignores malformed storage', () => {
+    savePalette(pal(1)); savePalette(pal(2))
+    expect(deleteSavedPalette(0)).toEqual([pal(1)])
+    setItem('mfg:palettes', JSON.stringify([{ bodyColor: 'red' }, pal(3)]))
+    expect(listSavedPalettes()).toEqual([pal(3)])
+    setItem('mfg:palettes', '{oops')
+    expect(listSavedPalettes()).toEqual([])
+  })
+})
@@ -0,0 +1,36 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { flushStorage, getItem, installStorage, MemorySaveStorage, onStorageFailure, setItem, type StorageFailure } from '../src/state/storage'
+import { createSlot, getDefaultAppearance, listSlots } from '../src/state/save'
+
+// Memory backend that rejects writes the way a full localStorage does
+class FullStorage extends MemorySaveStorage {
+  async write(): Promise<void> {
+    throw new DOMException('quota', 'QuotaExceededError')
+  }
+}
+
+afterEach(async () => {
+  await installStorage(new MemorySaveStorage())
+})
+
+describe('save storage', () => {
+  it('loads existing entries into the cache and writes through to the backend', async () => {
+    const backend = new MemorySaveStorage({ 'mfg:slots:index': JSON.stringify([{ id: 'a', createdAt: 1, name: 'Ada' }]) })
+    await installStorage(backend)
+    expect(listSlots().map(s => s.name)).toEqual(['Ada'])
+    const id = createSlot(getDefaultAppearance(), 'Bo')
+    await flushStorage()
+    expect(backend.data.has(`mfg:slot:${id}`)).toBe(true)
+    expect(JSON.parse(backend.data.get('mfg:slots:index')!)).toHaveLength(2)
+  })
+
+  it('reports quota failures but keeps the session value', async () => {
+    await installStorage(new FullStorage())
+    const failures: StorageFailure[] = []
+    const off = onStorageFailure(f => failures.push(f))
+    expect(await setItem('mfg:slot:x', 'data')).toBe(false)
+    off()
+    expect(failures).toMatchObject([{ key: 'mfg:slot:x', quota: true }])
+    expect(getItem('mfg:slot:x')).toBe('data')
+  })
+})
@@ -0,0 +1,191 @@
+import { describe, expect, it } from 'vitest'
+import { getArchetype } from '../src/data/enemies'
+import { CombatWorld, type SimEnemy, type WorldHost } from '../src/sim/world'
+
+const STEP = 1000 / 60
+const FAR = { x: 760, y: 20, r: 16, vulnerable: false }
+
+function makeWorld(): { world: CombatWorld; killed: SimEnemy[]; hits: number[]; grazes: number[] } {
+  const killed: SimEnemy[] = []
+  const hits: number[] = []
+  const grazes: number[] = []
+  const host: WorldHost = {
+    playerHit: damage => hits.push(damage),
+    dashGraze: () => grazes.push(1),
+    enemyKilled: e => killed.push(e)
+  }
+  const world = new CombatWorld(host)
+  world.bounds = { width: 800, height: 600 }
+  return { world, killed, hits, grazes }
+}
+
+function runBullets(world: CombatWorld, steps = 60): void {
+  for (let i = 0; i < steps && world.bullets.length > 0; i++) world.step(STEP, FAR)
+}
+
+describe('bullet pierce', () => {
+  it('stops at the first enemy without pierce', () => {
+    const { world, killed } = makeWorld()
+    world.spawnEnemy(getArchetype('chaser'), { at: { x: 300, y: 300 } })
+    world.spawnEnemy(getArchetype('chaser'), { at: { x: 360, y: 300 } })
+    world.fireBullet(100, 300, 1100, 0, 0)
+    runBullets(world)
+    expect(killed).toHaveLength(1)
+    expect(world.enemies).toHaveLength(1)
+  })
+
+  it('passes through one enemy per pierce point', () => {
+    const { world, killed } = makeWorld()
+    for (const x of [300, 360, 420]) world.spawnEnemy(getArchetype('chaser'), { at: { x, y: 300 } })
+    world.fireBullet(100, 300, 1100, 0, 1)
+    runBullets(world)
+    expect(killed).toHaveLength(2)
+  })
+
+  it('never hits the same enemy twice', () => {
+    const { world } = makeWorld()
+    const tank = world.spawnEnemy(getArchetype('tank'), { at: { x: 300, y: 300 } })
+    world.fireBullet(100, 300, 1100, 0, 5)
+    runBullets(world)
+    expect(tank.hp).toBe(getArchetype('tank').hp - 1)
+  })
+})
+
+describe('run perk effects', () => {
+  it('hits wider with bigger bullets', () => {
+    const miss = makeWorld(), hit = makeWorld()
+    for (const { world } of [miss, hit]) world.spawnEnemy(getArchetype('tank'), { at: { x: 300, y: 272 } })
+    miss.world.fireBullet(100, 300, 1100, 0, 0)
+    hit.world.fireBullet(100, 300, 1100, 0, 0, { radius: 16 })
+    runBullets(miss.world); runBullets(hit.world)
+    expect(miss.world.enemies[0].hp).toBe(getArchetype('tank').hp)
+    expect(hit.world.enemies[0].hp).toBe(getArchetype('tank').hp - 1)
+  })
+
+  it('curves homing bullets into an enemy off the line of fire', () => {
+    const straight = makeWorld(), homing = makeWorld()
+    for (const { world } of [straight, homing]) world.spawnEnemy(getArchetype('chaser'), { at: { x: 400, y: 420 } })
+    straight.world.fireBullet(100, 300, 1100, 0, 0)
+    homing.world.fireBullet(100, 300, 1100, 0, 0, { homing: 9 })
+    runBullets(straight.world); runBullets(homing.world)
+    expect(straight.killed).toHaveLength(0)
+    expect(homing.killed).toHaveLength(1)
+  })
+
+  it('explodes bullet kills into nearby enemies without chaining', () => {
+    const { world, killed } = makeWorld()
+    world.killBlast = { radius: 48, damage: 1 }
+    world.spawnEnemy(getArchetype('chaser'), { at: { x: 300, y: 300 } })
+    world.spawnEnemy(getArchetype('chaser'), { at: { x: 300, y: 350 } })
+    world.spawnEnemy(getArchetype('chaser'), { at: { x: 300, y: 400 } })
+    world.fireBullet(100, 300, 1100, 0, 0)
+    runBullets(world)
+    expect(killed).toHaveLength(2)
+    expect(world.enemies).toHaveLength(1)
+  })
+
+  it('strikes each enemy once per dash', () => {
+    const { world } = makeWorld()
+    const tank = world.spawnEnemy(getArchetype('tank'), { at: { x: 300, y: 300 } })
+    const hits = new Set<SimEnemy>()
+    world.strike(290, 300, 16, 2, hits)
+    world.strike(295, 300, 16, 2, hits)
+    expect(tank.hp).toBe(getArchetype('tank').hp - 2)
+    world.strike(295, 300, 16, 2, new Set())
+    expect(tank.hp).toBe(getArchetype('tank').hp - 4)
+  })
+})
+
+describe('hostile shots', () => {
+  const player = { x: 400, y: 300, r: 16 }
+  function shoot(probe: { vulnerable: boolean; dashing?: boolean }): ReturnType<typeof makeWorld> {
+    const w = makeWorld()
+    w.world.fireHostile('orb', 200, 300, 1, 0, 2)
+    for (let i = 0; i < 120 && w.world.hostiles.length > 0; i++) w.world.step(STEP, { ...player, ...probe })
+    return w
+  }
+
+  it('hits a vulnerable player once and is used up', () => {
+    const { world, hits } = shoot({ vulnerable: true })
+    expect(hits).toEqual([2])
+    expect(world.hostiles).toHaveLength(0)
+  })
+
+  it('is grazed away by a dash without a hit', () => {
+    const { hits, grazes } = shoot({ vulnerable: false, dashing: true })
+    expect(hits).toHaveLength(0)
+    expect(grazes).toHaveLength(1)
+  })
+
+  it('passes through an invulnerable player and expires off the field', () => {
+    const { world, hits, grazes } = shoot({ vulnerable: false })
+    expect(hits).toHaveLength(0)
+    expect(grazes).toHaveLength(0)
+    expect(world.hostiles).toHaveLength(0)
+  })
+})
+
+describe('level completion', () => {
+  // Kill everything on the field by dropping a bullet on each enemy every step
+  function killAll(world: CombatWorld, filter: (e: SimEnemy) => boolean = () => true): void {
+    for (const e of world.enemies) if (filter(e)) world.fireBullet(e.x, e.y, 0.001, 0, 0)
+  }
+
+  it('completes once every wave is spawned and cleared', () => {
+    const { world, killed } = makeWorld()
+    world.startLevel(1, 1234)
+    expect(world.levelComplete).toBe(false)
+    let steps = 0
+    while (!world.levelComplete && steps++ < 60 * 600) {
+      killAll(world)
+      world.step(STEP, FAR)
+    }
+    expect(world.levelComplete).toBe(true)
+    expect(killed.length).toBeGreaterThan(0)
+  })
+
+  it('spawns the same enemies for the same seed', () => {
+    const a = makeWorld(), b = makeWorld()
+    a.world.startLevel(3, 99); b.world.startLevel(3, 99)
+    for (let i = 0; i < 60 * 10; i++) { a.world.step(STEP, FAR); b.world.step(STEP, FAR) }
+    expect(a.world.enemies.map(e => [e.def.id, e.x, e.y])).toEqual(b.world.enemies.map(e => [e.def.id, e.x, e.y]))
+  })
+
+  it('keeps a boss level open until the boss is dead', () => {
+    const { world } = makeWorld()
+    world.startLevel(5, 42)
+    let steps = 0
+    while (world.waves?.pendingSpawns() !== 0 && steps++ < 60 * 600) {
+      killAll(world, e => !e.def.boss)
+      world.step(STEP, FAR)
+    }
+    expect(world.boss).toBeDefined()
+    expect(world.levelComplete).toBe(false)
+    while (!world.levelComplete && steps++ < 60 * 1200) {
+      killAll(world)
+      world.step(STEP, FAR)
+    }
+    expect(world.boss).toBeUndefined()
+    expect(world.levelComplete).toBe(true)
+  })
+
+  it('completes as soon as the boss dies, dropping adds still to come', () => {
+    const { world } = makeWorld()
+    world.startLevel(5, 42)
+    world.step(STEP, FAR)
+    const boss = world.boss!
+    expect(boss).toBeDefined()
+    expect(world.waves!.pendingSpawns()).toBeGreaterThan(0)
+    boss.e.hp = 1
+    let steps = 0
+    while (!world.levelComplete && steps++ < 60) {
+      killAll(world, e => e === boss.e)
+      world.step(STEP, FAR)
+    }
+    expect(world.levelComplete).toBe(true)
+    expect(world.waves!.pendingSpawns()).toBe(0)
+    const alive = world.enemies.length
+    for (let i = 0; i < 60 * 30; i++) world.step(STEP, FAR)
+    expect(world.enemies.length).toBe(alive)
+  })
+})